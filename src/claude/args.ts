@@ -0,0 +1,44 @@
+import type { ClaudeProcessConfig } from './types.js';
+
+/**
+ * CLI arguments shared by both backends, derived from the process config
+ */
+export function buildClaudeArgs(processConfig: ClaudeProcessConfig): string[] {
+  const args: string[] = [];
+  const conversation = processConfig.conversation;
+
+  switch (conversation?.mode) {
+    case 'new':
+      args.push('--session-id', conversation.claudeSessionId);
+      break;
+    case 'resume':
+      args.push('--resume', conversation.claudeSessionId);
+      break;
+    case 'continue':
+      args.push('--continue');
+      break;
+  }
+
+  const settings = processConfig.settings ?? {};
+
+  if (settings.model) {
+    args.push('--model', settings.model);
+  }
+  if (settings.permissionMode) {
+    args.push('--permission-mode', settings.permissionMode);
+  }
+  if (settings.allowedTools?.length) {
+    args.push('--allowedTools', settings.allowedTools.join(','));
+  }
+  if (settings.disallowedTools?.length) {
+    args.push('--disallowedTools', settings.disallowedTools.join(','));
+  }
+  if (settings.appendSystemPrompt) {
+    args.push('--append-system-prompt', settings.appendSystemPrompt);
+  }
+  for (const dir of settings.addDirs ?? []) {
+    args.push('--add-dir', dir);
+  }
+
+  return args;
+}
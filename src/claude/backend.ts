@@ -0,0 +1,24 @@
+import { ClaudeCodeWrapper } from './wrapper.js';
+import { ClaudeStreamWrapper } from './stream-wrapper.js';
+import type { ClaudeBackend, ClaudeBackendProcess, ClaudeProcessConfig } from './types.js';
+
+export const CLAUDE_BACKENDS: readonly ClaudeBackend[] = ['pty', 'stream-json'];
+
+export function isClaudeBackend(value: string): value is ClaudeBackend {
+  return (CLAUDE_BACKENDS as readonly string[]).includes(value);
+}
+
+/**
+ * Create the wrapper for the requested backend
+ */
+export function createClaudeProcess(
+  backend: ClaudeBackend,
+  processConfig: ClaudeProcessConfig
+): ClaudeBackendProcess {
+  switch (backend) {
+    case 'stream-json':
+      return new ClaudeStreamWrapper(processConfig);
+    case 'pty':
+      return new ClaudeCodeWrapper(processConfig);
+  }
+}
@@ -0,0 +1,129 @@
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+
+const log = logger.child({ component: 'egress-proxy' });
+
+// Longest CONNECT request head we are willing to buffer
+const MAX_REQUEST_HEAD = 8192;
+
+let server: net.Server | null = null;
+let socketPath: string | null = null;
+
+/**
+ * Hosts a sandbox without network may still reach: the configured list plus
+ * the host of ANTHROPIC_BASE_URL, so the CLI can talk to its API
+ */
+function allowedHosts(): Set<string> {
+  const hosts = new Set(config.claude.sandbox.allowedHosts.map(h => h.toLowerCase()));
+  const baseUrl = process.env.ANTHROPIC_BASE_URL;
+  if (baseUrl) {
+    try {
+      hosts.add(new URL(baseUrl).hostname.toLowerCase());
+    } catch {
+      // Not a URL; the CLI will fail on it anyway
+    }
+  }
+  return hosts;
+}
+
+function handleConnection(client: net.Socket, hosts: Set<string>): void {
+  let head = '';
+
+  const onData = (chunk: Buffer) => {
+    head += chunk.toString('latin1');
+    const end = head.indexOf('\r\n\r\n');
+    if (end === -1) {
+      if (head.length > MAX_REQUEST_HEAD) client.destroy();
+      return;
+    }
+
+    client.off('data', onData);
+    const match = head.match(/^CONNECT ([^\s:]+):(\d+) HTTP\/1\.[01]\r\n/i);
+    const host = match?.[1]?.toLowerCase();
+    const port = Number(match?.[2]);
+
+    if (!host || !hosts.has(host) || port !== 443) {
+      log.warn({ request: head.split('\r\n')[0] }, 'Blocked sandbox egress');
+      client.end('HTTP/1.1 403 Forbidden\r\nContent-Length: 0\r\n\r\n');
+      return;
+    }
+
+    const upstream = net.connect(port, host, () => {
+      client.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+      const rest = head.slice(end + 4);
+      if (rest) upstream.write(Buffer.from(rest, 'latin1'));
+      client.pipe(upstream);
+      upstream.pipe(client);
+    });
+
+    upstream.on('error', () => client.end('HTTP/1.1 502 Bad Gateway\r\nContent-Length: 0\r\n\r\n'));
+    client.on('error', () => upstream.destroy());
+    client.on('close', () => upstream.destroy());
+  };
+
+  client.on('data', onData);
+  client.on('error', () => client.destroy());
+}
+
+/**
+ * Directory holding the proxy socket. Its path is the same for every
+ * ClaudeWire process of this user: sandboxes bind-mount the directory, and
+ * ones that outlive a restart (detachable sessions) must find the new
+ * process's socket in it.
+ */
+function socketDir(): string {
+  const uid = os.userInfo().uid;
+  const dir = path.join(os.tmpdir(), `claudewire-egress-${uid}`);
+  fs.mkdirSync(dir, { mode: 0o700, recursive: true });
+
+  // The tmp dir is shared: refuse a directory someone else planted there
+  const stat = fs.lstatSync(dir);
+  if (!stat.isDirectory() || stat.uid !== uid || (stat.mode & 0o077) !== 0) {
+    throw new Error(`egress proxy directory ${dir} is not a private directory owned by this user`);
+  }
+  return dir;
+}
+
+/**
+ * Start (once) the HTTPS CONNECT proxy that sandboxes without network use to
+ * reach the Claude API. It listens on a Unix socket that is mounted into each
+ * sandbox; only TLS connections to allowlisted hosts are forwarded.
+ */
+export async function ensureEgressProxy(): Promise<string> {
+  if (server && socketPath) {
+    return socketPath;
+  }
+
+  const listenPath = path.join(socketDir(), 'egress.sock');
+  // Left behind by a previous process that did not shut down cleanly
+  fs.rmSync(listenPath, { force: true });
+  const hosts = allowedHosts();
+
+  const proxy = net.createServer(client => handleConnection(client, hosts));
+  await new Promise<void>((resolve, reject) => {
+    proxy.once('error', reject);
+    proxy.listen(listenPath, () => {
+      proxy.off('error', reject);
+      resolve();
+    });
+  });
+
+  server = proxy;
+  socketPath = listenPath;
+  log.info({ socketPath, hosts: [...hosts] }, 'Sandbox egress proxy listening');
+  return listenPath;
+}
+
+export async function stopEgressProxy(): Promise<void> {
+  if (!server || !socketPath) return;
+
+  await new Promise<void>(resolve => server!.close(() => resolve()));
+  // Keep the directory: running sandboxes have it mounted
+  fs.rmSync(socketPath, { force: true });
+  server = null;
+  socketPath = null;
+}
@@ -0,0 +1,102 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { config } from '../config/index.js';
+import { UnsafeEnvironmentError } from '../utils/errors.js';
+import { assertSafeChildEnvironment, buildClaudeEnv, parseEnvFile, projectEnvFile, projectKey } from './env.js';
+
+describe('parseEnvFile', () => {
+  it('reads plain, exported, quoted and commented lines', () => {
+    expect(parseEnvFile([
+      '# a comment',
+      '',
+      'PLAIN=value # trailing comment',
+      'export EXPORTED = spaced',
+      'DOUBLE="two\\nlines \\"quoted\\""',
+      "SINGLE='kept # as is'",
+      'not a variable',
+      'EMPTY=',
+    ].join('\r\n'))).toEqual({
+      PLAIN: 'value',
+      EXPORTED: 'spaced',
+      DOUBLE: 'two\nlines "quoted"',
+      SINGLE: 'kept # as is',
+      EMPTY: '',
+    });
+  });
+});
+
+describe('project environment', () => {
+  let base: string;
+  let projectPath: string;
+
+  beforeAll(() => {
+    base = fs.mkdtempSync(path.join(os.tmpdir(), 'claudewire-env-'));
+    projectPath = path.join(base, 'projects', 'U123', 'web');
+    fs.mkdirSync(projectPath, { recursive: true });
+    fs.mkdirSync(path.join(base, 'project-env', 'U123'), { recursive: true });
+    fs.writeFileSync(
+      path.join(base, 'project-env', 'U123', 'web.env'),
+      'DATABASE_URL=postgres://web\nPATH=/project/bin\nSLACK_BOT_TOKEN=xoxb-stolen\n'
+    );
+  });
+
+  afterAll(() => {
+    fs.rmSync(base, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    config.claude.projectsDir = path.join(base, 'projects');
+    config.claude.projectEnvDir = path.join(base, 'project-env');
+    config.claude.envAllowlist = ['PATH', 'HOME', 'SLACK_BOT_TOKEN'];
+    vi.stubEnv('PATH', '/usr/bin');
+    vi.stubEnv('HOME', '/home/claudewire');
+    vi.stubEnv('SLACK_BOT_TOKEN', 'xoxb-secret');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('identifies projects by their path under the projects directory', () => {
+    expect(projectKey(projectPath)).toBe(path.join('U123', 'web'));
+    expect(projectKey(config.claude.projectsDir)).toBeNull();
+    expect(projectKey(base)).toBeNull();
+    expect(projectEnvFile(projectPath)).toBe(path.join(base, 'project-env', 'U123', 'web.env'));
+  });
+
+  it('layers allowlisted, project and fixed variables, without ClaudeWire secrets from the project file', () => {
+    config.claude.envAllowlist = ['PATH', 'HOME'];
+
+    expect(buildClaudeEnv(projectPath, { HOME: '/sandbox/home' })).toEqual({
+      PATH: '/project/bin',
+      HOME: '/sandbox/home',
+      DATABASE_URL: 'postgres://web',
+    });
+  });
+
+  it('refuses an allowlist that names a secret', () => {
+    expect(() => assertSafeChildEnvironment()).toThrow(UnsafeEnvironmentError);
+  });
+
+  it('refuses an allowlisted variable holding a copy of a secret', () => {
+    config.claude.envAllowlist = ['PATH', 'HOME'];
+    vi.stubEnv('HOME', 'xoxb-secret');
+
+    expect(() => assertSafeChildEnvironment()).toThrow(/HOME \(same value as SLACK_BOT_TOKEN\)/);
+  });
+
+  it('refuses a project env directory inside the projects directory', () => {
+    config.claude.envAllowlist = ['PATH', 'HOME'];
+    config.claude.projectEnvDir = path.join(base, 'projects', '.env');
+
+    expect(() => assertSafeChildEnvironment()).toThrow(/PROJECT_ENV_DIR/);
+  });
+
+  it('accepts a safe setup', () => {
+    config.claude.envAllowlist = ['PATH', 'HOME'];
+
+    expect(() => assertSafeChildEnvironment()).not.toThrow();
+  });
+});
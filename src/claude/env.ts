@@ -0,0 +1,141 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { UnsafeEnvironmentError } from '../utils/errors.js';
+
+const log = logger.child({ component: 'claude-env' });
+
+// ClaudeWire's own credentials; a Claude process must never see these
+export const SECRET_ENV_VARS = [
+  'SLACK_BOT_TOKEN',
+  'SLACK_APP_TOKEN',
+  'SLACK_SIGNING_SECRET',
+  'REDIS_URL',
+] as const;
+
+/**
+ * Parse a .env-style file: `KEY=value` lines, optional `export ` prefix,
+ * `#` comments and single- or double-quoted values
+ */
+export function parseEnvFile(content: string): Record<string, string> {
+  const vars: Record<string, string> = {};
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const match = line.match(/^(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/);
+    if (!match) continue;
+
+    const [, key, rawValue] = match;
+    const doubleQuoted = rawValue!.match(/^"((?:[^"\\]|\\.)*)"/);
+    const singleQuoted = rawValue!.match(/^'([^']*)'/);
+    if (doubleQuoted) {
+      vars[key!] = doubleQuoted[1]!.replace(/\\n/g, '\n').replace(/\\(["\\])/g, '$1');
+    } else if (singleQuoted) {
+      vars[key!] = singleQuoted[1]!;
+    } else {
+      vars[key!] = rawValue!.replace(/\s+#.*$/, '');
+    }
+  }
+
+  return vars;
+}
+
+/**
+ * A project's path relative to the projects directory, e.g. `U01234567/web`,
+ * which identifies it in per-project settings. Null outside that directory.
+ */
+export function projectKey(projectPath: string): string | null {
+  const relative = path.relative(path.resolve(config.claude.projectsDir), path.resolve(projectPath));
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) return null;
+  return relative;
+}
+
+/**
+ * Location of a project's extra variables, mirroring its place under the
+ * projects directory: `<projectEnvDir>/<user>/<project>.env`
+ */
+export function projectEnvFile(projectPath: string): string | null {
+  if (!config.claude.projectEnvDir) return null;
+
+  const key = projectKey(projectPath);
+  if (!key) return null;
+
+  return path.join(path.resolve(config.claude.projectEnvDir), `${key}.env`);
+}
+
+function loadProjectEnv(projectPath: string): Record<string, string> {
+  const file = projectEnvFile(projectPath);
+  if (!file || !fs.existsSync(file)) return {};
+
+  const vars = parseEnvFile(fs.readFileSync(file, 'utf8'));
+  for (const name of SECRET_ENV_VARS) {
+    if (name in vars) {
+      log.warn({ file, name }, 'Ignoring ClaudeWire secret in project env file');
+      delete vars[name];
+    }
+  }
+  return vars;
+}
+
+/**
+ * Variables inherited from ClaudeWire's own environment, filtered by the allowlist
+ */
+function inheritedEnv(): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const name of config.claude.envAllowlist) {
+    const value = process.env[name];
+    if (value !== undefined) {
+      env[name] = value;
+    }
+  }
+  return env;
+}
+
+/**
+ * Environment for a Claude process: allowlisted variables, then the
+ * project's extra variables, then the backend's fixed settings
+ */
+export function buildClaudeEnv(projectPath: string, fixed: Record<string, string>): Record<string, string> {
+  return {
+    ...inheritedEnv(),
+    ...loadProjectEnv(projectPath),
+    ...fixed,
+  };
+}
+
+/**
+ * Refuse to start if a Claude process could see ClaudeWire's secrets, either
+ * by name or copied into another allowlisted variable, or if project env
+ * files would be readable from inside the projects directory
+ */
+export function assertSafeChildEnvironment(): void {
+  const env = inheritedEnv();
+  const secretValues = new Map<string, string>();
+  for (const name of SECRET_ENV_VARS) {
+    const value = process.env[name];
+    if (value) secretValues.set(value, name);
+  }
+
+  const leaks: string[] = [];
+  for (const [name, value] of Object.entries(env)) {
+    if ((SECRET_ENV_VARS as readonly string[]).includes(name)) {
+      leaks.push(name);
+    } else if (secretValues.has(value)) {
+      leaks.push(`${name} (same value as ${secretValues.get(value)})`);
+    }
+  }
+
+  if (config.claude.projectEnvDir) {
+    const relative = path.relative(path.resolve(config.claude.projectsDir), path.resolve(config.claude.projectEnvDir));
+    if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+      leaks.push(`PROJECT_ENV_DIR (inside PROJECTS_DIR)`);
+    }
+  }
+
+  if (leaks.length > 0) {
+    throw new UnsafeEnvironmentError(leaks);
+  }
+}
@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectInputPrompt,
+  detectStartupBlocker,
+  findPermissionOption,
+  parseSelectionMenu,
+  parseToolPermissionRequest,
+} from './parser.js';
+
+const screen = (...lines: string[]) => lines.join('\n');
+
+describe('parseToolPermissionRequest', () => {
+  it('reads a Bash command prompt', () => {
+    const text = screen(
+      '╭──────────────────────────────────────────╮',
+      '│ Bash command                             │',
+      '│                                          │',
+      '│   npm install --save-dev vitest          │',
+      '│   Install the test runner                │',
+      '│                                          │',
+      '│ Do you want to proceed?                  │',
+      '│ ❯ 1. Yes                                 │',
+      "│   2. Yes, and don't ask again for npm    │",
+      '│   3. No, and tell Claude what to do      │',
+      '╰──────────────────────────────────────────╯',
+    );
+
+    expect(parseToolPermissionRequest(text)).toEqual({
+      toolName: 'Bash',
+      target: 'npm install --save-dev vitest',
+      description: 'Install the test runner',
+      diffPreview: null,
+      question: 'Do you want to proceed?',
+      options: [
+        { key: '1', label: 'Yes' },
+        { key: '2', label: "Yes, and don't ask again for npm" },
+        { key: '3', label: 'No, and tell Claude what to do' },
+      ],
+      rawText: text,
+    });
+  });
+
+  it('reads the full path and diff of an edit prompt', () => {
+    const request = parseToolPermissionRequest(screen(
+      '│ Edit file                                │',
+      '│ src/app/index.ts                         │',
+      '│   12 - const port = 3000;                │',
+      '│   12 + const port = 8080;                │',
+      '│ Do you want to make this edit to index.ts? │',
+      '│ ❯ 1. Yes                                 │',
+      '│   2. No                                  │',
+    ));
+
+    expect(request).toMatchObject({
+      toolName: 'Edit',
+      target: 'src/app/index.ts',
+      description: null,
+      question: 'Do you want to make this edit to index.ts?',
+    });
+    expect(request?.diffPreview).toBe('  12 - const port = 3000;\n  12 + const port = 8080;');
+  });
+
+  it('offers y and n for a prompt without numbered options', () => {
+    const request = parseToolPermissionRequest('Allow Bash tool to run `ls`? [y/n]');
+
+    expect(request?.toolName).toBe('Bash');
+    expect(request?.options).toEqual([
+      { key: 'y', label: 'Yes' },
+      { key: 'n', label: 'No' },
+    ]);
+  });
+
+  it('returns null when no prompt is shown', () => {
+    expect(parseToolPermissionRequest(screen('│ > fix the build │', '? for shortcuts'))).toBeNull();
+  });
+});
+
+describe('findPermissionOption', () => {
+  it('picks the option for each answer of a numbered prompt', () => {
+    const request = parseToolPermissionRequest(screen(
+      '│ Bash command                             │',
+      '│   npm test                               │',
+      '│ Do you want to proceed?                  │',
+      '│ ❯ 1. Yes                                 │',
+      "│   2. Yes, and don't ask again for npm    │",
+      '│   3. No, and tell Claude what to do      │',
+    ))!;
+
+    expect(findPermissionOption(request, 'approve')?.key).toBe('1');
+    expect(findPermissionOption(request, 'always')?.key).toBe('2');
+    expect(findPermissionOption(request, 'deny')?.key).toBe('3');
+  });
+
+  it('has nothing for always when the prompt cannot remember the answer', () => {
+    const request = parseToolPermissionRequest('Allow Bash tool to run `ls`? [y/n]')!;
+
+    expect(findPermissionOption(request, 'approve')?.key).toBe('y');
+    expect(findPermissionOption(request, 'always')).toBeUndefined();
+  });
+});
+
+describe('parseSelectionMenu', () => {
+  it('reads a numbered menu and the option under the cursor', () => {
+    expect(parseSelectionMenu(screen(
+      '│ Select model                 │',
+      '│                              │',
+      '│   1. Default (recommended)   │',
+      '│ ❯ 2. Opus                    │',
+      '│   3. Haiku                   │',
+    ))).toEqual({
+      title: 'Select model',
+      options: [
+        { index: 0, key: '1', label: 'Default (recommended)' },
+        { index: 1, key: '2', label: 'Opus' },
+        { index: 2, key: '3', label: 'Haiku' },
+      ],
+      selectedIndex: 1,
+    });
+  });
+
+  it('reads an unnumbered menu from the options lined up with the cursor', () => {
+    expect(parseSelectionMenu(screen(
+      'Choose a theme',
+      '  Dark mode',
+      '❯ Light mode',
+      '  Light mode (colorblind-friendly)',
+      '',
+      'Press Enter to confirm',
+    ))).toEqual({
+      title: 'Choose a theme',
+      options: [
+        { index: 0, key: null, label: 'Dark mode' },
+        { index: 1, key: null, label: 'Light mode' },
+        { index: 2, key: null, label: 'Light mode (colorblind-friendly)' },
+      ],
+      selectedIndex: 1,
+    });
+  });
+
+  it('does not mistake the input prompt for a menu', () => {
+    expect(parseSelectionMenu(screen('╭────────────╮', '│ > fix it   │', '╰────────────╯'))).toBeNull();
+  });
+
+  it('needs at least two options', () => {
+    expect(parseSelectionMenu(screen('Continue?', '❯ 1. Yes'))).toBeNull();
+  });
+});
+
+describe('detectInputPrompt', () => {
+  it('recognises the boxed input prompt', () => {
+    expect(detectInputPrompt(screen('╭──────────╮', '│ >        │', '╰──────────╯'))).toBe(true);
+    expect(detectInputPrompt(screen('│ > fix the build   │'))).toBe(true);
+    expect(detectInputPrompt('  ? for shortcuts')).toBe(true);
+  });
+
+  it('ignores screens without one', () => {
+    expect(detectInputPrompt(screen('Do you trust the files in this folder?', '❯ 1. Yes, proceed'))).toBe(false);
+    expect(detectInputPrompt('> quoted reply in the output')).toBe(false);
+  });
+});
+
+describe('detectStartupBlocker', () => {
+  it('recognises each blocking dialog', () => {
+    expect(detectStartupBlocker('Do you trust the files in this folder?')).toBe('trust_dialog');
+    expect(detectStartupBlocker('Select login method:')).toBe('login_required');
+    expect(detectStartupBlocker('Invalid API key · Please run /login')).toBe('login_required');
+    expect(detectStartupBlocker('An update is required to continue')).toBe('update_required');
+    expect(detectStartupBlocker('Claude Code needs to be updated')).toBe('update_required');
+  });
+
+  it('ignores banners and tips that only mention logins or updates', () => {
+    expect(detectStartupBlocker(screen(
+      '✻ Welcome to Claude Code!',
+      'Logged in as dev@example.com',
+      'Tip: run claude update to get the latest version',
+      '? for shortcuts',
+    ))).toBeNull();
+  });
+});
@@ -1,4 +1,12 @@
 import stripAnsi from 'strip-ansi';
+import type {
+  MenuDigitKey,
+  MenuOption,
+  PermissionAnswer,
+  SelectionMenu,
+  ToolPermissionOption,
+  ToolPermissionRequest,
+} from './types.js';
 
 /**
  * Strip ANSI escape codes from text
@@ -39,7 +47,7 @@ export function detectToolUsePrompt(text: string): boolean {
     /Allow\s+\w+\s+tool/i,
     /\[y\/n\]/i,
     /Press\s+y\s+to\s+allow/i,
-    /Do you want to proceed/i,
+    /Do you want to (?:proceed|make this edit|create|overwrite)/i,
   ];
 
   return patterns.some(pattern => pattern.test(text));
@@ -53,12 +61,207 @@ export function detectProcessing(text: string): boolean {
   return spinnerChars.some(char => text.includes(char));
 }
 
+/**
+ * Turn a line read off the emulated screen into text worth posting, or null
+ * for TUI chrome: box borders, spinners and status hints.
+ */
+export function cleanScreenLine(line: string): string | null {
+  // Pure border lines (╭───╮, ╰───╯, ────)
+  if (line.trim() && /^[\s─━│┃╭╮╰╯┌┐└┘├┤┬┴┼═║╔╗╚╝]+$/.test(line)) {
+    return null;
+  }
+
+  if (detectProcessing(line) || /esc to interrupt/i.test(line)) {
+    return null;
+  }
+
+  // Claude Code's own status spinner, e.g. "✻ Thinking… (3s)"
+  if (/^\s*[✻✶✳✢✽·*]\s+\w+…/.test(line)) {
+    return null;
+  }
+
+  // Unwrap boxed content, including nested boxes: "│ │ text │ │" -> "text"
+  let unboxed = line;
+  let previous: string;
+  do {
+    previous = unboxed;
+    unboxed = unboxed.replace(/^\s*[│┃║]\s?/, '').replace(/\s*[│┃║]\s*$/, '');
+  } while (unboxed !== previous);
+
+  if (unboxed.trim() && /^[\s─━╭╮╰╯┌┐└┘├┤┬┴┼═╔╗╚╝]+$/.test(unboxed)) {
+    return null;
+  }
+
+  return unboxed.trimEnd();
+}
+
+// Dialog headings Claude Code shows above a permission prompt
+const TOOL_HEADINGS: Array<[RegExp, string]> = [
+  [/^Bash command\b/i, 'Bash'],
+  [/^Edit file\b/i, 'Edit'],
+  [/^Create file\b/i, 'Write'],
+  [/^Write file\b/i, 'Write'],
+  [/^Read file\b/i, 'Read'],
+  [/^Fetch\b/i, 'WebFetch'],
+  [/^Web search\b/i, 'WebSearch'],
+];
+
+/**
+ * Detect Claude Code's input prompt, which means the CLI is ready for a message
+ */
+export function detectInputPrompt(screenText: string): boolean {
+  const patterns = [
+    /^\s*│\s*>\s/m,
+    /^\s*│\s*>\s*│?\s*$/m,
+    /\?\s+for shortcuts/i,
+  ];
+
+  return patterns.some(pattern => pattern.test(screenText));
+}
+
+export type StartupBlocker = 'trust_dialog' | 'login_required' | 'update_required';
+
+/**
+ * Recognise screens that stop Claude Code from reaching its input prompt
+ * on startup. Only the wording of the dialogs themselves counts, since
+ * welcome banners and tips mention logins and updates too.
+ */
+export function detectStartupBlocker(screenText: string): StartupBlocker | null {
+  if (/Do you trust the files in this folder|trust this folder/i.test(screenText)) {
+    return 'trust_dialog';
+  }
+
+  if (/Select login method|Please run \/login|Invalid API key/i.test(screenText)) {
+    return 'login_required';
+  }
+
+  if (/update (?:is )?required|needs to be updated/i.test(screenText)) {
+    return 'update_required';
+  }
+
+  return null;
+}
+
+/**
+ * Detect whether the screen shows Claude working on a turn: a spinner or the
+ * "esc to interrupt" hint under it
+ */
+export function detectTurnInProgress(screenText: string): boolean {
+  return detectProcessing(screenText) || /esc to interrupt/i.test(screenText);
+}
+
 /**
  * Extract the tool name from a tool use prompt
  */
 export function extractToolName(text: string): string | null {
   const match = text.match(/(?:Using|Allow)\s+(\w+)\s+tool/i);
-  return match ? match[1] : null;
+  if (match) return match[1];
+
+  for (const line of text.split('\n')) {
+    const trimmed = cleanScreenLine(line)?.trim() ?? '';
+    for (const [pattern, toolName] of TOOL_HEADINGS) {
+      if (pattern.test(trimmed)) return toolName;
+    }
+  }
+
+  return null;
+}
+
+const QUESTION_PATTERN = /(Do you want to [^?]*\?|Allow\s+\w+\s+tool[^?]*\??|Press\s+y\s+to\s+allow.*)/i;
+const OPTION_PATTERN = /^\s*(?:[❯>›]\s*)?(\d+)[.)]\s+(.+?)\s*$/;
+const DIFF_LINE_PATTERN = /^\s*\d*\s*[+-]\s?/;
+
+/**
+ * Build a structured permission request from a screen showing a tool prompt.
+ * Returns null if no prompt is visible.
+ */
+export function parseToolPermissionRequest(text: string): ToolPermissionRequest | null {
+  if (!detectToolUsePrompt(text)) {
+    return null;
+  }
+
+  const lines = text
+    .split('\n')
+    .map(cleanScreenLine)
+    .filter((line): line is string => line !== null);
+
+  const toolName = extractToolName(text);
+
+  // The dialog starts below its heading if we recognised one, else at the top
+  const heading = lines.findIndex(line => TOOL_HEADINGS.some(([pattern]) => pattern.test(line.trim())));
+  const start = heading === -1 ? 0 : heading + 1;
+
+  const questionIndex = lines.findIndex((line, i) => i >= start && QUESTION_PATTERN.test(line));
+  const question = questionIndex !== -1 ? lines[questionIndex].match(QUESTION_PATTERN)![1].trim() : null;
+
+  const options: ToolPermissionOption[] = [];
+  for (const line of lines.slice(questionIndex !== -1 ? questionIndex + 1 : start)) {
+    const match = line.match(OPTION_PATTERN);
+    if (match) {
+      options.push({ key: match[1], label: match[2] });
+    }
+  }
+  if (options.length === 0 && /\[y\/n\]/i.test(text)) {
+    options.push({ key: 'y', label: 'Yes' }, { key: 'n', label: 'No' });
+  }
+
+  const body = lines
+    .slice(start, questionIndex !== -1 ? questionIndex : lines.length)
+    .map(line => line.trimEnd())
+    .filter(line => line.trim() !== '');
+
+  let target: string | null = null;
+  let description: string | null = null;
+  let diffPreview: string | null = null;
+
+  const fileMatch = question?.match(/(?:edit to|create|write to|overwrite|read)\s+(.+?)\?$/i);
+
+  if (fileMatch) {
+    // Prefer the full path from the dialog over the basename in the question
+    const fileName = fileMatch[1].trim();
+    const pathLine = body.find(line => line.trim().endsWith(fileName) && !DIFF_LINE_PATTERN.test(line));
+    target = pathLine ? pathLine.trim() : fileName;
+    const diffLines = body.filter(line => DIFF_LINE_PATTERN.test(line) || /^\s*\d+\s/.test(line));
+    if (diffLines.length > 0) {
+      diffPreview = diffLines.join('\n');
+    } else if (body.length > 0) {
+      diffPreview = body.join('\n');
+    }
+  } else if (body.length > 0) {
+    target = body[0].trim();
+    description = body.slice(1).map(line => line.trim()).join(' ') || null;
+  }
+
+  return {
+    toolName,
+    target,
+    description,
+    diffPreview,
+    question,
+    options,
+    rawText: text,
+  };
+}
+
+const ALWAYS_OPTION = /don't ask again|always/i;
+
+/**
+ * Option of a permission prompt that gives the answer: numbered prompts read
+ * "1. Yes / 2. Yes, and don't ask again ... / 3. No, ...", older ones [y/n].
+ * Prompts without a "don't ask again" option have nothing for 'always'.
+ */
+export function findPermissionOption(
+  request: ToolPermissionRequest,
+  answer: Exclude<PermissionAnswer, 'cancel'>
+): ToolPermissionOption | undefined {
+  switch (answer) {
+    case 'approve':
+      return request.options.find(o => /^yes\b/i.test(o.label) && !ALWAYS_OPTION.test(o.label));
+    case 'always':
+      return request.options.find(o => ALWAYS_OPTION.test(o.label));
+    case 'deny':
+      return request.options.find(o => /^no\b/i.test(o.label));
+  }
 }
 
 /**
@@ -145,3 +348,69 @@ export function chunkText(text: string, maxLength: number = 3900): string[] {
 
   return chunks;
 }
+
+const MENU_CURSOR_PATTERN = /^(\s*)([❯›>])\s+(.*\S)\s*$/;
+const NUMBERED_OPTION_PATTERN = /^\s*(?:[❯›>]\s*)?([1-9])[.)]\s+(.+?)\s*$/;
+
+/**
+ * Detect a selection menu on screen: either a numbered list, or a list of
+ * options with a cursor marker (❯) on the highlighted one. At least two
+ * options are required so the input prompt ("> ") is not mistaken for one.
+ */
+export function parseSelectionMenu(text: string): SelectionMenu | null {
+  const lines = text
+    .split('\n')
+    .map(cleanScreenLine)
+    .filter((line): line is string => line !== null);
+
+  const cursorIndex = lines.findIndex(line => {
+    const match = line.match(MENU_CURSOR_PATTERN);
+    return match !== null && (match[2] !== '>' || NUMBERED_OPTION_PATTERN.test(line));
+  });
+  if (cursorIndex === -1) return null;
+
+  let first = cursorIndex;
+  let last = cursorIndex;
+  const options: MenuOption[] = [];
+
+  if (NUMBERED_OPTION_PATTERN.test(lines[cursorIndex])) {
+    while (first > 0 && NUMBERED_OPTION_PATTERN.test(lines[first - 1])) first--;
+    while (last < lines.length - 1 && NUMBERED_OPTION_PATTERN.test(lines[last + 1])) last++;
+
+    for (let i = first; i <= last; i++) {
+      const match = lines[i].match(NUMBERED_OPTION_PATTERN)!;
+      options.push({ index: i - first, key: match[1] as MenuDigitKey, label: match[2] });
+    }
+  } else {
+    // Unnumbered: siblings are the lines indented to the same column as the label
+    const cursorMatch = lines[cursorIndex].match(MENU_CURSOR_PATTERN)!;
+    const labelColumn = lines[cursorIndex].indexOf(cursorMatch[3]);
+    const isSibling = (line: string) =>
+      line.trim() !== '' && line.length > labelColumn &&
+      line.slice(0, labelColumn).trim() === '' && line[labelColumn] !== ' ';
+
+    while (first > 0 && isSibling(lines[first - 1])) first--;
+    while (last < lines.length - 1 && isSibling(lines[last + 1])) last++;
+
+    for (let i = first; i <= last; i++) {
+      const label = i === cursorIndex ? cursorMatch[3] : lines[i].trim();
+      options.push({ index: i - first, key: null, label });
+    }
+  }
+
+  if (options.length < 2) return null;
+
+  let title: string | null = null;
+  for (let i = first - 1; i >= 0; i--) {
+    if (lines[i].trim()) {
+      title = lines[i].trim();
+      break;
+    }
+  }
+
+  return {
+    title,
+    options,
+    selectedIndex: cursorIndex - first,
+  };
+}
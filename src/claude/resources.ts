@@ -0,0 +1,304 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import type { ResourceLimits, ResourceUsage } from './types.js';
+
+const log = logger.child({ component: 'claude-resources' });
+
+// cgroup v2 accounts CPU in microseconds per period
+const CPU_PERIOD_US = 100_000;
+
+// Kernel clock ticks per second, used by /proc/<pid>/stat times
+const CLOCK_TICKS = 100;
+
+const PAGE_SIZE = 4096;
+
+let cgroupSupport: boolean | null = null;
+
+/**
+ * Whether per-session cgroups can be created: the configured root must be a
+ * cgroup v2 directory delegated to this user, with the memory, cpu and pids
+ * controllers enabled for its children
+ */
+export function hasCgroupSupport(): boolean {
+  if (cgroupSupport !== null) {
+    return cgroupSupport;
+  }
+
+  const root = config.claude.limits.cgroupRoot;
+  try {
+    const controllers = fs.readFileSync(path.join(root, 'cgroup.subtree_control'), 'utf8').split(/\s+/);
+    const missing = ['memory', 'cpu', 'pids'].filter(c => !controllers.includes(c));
+    fs.accessSync(root, fs.constants.W_OK);
+
+    cgroupSupport = missing.length === 0;
+    if (!cgroupSupport) {
+      log.warn({ root, missing }, 'cgroup controllers not enabled, falling back to rlimits');
+    }
+  } catch (err) {
+    log.warn({ root, err: (err as Error).message }, 'cgroup v2 root not usable, falling back to rlimits');
+    cgroupSupport = false;
+  }
+
+  return cgroupSupport;
+}
+
+function readProcStat(
+  pid: number
+): { state: string; ppid: number; pgrp: number; cpuTicks: number; rssPages: number; startTime: number } | null {
+  try {
+    const stat = fs.readFileSync(`/proc/${pid}/stat`, 'utf8');
+    // The command name may contain spaces and parentheses; fields follow the last ')'
+    const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+    return {
+      state: fields[0] ?? '',
+      ppid: Number(fields[1]),
+      pgrp: Number(fields[2]),
+      cpuTicks: Number(fields[11]) + Number(fields[12]),
+      rssPages: Number(fields[21]),
+      // Ticks after boot; tells a process from a later one given the same PID
+      startTime: Number(fields[19]),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A process and all its descendants, found by walking /proc. Also includes
+ * processes still in the root's process group whose parent has exited.
+ */
+export function findProcessTree(rootPid: number): number[] {
+  const children = new Map<number, number[]>();
+  const group: number[] = [];
+
+  for (const entry of fs.readdirSync('/proc')) {
+    const pid = Number(entry);
+    if (!Number.isInteger(pid)) continue;
+
+    const stat = readProcStat(pid);
+    // Zombies are already dead, they only wait to be reaped
+    if (!stat || stat.state === 'Z') continue;
+
+    const siblings = children.get(stat.ppid) ?? [];
+    siblings.push(pid);
+    children.set(stat.ppid, siblings);
+    if (stat.pgrp === rootPid) group.push(pid);
+  }
+
+  const tree = new Set<number>();
+  const pending = [rootPid, ...group];
+  while (pending.length > 0) {
+    const pid = pending.pop()!;
+    if (tree.has(pid)) continue;
+    tree.add(pid);
+    pending.push(...(children.get(pid) ?? []));
+  }
+
+  return [...tree].filter(pid => {
+    const state = readProcStat(pid)?.state;
+    return state !== undefined && state !== 'Z';
+  });
+}
+
+function signalAll(pids: number[], signal: NodeJS.Signals): void {
+  for (const pid of pids) {
+    try {
+      process.kill(pid, signal);
+    } catch {
+      // Already gone
+    }
+  }
+}
+
+/**
+ * Applies a session's resource limits to its Claude process and everything
+ * it starts, reports their usage, and kills the whole tree on termination.
+ * Uses a cgroup v2 child of `LIMITS_CGROUP_ROOT` when available; otherwise
+ * falls back to rlimits set with prlimit(1), which cannot limit CPU share.
+ */
+export class ResourceGuard {
+  readonly enforcement: ResourceUsage['enforcement'];
+  private readonly cgroupPath: string | null = null;
+  private rootPid: number | null = null;
+  private rootStartTime: number | null = null;
+
+  constructor(
+    private readonly sessionId: string,
+    private readonly limits: ResourceLimits
+  ) {
+    const limited = Boolean(limits.memoryMb || limits.cpuPercent || limits.maxProcesses);
+
+    if (!limited) {
+      this.enforcement = 'none';
+    } else if (hasCgroupSupport()) {
+      this.enforcement = 'cgroup';
+      this.cgroupPath = path.join(config.claude.limits.cgroupRoot, `session-${sessionId}`);
+    } else {
+      this.enforcement = 'rlimit';
+      if (limits.cpuPercent) {
+        log.warn({ sessionId }, 'CPU share cannot be limited without cgroups');
+      }
+    }
+  }
+
+  /**
+   * Command line that starts `command` under the limits. With cgroups the
+   * process is moved into its cgroup after it starts, so nothing changes.
+   */
+  wrapCommand(command: string, args: string[]): { command: string; args: string[] } {
+    if (this.enforcement !== 'rlimit') {
+      return { command, args };
+    }
+
+    const rlimits: string[] = [];
+    if (this.limits.memoryMb) {
+      // RLIMIT_DATA rather than RLIMIT_AS: V8 reserves far more address space than it uses.
+      // Like every rlimit it applies to each process separately.
+      rlimits.push(`--data=${this.limits.memoryMb * 1024 * 1024}`);
+    }
+    if (this.limits.maxProcesses) {
+      // RLIMIT_NPROC counts every process of the user, not just this session
+      rlimits.push(`--nproc=${this.limits.maxProcesses}`);
+    }
+
+    if (rlimits.length === 0) {
+      return { command, args };
+    }
+
+    // prlimit sets the limits on itself and then execs the command
+    return { command: 'prlimit', args: [...rlimits, '--', command, ...args] };
+  }
+
+  /**
+   * Put the freshly spawned process under the limits
+   */
+  attach(pid: number): void {
+    this.rootPid = pid;
+    this.rootStartTime = readProcStat(pid)?.startTime ?? null;
+    if (!this.cgroupPath) return;
+
+    try {
+      fs.mkdirSync(this.cgroupPath, { recursive: true });
+      if (this.limits.memoryMb) {
+        fs.writeFileSync(path.join(this.cgroupPath, 'memory.max'), String(this.limits.memoryMb * 1024 * 1024));
+        // Without swap the memory limit cannot be side-stepped
+        this.tryWrite('memory.swap.max', '0');
+      }
+      if (this.limits.cpuPercent) {
+        const quota = Math.round((this.limits.cpuPercent / 100) * CPU_PERIOD_US);
+        fs.writeFileSync(path.join(this.cgroupPath, 'cpu.max'), `${quota} ${CPU_PERIOD_US}`);
+      }
+      if (this.limits.maxProcesses) {
+        fs.writeFileSync(path.join(this.cgroupPath, 'pids.max'), String(this.limits.maxProcesses));
+      }
+      fs.writeFileSync(path.join(this.cgroupPath, 'cgroup.procs'), String(pid));
+      log.debug({ sessionId: this.sessionId, pid, cgroup: this.cgroupPath }, 'Attached process to cgroup');
+    } catch (err) {
+      log.error({ err, sessionId: this.sessionId, cgroup: this.cgroupPath }, 'Failed to apply cgroup limits');
+    }
+  }
+
+  /**
+   * Current usage of the whole process tree
+   */
+  usage(): ResourceUsage {
+    if (this.cgroupPath && fs.existsSync(this.cgroupPath)) {
+      const read = (file: string) => this.tryRead(file) ?? '';
+      const usageUsec = read('cpu.stat').match(/^usage_usec (\d+)/m)?.[1];
+      return {
+        enforcement: this.enforcement,
+        memoryBytes: Number(read('memory.current')) || 0,
+        cpuSeconds: usageUsec ? Number(usageUsec) / 1_000_000 : 0,
+        processes: Number(read('pids.current')) || 0,
+      };
+    }
+
+    const pids = this.processTree();
+    let rssPages = 0;
+    let cpuTicks = 0;
+    for (const pid of pids) {
+      const stat = readProcStat(pid);
+      if (!stat) continue;
+      rssPages += stat.rssPages;
+      cpuTicks += stat.cpuTicks;
+    }
+
+    return {
+      enforcement: this.enforcement,
+      memoryBytes: rssPages * PAGE_SIZE,
+      // Only counts live processes; CPU time of finished children is lost
+      cpuSeconds: cpuTicks / CLOCK_TICKS,
+      processes: pids.length,
+    };
+  }
+
+  /**
+   * Kill every process the session started, including ones that outlived
+   * or detached from the Claude process
+   */
+  killAll(): void {
+    if (this.cgroupPath && fs.existsSync(this.cgroupPath)) {
+      // cgroup.kill (Linux 5.14+) kills everything in the cgroup atomically
+      if (!this.tryWrite('cgroup.kill', '1')) {
+        const pids = (this.tryRead('cgroup.procs') ?? '').split('\n').filter(Boolean).map(Number);
+        signalAll(pids, 'SIGKILL');
+      }
+      return;
+    }
+
+    signalAll(this.processTree(), 'SIGKILL');
+  }
+
+  /**
+   * The root process and what it started. Once the root has exited its PID
+   * may be given to an unrelated process; then there is nothing left to find,
+   * as the kernel does not reuse a PID while its process group has members.
+   */
+  private processTree(): number[] {
+    if (!this.rootPid) return [];
+
+    const root = readProcStat(this.rootPid);
+    if (root && root.startTime !== this.rootStartTime) {
+      return [];
+    }
+    return findProcessTree(this.rootPid);
+  }
+
+  /**
+   * Remove the session's cgroup once its processes are gone
+   */
+  release(retries = 5): void {
+    if (!this.cgroupPath) return;
+
+    try {
+      fs.rmdirSync(this.cgroupPath);
+    } catch (err) {
+      const code = (err as NodeJS.ErrnoException).code;
+      // Killed processes take a moment to leave the cgroup
+      if (code === 'EBUSY' && retries > 0) {
+        setTimeout(() => this.release(retries - 1), 200);
+      } else if (code !== 'ENOENT') {
+        log.warn({ err, cgroup: this.cgroupPath }, 'Failed to remove session cgroup');
+      }
+    }
+  }
+
+  private tryRead(file: string): string | null {
+    try {
+      return fs.readFileSync(path.join(this.cgroupPath!, file), 'utf8').trim();
+    } catch {
+      return null;
+    }
+  }
+
+  private tryWrite(file: string, value: string): boolean {
+    try {
+      fs.writeFileSync(path.join(this.cgroupPath!, file), value);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
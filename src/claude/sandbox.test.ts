@@ -0,0 +1,83 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { wrapInSandbox } from './sandbox.js';
+
+describe('wrapInSandbox', () => {
+  let base: string;
+  let configDir: string;
+  let projectPath: string;
+
+  // Source and destination of every bind mount, by destination
+  const binds = (args: string[]) => {
+    const mounts = new Map<string, { flag: string; source: string }>();
+    args.forEach((arg, i) => {
+      if (['--bind', '--ro-bind', '--ro-bind-try'].includes(arg)) {
+        mounts.set(args[i + 2]!, { flag: arg, source: args[i + 1]! });
+      }
+    });
+    return mounts;
+  };
+
+  beforeEach(() => {
+    base = fs.mkdtempSync(path.join(os.tmpdir(), 'claudewire-sandbox-'));
+    configDir = path.join(base, 'claude-config');
+    projectPath = path.join(base, 'projects', 'U123', 'web');
+    fs.mkdirSync(configDir);
+    fs.mkdirSync(projectPath, { recursive: true });
+    fs.writeFileSync(path.join(configDir, '.claude.json'), JSON.stringify({
+      userID: 'abc',
+      hasCompletedOnboarding: true,
+      mcpServers: { db: { command: 'db-mcp', env: { DB_PASSWORD: 'secret' } } },
+      projects: {
+        [projectPath]: { allowedTools: ['Read'] },
+        [path.join(base, 'projects', 'U456', 'api')]: { history: ['their prompt'] },
+      },
+    }));
+    vi.stubEnv('CLAUDE_CONFIG_DIR', configDir);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(base, { recursive: true, force: true });
+  });
+
+  const launch = async () => {
+    const { args } = await wrapInSandbox('sh', [], { projectPath, sandbox: { network: true } });
+    return args;
+  };
+
+  it('gives the sandbox a writable state file with only its own project in it', async () => {
+    const mount = binds(await launch()).get(path.join(configDir, '.claude.json'));
+
+    expect(mount?.flag).toBe('--bind');
+    expect(JSON.parse(fs.readFileSync(mount!.source, 'utf8'))).toEqual({
+      userID: 'abc',
+      hasCompletedOnboarding: true,
+      projects: { [projectPath]: { allowedTools: ['Read'] } },
+    });
+    expect(fs.statSync(mount!.source).mode & 0o777).toBe(0o600);
+  });
+
+  it('starts from an empty state file when the host has none', async () => {
+    fs.rmSync(path.join(configDir, '.claude.json'));
+    const mount = binds(await launch()).get(path.join(configDir, '.claude.json'));
+
+    expect(JSON.parse(fs.readFileSync(mount!.source, 'utf8'))).toEqual({ projects: {} });
+  });
+
+  it('shows only settings and this project\'s transcripts from the config directory', async () => {
+    const args = await launch();
+    const mounts = binds(args);
+
+    expect(args.join(' ')).toContain(`--tmpfs ${configDir}`);
+    expect(mounts.has(configDir)).toBe(false);
+    expect(mounts.get(path.join(configDir, 'settings.json'))?.flag).toBe('--ro-bind-try');
+    expect(mounts.has(path.join(configDir, 'history.jsonl'))).toBe(false);
+    expect(mounts.has(path.join(configDir, 'claudewire'))).toBe(false);
+
+    const transcripts = [...mounts.keys()].filter(dest => dest.startsWith(path.join(configDir, 'projects')));
+    expect(transcripts).toEqual([path.join(configDir, 'projects', projectPath.replace(/[^a-zA-Z0-9]/g, '-'))]);
+  });
+});
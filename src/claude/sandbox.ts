@@ -0,0 +1,256 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { ClaudeSpawnError } from '../utils/errors.js';
+import { ensureEgressProxy } from './egress-proxy.js';
+import { projectKey } from './env.js';
+import type { SandboxOptions } from './types.js';
+
+const log = logger.child({ component: 'claude-sandbox' });
+
+// System directories the CLI and the tools it runs need, mounted read-only
+const SYSTEM_PATHS = ['/usr', '/bin', '/sbin', '/lib', '/lib32', '/lib64', '/opt'];
+
+// The parts of /etc needed for users, DNS, TLS and timezones; the rest stays hidden
+const ETC_PATHS = [
+  '/etc/passwd',
+  '/etc/group',
+  '/etc/nsswitch.conf',
+  '/etc/hosts',
+  '/etc/resolv.conf',
+  '/etc/localtime',
+  '/etc/ssl',
+  '/etc/ca-certificates',
+  '/etc/pki',
+  '/etc/alternatives',
+  '/etc/gitconfig',
+];
+
+// Where the egress proxy socket appears inside the sandbox
+const SANDBOX_EGRESS_DIR = '/run/claudewire';
+
+/**
+ * Runs inside a sandbox without network: forwards a loopback port to the
+ * egress proxy socket and starts the CLI with that port as its HTTPS proxy.
+ * bwrap's --new-session detaches the jail from the terminal, so the terminal
+ * never signals it; Ctrl-C reaches the CLI as input it reads in raw mode.
+ * The bridge ignores SIGINT and passes SIGTERM and SIGHUP on to the CLI.
+ */
+const EGRESS_BRIDGE = `
+const net = require('net');
+const { spawn } = require('child_process');
+const [socketPath, command, ...args] = process.argv.slice(1);
+const server = net.createServer((client) => {
+  const upstream = net.connect(socketPath);
+  client.pipe(upstream);
+  upstream.pipe(client);
+  client.on('error', () => upstream.destroy());
+  upstream.on('error', () => client.destroy());
+});
+server.listen(0, '127.0.0.1', () => {
+  const url = 'http://127.0.0.1:' + server.address().port;
+  const child = spawn(command, args, {
+    stdio: 'inherit',
+    env: { ...process.env, HTTPS_PROXY: url, HTTP_PROXY: url, https_proxy: url, http_proxy: url },
+  });
+  child.on('exit', (code, signal) => process.exit(code ?? (signal ? 1 : 0)));
+  process.on('SIGINT', () => {});
+  for (const signal of ['SIGTERM', 'SIGHUP']) process.on(signal, () => child.kill(signal));
+});
+`;
+
+let claudeInstall: { executable: string; dir: string } | null = null;
+
+/**
+ * Resolve the real CLI executable, so the sandbox can mount just its
+ * installation directory and run it without relying on PATH
+ */
+function findClaudeInstall(): { executable: string; dir: string } {
+  if (claudeInstall) {
+    return claudeInstall;
+  }
+
+  const found = execFileSync('which', ['claude'], { encoding: 'utf8' }).trim();
+  const executable = fs.realpathSync(found);
+  claudeInstall = { executable, dir: path.dirname(executable) };
+  return claudeInstall;
+}
+
+/**
+ * Claude Code keeps each project's transcripts in a directory named after
+ * the project path with every non-alphanumeric character replaced by `-`
+ */
+function transcriptDir(claudeConfigDir: string, projectPath: string): string {
+  return path.join(claudeConfigDir, 'projects', projectPath.replace(/[^a-zA-Z0-9]/g, '-'));
+}
+
+// What a sandbox sees of Claude's configuration directory, read-only: the
+// operator's settings and credentials, not what other sessions left there
+const CLAUDE_CONFIG_ENTRIES = [
+  'settings.json',
+  '.credentials.json',
+  'CLAUDE.md',
+  'agents',
+  'commands',
+  'output-styles',
+  'plugins',
+];
+
+/**
+ * Fresh copy of the CLI's state file for a project's sandbox. The CLI
+ * rewrites that file on startup and after each turn, so it must be writable,
+ * but the copy keeps what a session writes away from the host's own file.
+ * Only this project's entry is copied; other projects' entries and the
+ * host's MCP servers, with the variables they are given, are left out.
+ */
+function sandboxStateFile(claudeConfigDir: string, hostStateFile: string, projectPath: string): string {
+  const dir = path.join(claudeConfigDir, 'claudewire', 'sandbox-state');
+  fs.mkdirSync(dir, { mode: 0o700, recursive: true });
+
+  let host: Record<string, unknown> = {};
+  try {
+    host = JSON.parse(fs.readFileSync(hostStateFile, 'utf8')) as Record<string, unknown>;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      log.warn({ err, file: hostStateFile }, 'Could not read Claude state file, starting the sandbox without it');
+    }
+  }
+
+  const { projects, mcpServers: _mcpServers, ...settings } = host;
+  const project = (projects as Record<string, unknown> | undefined)?.[projectPath];
+  const state = { ...settings, projects: project ? { [projectPath]: project } : {} };
+
+  const file = path.join(dir, `${path.basename(transcriptDir(claudeConfigDir, projectPath))}.json`);
+  fs.writeFileSync(file, JSON.stringify(state, null, 2), { mode: 0o600 });
+  fs.chmodSync(file, 0o600);
+  return file;
+}
+
+/**
+ * Sandbox settings for a project, or undefined when sandboxing is off
+ */
+export function sandboxOptionsFor(projectPath: string): SandboxOptions | undefined {
+  const sandbox = config.claude.sandbox;
+  if (!sandbox.enabled) return undefined;
+
+  const key = projectKey(projectPath);
+  const network = (key && sandbox.networkOverrides[key]) || sandbox.network;
+  return { network: network === 'on' };
+}
+
+/**
+ * Command line that runs the CLI in a bubblewrap jail. Only the project
+ * directory (plus any additional directories) is writable; the CLI, its
+ * settings and the system directories are read-only, except for a private
+ * copy of its state file, and the rest of the host filesystem is not
+ * visible. Without network, the sandbox gets its
+ * own network namespace and reaches the Claude API through the egress proxy.
+ */
+export async function wrapInSandbox(
+  command: string,
+  args: string[],
+  opts: { projectPath: string; addDirs?: string[]; sandbox: SandboxOptions }
+): Promise<{ command: string; args: string[] }> {
+  const home = os.homedir();
+  const claudeConfigDir = process.env.CLAUDE_CONFIG_DIR ?? path.join(home, '.claude');
+  const claudeStateFile = process.env.CLAUDE_CONFIG_DIR
+    ? path.join(claudeConfigDir, '.claude.json')
+    : path.join(home, '.claude.json');
+  const transcripts = transcriptDir(claudeConfigDir, opts.projectPath);
+  fs.mkdirSync(transcripts, { recursive: true });
+  const stateFile = sandboxStateFile(claudeConfigDir, claudeStateFile, opts.projectPath);
+
+  let executable = command;
+  const bwrap: string[] = [
+    '--die-with-parent',
+    '--new-session',
+    '--unshare-all',
+    ...(opts.sandbox.network ? ['--share-net'] : []),
+    '--proc', '/proc',
+    '--dev', '/dev',
+    '--tmpfs', '/tmp',
+  ];
+
+  for (const dir of SYSTEM_PATHS) {
+    bwrap.push('--ro-bind-try', dir, dir);
+  }
+  for (const file of ETC_PATHS) {
+    bwrap.push('--ro-bind-try', file, file);
+  }
+
+  // An empty home with only Claude's settings in it, read-only. History,
+  // todos and other sessions' state stay hidden; what the CLI writes there
+  // is thrown away, except its own project's transcripts, so it can be
+  // resumed, and its own copy of the state file.
+  bwrap.push('--tmpfs', home, '--tmpfs', claudeConfigDir);
+  for (const entry of CLAUDE_CONFIG_ENTRIES) {
+    const entryPath = path.join(claudeConfigDir, entry);
+    bwrap.push('--ro-bind-try', entryPath, entryPath);
+  }
+  bwrap.push(
+    '--bind', stateFile, claudeStateFile,
+    '--bind', transcripts, transcripts,
+  );
+
+  if (command === 'claude') {
+    const install = findClaudeInstall();
+    executable = install.executable;
+    bwrap.push('--ro-bind', install.dir, install.dir);
+  }
+
+  // Scripts like the npm-installed CLI need the node binary ClaudeWire runs on
+  const nodeDir = path.dirname(process.execPath);
+  bwrap.push('--ro-bind-try', nodeDir, nodeDir);
+
+  for (const dir of config.claude.sandbox.readOnlyPaths) {
+    bwrap.push('--ro-bind-try', dir, dir);
+  }
+
+  bwrap.push('--bind', opts.projectPath, opts.projectPath);
+  for (const dir of opts.addDirs ?? []) {
+    bwrap.push('--bind', dir, dir);
+  }
+
+  bwrap.push(
+    '--setenv', 'HOME', home,
+    '--setenv', 'PATH', `${nodeDir}:/usr/local/bin:/usr/bin:/bin`,
+    '--chdir', opts.projectPath,
+  );
+
+  if (opts.sandbox.network) {
+    return { command: config.claude.sandbox.bwrapPath, args: [...bwrap, '--', executable, ...args] };
+  }
+
+  const egressSocket = await ensureEgressProxy();
+  bwrap.push('--bind', path.dirname(egressSocket), SANDBOX_EGRESS_DIR);
+  const sandboxSocket = path.join(SANDBOX_EGRESS_DIR, path.basename(egressSocket));
+
+  return {
+    command: config.claude.sandbox.bwrapPath,
+    args: [...bwrap, '--', process.execPath, '-e', EGRESS_BRIDGE, sandboxSocket, executable, ...args],
+  };
+}
+
+/**
+ * Fail at startup, rather than on the first session, when sandboxing is on
+ * but bubblewrap cannot create namespaces here
+ */
+export function assertSandboxAvailable(): void {
+  if (!config.claude.sandbox.enabled) return;
+
+  try {
+    execFileSync(config.claude.sandbox.bwrapPath, ['--unshare-all', '--ro-bind', '/', '/', 'true'], {
+      stdio: 'ignore',
+      timeout: 10_000,
+    });
+    log.info('Sandbox mode enabled');
+  } catch (err) {
+    throw new ClaudeSpawnError(
+      `sandbox mode is enabled but bubblewrap (${config.claude.sandbox.bwrapPath}) cannot create namespaces`,
+      err as Error
+    );
+  }
+}
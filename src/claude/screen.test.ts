@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { TerminalScreen } from './screen.js';
+
+describe('TerminalScreen', () => {
+  it('tracks what the terminal displays', () => {
+    const screen = new TerminalScreen(20, 5);
+    screen.write('hello\r\nworld\x1b[1;1HJ');
+
+    expect(screen.getSnapshot()).toMatchObject({
+      lines: ['Jello', 'world'],
+      cursorRow: 0,
+      cursorCol: 1,
+    });
+  });
+
+  describe('takeCommittedLines', () => {
+    it('hands out lines that scrolled off the screen', () => {
+      const screen = new TerminalScreen(20, 2);
+      screen.write('one\r\ntwo\r\nthree');
+
+      expect(screen.takeCommittedLines(false)).toEqual(['one']);
+      expect(screen.takeCommittedLines(false)).toEqual([]);
+    });
+
+    it('hands out rows above the cursor only with includeScreen', () => {
+      const screen = new TerminalScreen(20, 5);
+      screen.write('hello\r\nworld\r\n> ');
+
+      expect(screen.takeCommittedLines(false)).toEqual([]);
+      expect(screen.takeCommittedLines(true)).toEqual(['hello', 'world']);
+      expect(screen.takeCommittedLines(true)).toEqual([]);
+    });
+
+    it('does not repeat rows when a clear screen redraws the same text', () => {
+      const screen = new TerminalScreen(20, 5);
+      screen.write('hello\r\nworld\r\n');
+      screen.takeCommittedLines(true);
+
+      screen.write('\x1b[2J\x1b[Hhello\r\nworld\r\n');
+      expect(screen.takeCommittedLines(true)).toEqual([]);
+    });
+
+    it('hands out only the rows a redraw changed', () => {
+      const screen = new TerminalScreen(20, 5);
+      screen.write('hello\r\nworld\r\n');
+      screen.takeCommittedLines(true);
+
+      screen.write('\x1b[2K\x1b[1A\x1b[2K\x1b[1A\x1b[2K\rhello\r\nthere\r\n');
+      expect(screen.takeCommittedLines(true)).toEqual(['there']);
+    });
+
+    it('ignores the alternate screen', () => {
+      const screen = new TerminalScreen(20, 5);
+      screen.write('\x1b[?1049hfull screen app\r\n');
+      expect(screen.takeCommittedLines(true)).toEqual([]);
+
+      screen.write('\x1b[?1049lback\r\n');
+      expect(screen.takeCommittedLines(true)).toEqual(['back']);
+    });
+  });
+});
@@ -0,0 +1,538 @@
+/**
+ * Minimal headless VT100/xterm screen model.
+ *
+ * Tracks what a real terminal of the configured size would display, so the
+ * wrapper can read the actual screen instead of diffing raw PTY bytes. Only
+ * the subset of sequences the Claude Code TUI uses is interpreted; anything
+ * else is consumed and ignored.
+ */
+
+interface ScreenRow {
+  cells: string[];
+  // Text of the row when it was last handed out as committed output
+  emittedText: string | null;
+}
+
+type ParserState = 'ground' | 'escape' | 'escapeIntermediate' | 'csi' | 'osc' | 'string';
+
+export interface ScreenSnapshot {
+  lines: string[];
+  cursorRow: number;
+  cursorCol: number;
+  cols: number;
+  rows: number;
+}
+
+const MAX_SCROLLBACK = 5000;
+
+export class TerminalScreen {
+  private cols: number;
+  private rows: number;
+
+  private primary: ScreenRow[];
+  private alternate: ScreenRow[] | null = null;
+  private scrollback: ScreenRow[] = [];
+  // Index into scrollback of the first row not yet handed out
+  private committedIndex = 0;
+
+  private cursorRow = 0;
+  private cursorCol = 0;
+  private savedCursor: { row: number; col: number } | null = null;
+  private scrollTop = 0;
+  private scrollBottom: number;
+  // Set after writing the last column; the next printable wraps first
+  private wrapPending = false;
+
+  private state: ParserState = 'ground';
+  private params = '';
+  private stringEscape = false;
+
+  constructor(cols: number, rows: number) {
+    this.cols = cols;
+    this.rows = rows;
+    this.scrollBottom = rows - 1;
+    this.primary = this.blankRows(rows);
+  }
+
+  private get screen(): ScreenRow[] {
+    return this.alternate ?? this.primary;
+  }
+
+  private blankRow(): ScreenRow {
+    return { cells: new Array<string>(this.cols).fill(' '), emittedText: null };
+  }
+
+  private blankRows(count: number): ScreenRow[] {
+    return Array.from({ length: count }, () => this.blankRow());
+  }
+
+  private rowText(row: ScreenRow): string {
+    return row.cells.join('').trimEnd();
+  }
+
+  write(data: string): void {
+    for (const ch of data) {
+      this.consume(ch);
+    }
+  }
+
+  private consume(ch: string): void {
+    switch (this.state) {
+      case 'ground':
+        this.handleGround(ch);
+        break;
+
+      case 'escape':
+        this.handleEscape(ch);
+        break;
+
+      case 'escapeIntermediate':
+        // Charset designation and similar: one final byte, then done
+        this.state = 'ground';
+        break;
+
+      case 'csi':
+        if (ch >= '@' && ch <= '~') {
+          this.handleCsi(this.params, ch);
+          this.state = 'ground';
+        } else {
+          this.params += ch;
+        }
+        break;
+
+      case 'osc':
+      case 'string':
+        if (ch === '\x07') {
+          this.state = 'ground';
+        } else if (this.stringEscape && ch === '\\') {
+          this.state = 'ground';
+        }
+        this.stringEscape = ch === '\x1b';
+        break;
+    }
+  }
+
+  private handleGround(ch: string): void {
+    switch (ch) {
+      case '\x1b':
+        this.state = 'escape';
+        return;
+      case '\r':
+        this.cursorCol = 0;
+        this.wrapPending = false;
+        return;
+      case '\n':
+      case '\x0b':
+      case '\x0c':
+        this.lineFeed();
+        return;
+      case '\b':
+        if (this.cursorCol > 0) this.cursorCol--;
+        this.wrapPending = false;
+        return;
+      case '\t':
+        this.cursorCol = Math.min(this.cols - 1, (Math.floor(this.cursorCol / 8) + 1) * 8);
+        return;
+      case '\x07':
+      case '\0':
+        return;
+    }
+
+    if (ch < ' ' || ch === '\x7f') {
+      return;
+    }
+
+    this.print(ch);
+  }
+
+  private handleEscape(ch: string): void {
+    this.state = 'ground';
+
+    switch (ch) {
+      case '[':
+        this.state = 'csi';
+        this.params = '';
+        return;
+      case ']':
+        this.state = 'osc';
+        this.stringEscape = false;
+        return;
+      case 'P':
+      case 'X':
+      case '^':
+      case '_':
+        this.state = 'string';
+        this.stringEscape = false;
+        return;
+      case '(':
+      case ')':
+      case '*':
+      case '+':
+      case '#':
+      case '%':
+        this.state = 'escapeIntermediate';
+        return;
+      case '7':
+        this.savedCursor = { row: this.cursorRow, col: this.cursorCol };
+        return;
+      case '8':
+        this.restoreCursor();
+        return;
+      case 'D':
+        this.lineFeed();
+        return;
+      case 'E':
+        this.cursorCol = 0;
+        this.lineFeed();
+        return;
+      case 'M':
+        this.reverseIndex();
+        return;
+      case 'c':
+        this.reset();
+        return;
+    }
+  }
+
+  private handleCsi(rawParams: string, final: string): void {
+    const isPrivate = rawParams.startsWith('?');
+    const params = (isPrivate ? rawParams.slice(1) : rawParams)
+      .replace(/[^0-9;]/g, '')
+      .split(';')
+      .map(p => (p === '' ? 0 : parseInt(p, 10)));
+    const n = (index: number, fallback = 1) => params[index] || fallback;
+
+    this.wrapPending = false;
+
+    if (isPrivate) {
+      if (final === 'h' || final === 'l') {
+        for (const mode of params) {
+          if (mode === 1049 || mode === 1047 || mode === 47) {
+            this.setAlternateScreen(final === 'h');
+          }
+        }
+      }
+      return;
+    }
+
+    switch (final) {
+      case 'A':
+        this.cursorRow = Math.max(0, this.cursorRow - n(0));
+        break;
+      case 'B':
+      case 'e':
+        this.cursorRow = Math.min(this.rows - 1, this.cursorRow + n(0));
+        break;
+      case 'C':
+      case 'a':
+        this.cursorCol = Math.min(this.cols - 1, this.cursorCol + n(0));
+        break;
+      case 'D':
+        this.cursorCol = Math.max(0, this.cursorCol - n(0));
+        break;
+      case 'E':
+        this.cursorRow = Math.min(this.rows - 1, this.cursorRow + n(0));
+        this.cursorCol = 0;
+        break;
+      case 'F':
+        this.cursorRow = Math.max(0, this.cursorRow - n(0));
+        this.cursorCol = 0;
+        break;
+      case 'G':
+      case '`':
+        this.cursorCol = this.clampCol(n(0) - 1);
+        break;
+      case 'd':
+        this.cursorRow = this.clampRow(n(0) - 1);
+        break;
+      case 'H':
+      case 'f':
+        this.cursorRow = this.clampRow(n(0) - 1);
+        this.cursorCol = this.clampCol(n(1) - 1);
+        break;
+      case 'J':
+        this.eraseInDisplay(params[0] ?? 0);
+        break;
+      case 'K':
+        this.eraseInLine(params[0] ?? 0);
+        break;
+      case 'L':
+        this.insertLines(n(0));
+        break;
+      case 'M':
+        this.deleteLines(n(0));
+        break;
+      case '@':
+        this.insertChars(n(0));
+        break;
+      case 'P':
+        this.deleteChars(n(0));
+        break;
+      case 'X':
+        this.eraseChars(n(0));
+        break;
+      case 'S':
+        for (let i = 0; i < n(0); i++) this.scrollUp();
+        break;
+      case 'T':
+        for (let i = 0; i < n(0); i++) this.scrollDown();
+        break;
+      case 'r':
+        this.scrollTop = this.clampRow(n(0) - 1);
+        this.scrollBottom = this.clampRow(n(1, this.rows) - 1);
+        if (this.scrollTop >= this.scrollBottom) {
+          this.scrollTop = 0;
+          this.scrollBottom = this.rows - 1;
+        }
+        this.cursorRow = 0;
+        this.cursorCol = 0;
+        break;
+      case 's':
+        this.savedCursor = { row: this.cursorRow, col: this.cursorCol };
+        break;
+      case 'u':
+        this.restoreCursor();
+        break;
+      // SGR and anything else does not affect the text layout
+    }
+  }
+
+  private clampRow(row: number): number {
+    return Math.max(0, Math.min(this.rows - 1, row));
+  }
+
+  private clampCol(col: number): number {
+    return Math.max(0, Math.min(this.cols - 1, col));
+  }
+
+  private print(ch: string): void {
+    if (this.wrapPending) {
+      this.cursorCol = 0;
+      this.lineFeed();
+    }
+
+    this.screen[this.cursorRow].cells[this.cursorCol] = ch;
+
+    if (this.cursorCol === this.cols - 1) {
+      this.wrapPending = true;
+    } else {
+      this.cursorCol++;
+    }
+  }
+
+  private lineFeed(): void {
+    this.wrapPending = false;
+    if (this.cursorRow === this.scrollBottom) {
+      this.scrollUp();
+    } else if (this.cursorRow < this.rows - 1) {
+      this.cursorRow++;
+    }
+  }
+
+  private reverseIndex(): void {
+    if (this.cursorRow === this.scrollTop) {
+      this.scrollDown();
+    } else if (this.cursorRow > 0) {
+      this.cursorRow--;
+    }
+  }
+
+  private scrollUp(): void {
+    const screen = this.screen;
+    const [removed] = screen.splice(this.scrollTop, 1);
+    screen.splice(this.scrollBottom, 0, this.blankRow());
+
+    // Only full-screen scrolls on the primary buffer feed the scrollback
+    if (!this.alternate && this.scrollTop === 0) {
+      this.scrollback.push(removed);
+      if (this.scrollback.length > MAX_SCROLLBACK) {
+        const excess = this.scrollback.length - MAX_SCROLLBACK;
+        this.scrollback.splice(0, excess);
+        this.committedIndex = Math.max(0, this.committedIndex - excess);
+      }
+    }
+  }
+
+  private scrollDown(): void {
+    const screen = this.screen;
+    screen.splice(this.scrollBottom, 1);
+    screen.splice(this.scrollTop, 0, this.blankRow());
+  }
+
+  // Rows are blanked in place, keeping what was handed out from them, so a
+  // clear followed by a redraw of the same text does not repeat it
+  private eraseInDisplay(mode: number): void {
+    const screen = this.screen;
+    if (mode === 0) {
+      this.eraseInLine(0);
+      for (let r = this.cursorRow + 1; r < this.rows; r++) screen[r].cells.fill(' ');
+    } else if (mode === 1) {
+      this.eraseInLine(1);
+      for (let r = 0; r < this.cursorRow; r++) screen[r].cells.fill(' ');
+    } else if (mode === 2) {
+      for (let r = 0; r < this.rows; r++) screen[r].cells.fill(' ');
+    } else if (mode === 3) {
+      this.scrollback = [];
+      this.committedIndex = 0;
+    }
+  }
+
+  private eraseInLine(mode: number): void {
+    const cells = this.screen[this.cursorRow].cells;
+    const [start, end] =
+      mode === 0 ? [this.cursorCol, this.cols] :
+      mode === 1 ? [0, this.cursorCol + 1] :
+      [0, this.cols];
+    cells.fill(' ', start, end);
+  }
+
+  private insertLines(count: number): void {
+    if (this.cursorRow < this.scrollTop || this.cursorRow > this.scrollBottom) return;
+    const screen = this.screen;
+    for (let i = 0; i < count; i++) {
+      screen.splice(this.scrollBottom, 1);
+      screen.splice(this.cursorRow, 0, this.blankRow());
+    }
+  }
+
+  private deleteLines(count: number): void {
+    if (this.cursorRow < this.scrollTop || this.cursorRow > this.scrollBottom) return;
+    const screen = this.screen;
+    for (let i = 0; i < count; i++) {
+      screen.splice(this.cursorRow, 1);
+      screen.splice(this.scrollBottom, 0, this.blankRow());
+    }
+  }
+
+  private insertChars(count: number): void {
+    const cells = this.screen[this.cursorRow].cells;
+    cells.splice(this.cursorCol, 0, ...new Array<string>(count).fill(' '));
+    cells.length = this.cols;
+  }
+
+  private deleteChars(count: number): void {
+    const cells = this.screen[this.cursorRow].cells;
+    cells.splice(this.cursorCol, count);
+    while (cells.length < this.cols) cells.push(' ');
+  }
+
+  private eraseChars(count: number): void {
+    const cells = this.screen[this.cursorRow].cells;
+    cells.fill(' ', this.cursorCol, Math.min(this.cols, this.cursorCol + count));
+  }
+
+  private restoreCursor(): void {
+    if (this.savedCursor) {
+      this.cursorRow = this.clampRow(this.savedCursor.row);
+      this.cursorCol = this.clampCol(this.savedCursor.col);
+    }
+    this.wrapPending = false;
+  }
+
+  private setAlternateScreen(enabled: boolean): void {
+    if (enabled && !this.alternate) {
+      this.savedCursor = { row: this.cursorRow, col: this.cursorCol };
+      this.alternate = this.blankRows(this.rows);
+      this.cursorRow = 0;
+      this.cursorCol = 0;
+    } else if (!enabled && this.alternate) {
+      this.alternate = null;
+      this.restoreCursor();
+    }
+  }
+
+  private reset(): void {
+    this.primary = this.blankRows(this.rows);
+    this.alternate = null;
+    this.cursorRow = 0;
+    this.cursorCol = 0;
+    this.scrollTop = 0;
+    this.scrollBottom = this.rows - 1;
+    this.wrapPending = false;
+  }
+
+  resize(cols: number, rows: number): void {
+    const resizeRow = (row: ScreenRow) => {
+      row.cells.length = Math.min(row.cells.length, cols);
+      while (row.cells.length < cols) row.cells.push(' ');
+    };
+
+    for (const buffer of [this.primary, this.alternate]) {
+      if (!buffer) continue;
+      buffer.forEach(resizeRow);
+      while (buffer.length > rows) {
+        const removed = buffer.shift()!;
+        if (buffer === this.primary) this.scrollback.push(removed);
+      }
+    }
+
+    this.cols = cols;
+    this.rows = rows;
+
+    for (const buffer of [this.primary, this.alternate]) {
+      if (!buffer) continue;
+      while (buffer.length < rows) buffer.push(this.blankRow());
+    }
+
+    this.scrollTop = 0;
+    this.scrollBottom = rows - 1;
+    this.cursorRow = this.clampRow(this.cursorRow);
+    this.cursorCol = this.clampCol(this.cursorCol);
+    this.wrapPending = false;
+  }
+
+  /**
+   * Current visible screen, trailing blank lines removed
+   */
+  getSnapshot(): ScreenSnapshot {
+    const lines = this.screen.map(row => this.rowText(row));
+    while (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+
+    return {
+      lines,
+      cursorRow: this.cursorRow,
+      cursorCol: this.cursorCol,
+      cols: this.cols,
+      rows: this.rows,
+    };
+  }
+
+  getText(): string {
+    return this.getSnapshot().lines.join('\n');
+  }
+
+  /**
+   * Lines that are final and have not been handed out yet.
+   *
+   * Lines that scrolled into the scrollback are always final. With
+   * `includeScreen`, rows above the cursor are treated as final too, which is
+   * how short replies that never scroll off get delivered once output goes
+   * quiet. A row is only handed out again if its text changed since.
+   */
+  takeCommittedLines(includeScreen: boolean): string[] {
+    const lines: string[] = [];
+
+    const take = (row: ScreenRow) => {
+      const text = this.rowText(row);
+      if (text !== row.emittedText) {
+        row.emittedText = text;
+        lines.push(text);
+      }
+    };
+
+    for (let i = this.committedIndex; i < this.scrollback.length; i++) {
+      take(this.scrollback[i]);
+    }
+    this.committedIndex = this.scrollback.length;
+
+    if (includeScreen && !this.alternate) {
+      for (let r = 0; r < this.cursorRow; r++) {
+        take(this.primary[r]);
+      }
+    }
+
+    return lines;
+  }
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { encodeInterrupt, encodeUserMessage, formatToolUse, parseStreamLine } from './stream-parser.js';
+
+const line = (message: unknown) => JSON.stringify(message);
+
+describe('parseStreamLine', () => {
+  it('reads the conversation ID from the init message', () => {
+    expect(parseStreamLine(line({ type: 'system', subtype: 'init', session_id: 'abc' }))).toEqual([
+      { type: 'init', claudeSessionId: 'abc' },
+    ]);
+  });
+
+  it('ignores other system messages', () => {
+    expect(parseStreamLine(line({ type: 'system', subtype: 'compact', session_id: 'abc' }))).toEqual([]);
+  });
+
+  it('splits an assistant message into text, tool calls and usage', () => {
+    const events = parseStreamLine(line({
+      type: 'assistant',
+      message: {
+        content: [
+          { type: 'text', text: 'Running the tests' },
+          { type: 'text', text: '   ' },
+          { type: 'tool_use', id: 'tool-1', name: 'Bash', input: { command: 'npm test' } },
+        ],
+        usage: { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 3 },
+      },
+    }));
+
+    expect(events).toEqual([
+      { type: 'assistantText', text: 'Running the tests' },
+      { type: 'toolUse', toolUse: { id: 'tool-1', name: 'Bash', input: { command: 'npm test' } } },
+      {
+        type: 'usage',
+        usage: { inputTokens: 10, outputTokens: 5, cacheReadInputTokens: 3, cacheCreationInputTokens: undefined },
+      },
+    ]);
+  });
+
+  it('flattens tool results given as content blocks', () => {
+    const events = parseStreamLine(line({
+      type: 'user',
+      message: {
+        content: [
+          {
+            type: 'tool_result',
+            tool_use_id: 'tool-1',
+            is_error: true,
+            content: [{ type: 'text', text: 'line one' }, { type: 'image' }, { type: 'text', text: 'line two' }],
+          },
+          { type: 'text', text: 'not a tool result' },
+        ],
+      },
+    }));
+
+    expect(events).toEqual([
+      { type: 'toolResult', toolResult: { toolUseId: 'tool-1', content: 'line one\nline two', isError: true } },
+    ]);
+  });
+
+  it('reads the outcome of a turn from the result message', () => {
+    const [event] = parseStreamLine(line({
+      type: 'result',
+      subtype: 'success',
+      is_error: false,
+      result: 'Done',
+      duration_ms: 1200,
+      num_turns: 2,
+      total_cost_usd: 0.01,
+      session_id: 'abc',
+    }));
+
+    expect(event).toEqual({
+      type: 'result',
+      result: {
+        subtype: 'success',
+        isError: false,
+        result: 'Done',
+        durationMs: 1200,
+        numTurns: 2,
+        totalCostUsd: 0.01,
+        usage: undefined,
+        claudeSessionId: 'abc',
+      },
+    });
+  });
+
+  it('ignores blank, malformed and unknown lines', () => {
+    expect(parseStreamLine('')).toEqual([]);
+    expect(parseStreamLine('{"type": "assistant"')).toEqual([]);
+    expect(parseStreamLine('[1, 2]')).toEqual([]);
+    expect(parseStreamLine(line({ type: 'stream_event' }))).toEqual([]);
+  });
+});
+
+describe('encoding input', () => {
+  it('encodes a prompt as one user message line', () => {
+    const encoded = encodeUserMessage('hello\nworld');
+    expect(encoded.endsWith('\n')).toBe(true);
+    expect(JSON.parse(encoded)).toEqual({
+      type: 'user',
+      message: { role: 'user', content: [{ type: 'text', text: 'hello\nworld' }] },
+    });
+  });
+
+  it('encodes an interrupt as a control request', () => {
+    expect(JSON.parse(encodeInterrupt('req-1'))).toEqual({
+      type: 'control_request',
+      request_id: 'req-1',
+      request: { subtype: 'interrupt' },
+    });
+  });
+});
+
+describe('formatToolUse', () => {
+  it('shows the first line of the command or path', () => {
+    expect(formatToolUse({ id: '1', name: 'Bash', input: { command: 'npm test\nnpm run lint' } }))
+      .toBe(':wrench: *Bash* `npm test`');
+    expect(formatToolUse({ id: '2', name: 'Edit', input: { file_path: 'src/index.ts' } }))
+      .toBe(':wrench: *Edit* `src/index.ts`');
+  });
+
+  it('falls back to the tool name', () => {
+    expect(formatToolUse({ id: '1', name: 'TodoWrite', input: { todos: [] } })).toBe(':wrench: *TodoWrite*');
+  });
+});
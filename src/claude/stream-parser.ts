@@ -0,0 +1,185 @@
+import type {
+  ClaudeResult,
+  ClaudeToolResult,
+  ClaudeToolUse,
+  ClaudeUsage,
+} from './types.js';
+
+/**
+ * A single typed event decoded from the CLI's `--output-format stream-json` output
+ */
+export type ClaudeStreamEvent =
+  | { type: 'init'; claudeSessionId: string }
+  | { type: 'assistantText'; text: string }
+  | { type: 'toolUse'; toolUse: ClaudeToolUse }
+  | { type: 'toolResult'; toolResult: ClaudeToolResult }
+  | { type: 'usage'; usage: ClaudeUsage }
+  | { type: 'result'; result: ClaudeResult };
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseUsage(raw: unknown): ClaudeUsage | null {
+  if (!isObject(raw)) return null;
+
+  return {
+    inputTokens: Number(raw.input_tokens ?? 0),
+    outputTokens: Number(raw.output_tokens ?? 0),
+    cacheReadInputTokens: raw.cache_read_input_tokens !== undefined
+      ? Number(raw.cache_read_input_tokens)
+      : undefined,
+    cacheCreationInputTokens: raw.cache_creation_input_tokens !== undefined
+      ? Number(raw.cache_creation_input_tokens)
+      : undefined,
+  };
+}
+
+/**
+ * Flatten tool_result content, which is either a string or a list of blocks
+ */
+function toolResultText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+
+  return content
+    .map(block => (isObject(block) && block.type === 'text' ? String(block.text ?? '') : ''))
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Decode one line of stream-json output into zero or more typed events.
+ * Unknown message types and malformed lines are ignored.
+ */
+export function parseStreamLine(line: string): ClaudeStreamEvent[] {
+  const trimmed = line.trim();
+  if (!trimmed) return [];
+
+  let message: unknown;
+  try {
+    message = JSON.parse(trimmed);
+  } catch {
+    return [];
+  }
+
+  if (!isObject(message)) return [];
+
+  const events: ClaudeStreamEvent[] = [];
+
+  switch (message.type) {
+    case 'system':
+      if (message.subtype === 'init' && typeof message.session_id === 'string') {
+        events.push({ type: 'init', claudeSessionId: message.session_id });
+      }
+      break;
+
+    case 'assistant': {
+      const inner = isObject(message.message) ? message.message : {};
+      const content = Array.isArray(inner.content) ? inner.content : [];
+
+      for (const block of content) {
+        if (!isObject(block)) continue;
+
+        if (block.type === 'text' && typeof block.text === 'string' && block.text.trim()) {
+          events.push({ type: 'assistantText', text: block.text });
+        } else if (block.type === 'tool_use') {
+          events.push({
+            type: 'toolUse',
+            toolUse: {
+              id: String(block.id ?? ''),
+              name: String(block.name ?? 'unknown'),
+              input: isObject(block.input) ? block.input : {},
+            },
+          });
+        }
+      }
+
+      const usage = parseUsage(inner.usage);
+      if (usage) {
+        events.push({ type: 'usage', usage });
+      }
+      break;
+    }
+
+    case 'user': {
+      // Tool results come back to the model as user messages
+      const inner = isObject(message.message) ? message.message : {};
+      const content = Array.isArray(inner.content) ? inner.content : [];
+
+      for (const block of content) {
+        if (!isObject(block) || block.type !== 'tool_result') continue;
+
+        events.push({
+          type: 'toolResult',
+          toolResult: {
+            toolUseId: String(block.tool_use_id ?? ''),
+            content: toolResultText(block.content),
+            isError: block.is_error === true,
+          },
+        });
+      }
+      break;
+    }
+
+    case 'result':
+      events.push({
+        type: 'result',
+        result: {
+          subtype: String(message.subtype ?? 'success'),
+          isError: message.is_error === true,
+          result: typeof message.result === 'string' ? message.result : undefined,
+          durationMs: typeof message.duration_ms === 'number' ? message.duration_ms : undefined,
+          numTurns: typeof message.num_turns === 'number' ? message.num_turns : undefined,
+          totalCostUsd: typeof message.total_cost_usd === 'number' ? message.total_cost_usd : undefined,
+          usage: parseUsage(message.usage) ?? undefined,
+          claudeSessionId: typeof message.session_id === 'string' ? message.session_id : undefined,
+        },
+      });
+      break;
+  }
+
+  return events;
+}
+
+/**
+ * Encode a user prompt as a stream-json input line
+ */
+export function encodeUserMessage(text: string): string {
+  return JSON.stringify({
+    type: 'user',
+    message: {
+      role: 'user',
+      content: [{ type: 'text', text }],
+    },
+  }) + '\n';
+}
+
+/**
+ * One-line summary of a tool call for display in Slack
+ */
+export function formatToolUse(toolUse: ClaudeToolUse): string {
+  const input = toolUse.input;
+  const target =
+    input.command ?? input.file_path ?? input.path ?? input.pattern ?? input.url ?? input.description;
+
+  if (typeof target === 'string' && target) {
+    const firstLine = target.split('\n')[0];
+    return `:wrench: *${toolUse.name}* \`${firstLine.slice(0, 200)}\``;
+  }
+
+  return `:wrench: *${toolUse.name}*`;
+}
+
+/**
+ * Encode an interrupt control request, the structured equivalent of Ctrl+C
+ */
+export function encodeInterrupt(requestId: string): string {
+  return JSON.stringify({
+    type: 'control_request',
+    request_id: requestId,
+    request: { subtype: 'interrupt' },
+  }) + '\n';
+}
@@ -0,0 +1,311 @@
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+import { EventEmitter } from 'events';
+import { createInterface } from 'readline';
+import { nanoid } from 'nanoid';
+import { encodeInterrupt, encodeUserMessage, parseStreamLine } from './stream-parser.js';
+import { buildClaudeArgs } from './args.js';
+import { buildClaudeEnv } from './env.js';
+import { ResourceGuard } from './resources.js';
+import { wrapInSandbox } from './sandbox.js';
+import { logger } from '../utils/logger.js';
+import { ClaudeSpawnError } from '../utils/errors.js';
+import type {
+  ClaudeBackendProcess,
+  ClaudeControlKey,
+  ClaudeProcessConfig,
+  ClaudeProcessStatus,
+  ClaudeWrapperEvents,
+  PermissionAnswer,
+  ResourceUsage,
+  SandboxOptions,
+} from './types.js';
+
+const log = logger.child({ component: 'claude-stream-wrapper' });
+
+/**
+ * Drives the Claude Code CLI in its structured stream-json mode over plain
+ * pipes, instead of scraping an interactive terminal.
+ */
+export class ClaudeStreamWrapper extends EventEmitter<ClaudeWrapperEvents> implements ClaudeBackendProcess {
+  private child: ChildProcessWithoutNullStreams | null = null;
+  private status: ClaudeProcessStatus = 'starting';
+  private claudeSessionId: string | null = null;
+  private turnStartedAt: number | null = null;
+  private turnOutputChars = 0;
+
+  readonly sessionId: string;
+  readonly projectPath: string;
+  readonly backend = 'stream-json' as const;
+  private readonly baseArgs: string[];
+  private readonly resources: ResourceGuard;
+  private readonly sandbox?: SandboxOptions;
+  private readonly addDirs?: string[];
+
+  constructor(config: ClaudeProcessConfig) {
+    super();
+    this.sessionId = config.sessionId;
+    this.projectPath = config.projectPath;
+    this.baseArgs = buildClaudeArgs(config);
+    this.resources = new ResourceGuard(config.sessionId, config.limits ?? {});
+    this.sandbox = config.sandbox;
+    this.addDirs = config.settings?.addDirs;
+  }
+
+  getStatus(): ClaudeProcessStatus {
+    return this.status;
+  }
+
+  getClaudeSessionId(): string | null {
+    return this.claudeSessionId;
+  }
+
+  getScreen(): string | null {
+    return null;
+  }
+
+  getResourceUsage(): ResourceUsage | null {
+    return this.child ? this.resources.usage() : null;
+  }
+
+  isAlive(): boolean {
+    return this.child !== null && this.status !== 'terminated';
+  }
+
+  async spawn(): Promise<void> {
+    if (this.child) {
+      throw new ClaudeSpawnError('Process already spawned');
+    }
+
+    log.info({ sessionId: this.sessionId, projectPath: this.projectPath }, 'Spawning Claude Code (stream-json)');
+
+    const claudeArgs = [
+      '--print',
+      '--input-format', 'stream-json',
+      '--output-format', 'stream-json',
+      '--verbose',
+      ...this.baseArgs,
+    ];
+    const launch = this.sandbox
+      ? await wrapInSandbox('claude', claudeArgs, {
+        projectPath: this.projectPath,
+        addDirs: this.addDirs,
+        sandbox: this.sandbox,
+      })
+      : { command: 'claude', args: claudeArgs };
+    const { command, args } = this.resources.wrapCommand(launch.command, launch.args);
+
+    try {
+      this.child = spawn(command, args, {
+        cwd: this.projectPath,
+        env: buildClaudeEnv(this.projectPath, {
+          CLAUDE_CODE_ENTRY_POINT: 'claudewire',
+          PAGER: '',
+          GIT_PAGER: '',
+        }),
+        stdio: ['pipe', 'pipe', 'pipe'],
+        // Own process group, so the whole tree can be found and killed
+        detached: true,
+      });
+    } catch (err) {
+      this.status = 'terminated';
+      throw new ClaudeSpawnError((err as Error).message, err as Error);
+    }
+
+    // Surface ENOENT and friends as a spawn failure rather than an exit
+    await new Promise<void>((resolve, reject) => {
+      const child = this.child!;
+      const onError = (err: Error) => {
+        this.status = 'terminated';
+        this.child = null;
+        reject(new ClaudeSpawnError(err.message, err));
+      };
+      child.once('error', onError);
+      child.once('spawn', () => {
+        child.off('error', onError);
+        if (child.pid) this.resources.attach(child.pid);
+        resolve();
+      });
+    });
+
+    const child = this.child!;
+
+    createInterface({ input: child.stdout }).on('line', (line) => {
+      this.emit('rawOutput', line + '\n');
+      this.handleLine(line);
+    });
+
+    createInterface({ input: child.stderr }).on('line', (line) => {
+      if (line.trim()) {
+        log.warn({ sessionId: this.sessionId, line }, 'Claude Code stderr');
+      }
+    });
+
+    child.on('error', (err) => {
+      log.error({ err, sessionId: this.sessionId }, 'Claude Code process error');
+      this.emit('error', err);
+    });
+
+    // Writes racing the CLI's exit fail with EPIPE; the exit itself is reported separately
+    child.stdin.on('error', (err) => {
+      log.warn({ err, sessionId: this.sessionId }, 'Failed to write to Claude Code');
+    });
+
+    child.on('exit', (code, signal) => {
+      this.handleExit(code ?? (signal ? 1 : 0));
+    });
+
+    // In stream-json mode the CLI waits on stdin, so it is ready as soon as it runs
+    this.status = 'ready';
+    this.emit('ready');
+    log.info({ sessionId: this.sessionId }, 'Claude Code ready');
+  }
+
+  private handleLine(line: string): void {
+    for (const event of parseStreamLine(line)) {
+      switch (event.type) {
+        case 'init':
+          this.setClaudeSessionId(event.claudeSessionId);
+          break;
+
+        case 'assistantText':
+          this.turnOutputChars += event.text.length;
+          this.emit('assistantText', event.text);
+          this.emit('output', event.text);
+          break;
+
+        case 'toolUse':
+          this.emit('toolUse', event.toolUse);
+          break;
+
+        case 'toolResult':
+          this.emit('toolResult', event.toolResult);
+          break;
+
+        case 'usage':
+          this.emit('usage', event.usage);
+          break;
+
+        case 'result':
+          if (event.result.claudeSessionId) {
+            this.setClaudeSessionId(event.result.claudeSessionId);
+          }
+          this.emit('result', event.result);
+          this.completeTurn(event.result.durationMs, event.result.totalCostUsd);
+          break;
+      }
+    }
+  }
+
+  private setClaudeSessionId(claudeSessionId: string): void {
+    if (claudeSessionId === this.claudeSessionId) return;
+
+    this.claudeSessionId = claudeSessionId;
+    this.emit('conversationId', claudeSessionId);
+  }
+
+  private completeTurn(durationMs?: number, totalCostUsd?: number): void {
+    if (this.status !== 'busy') return;
+
+    const summary = {
+      durationMs: durationMs ?? Date.now() - (this.turnStartedAt ?? Date.now()),
+      outputChars: this.turnOutputChars,
+      totalCostUsd,
+    };
+
+    this.status = 'ready';
+    this.turnStartedAt = null;
+    this.turnOutputChars = 0;
+
+    this.emit('turnComplete', summary);
+  }
+
+  private handleExit(exitCode: number): void {
+    log.info({ sessionId: this.sessionId, exitCode }, 'Claude Code exited');
+
+    this.status = 'terminated';
+    this.child = null;
+
+    // Take down anything the session left running, such as dev servers
+    this.resources.killAll();
+    this.resources.release();
+
+    this.emit('exit', exitCode);
+  }
+
+  sendInput(text: string): void {
+    if (!this.child || this.status === 'terminated') {
+      log.warn({ sessionId: this.sessionId }, 'Attempted to send input to dead process');
+      return;
+    }
+
+    log.debug({ sessionId: this.sessionId, inputLength: text.length }, 'Sending input');
+    if (this.status !== 'busy') {
+      this.turnStartedAt = Date.now();
+      this.turnOutputChars = 0;
+    }
+    this.status = 'busy';
+    this.child.stdin.write(encodeUserMessage(text));
+  }
+
+  sendControl(key: ClaudeControlKey): void {
+    if (!this.child || this.status === 'terminated') {
+      return;
+    }
+
+    log.debug({ sessionId: this.sessionId, key }, 'Sending control key');
+
+    switch (key) {
+      case 'escape':
+      case 'ctrl-c':
+        this.child.stdin.write(encodeInterrupt(nanoid()));
+        break;
+      default:
+        // Permissions are decided up front by CLI flags, and there are no menus
+        log.debug({ sessionId: this.sessionId, key }, 'Ignoring key in stream-json mode');
+        break;
+    }
+  }
+
+  answerPrompt(_answer: PermissionAnswer, _promptId: string): boolean {
+    return false;
+  }
+
+  selectMenuOption(_index: number): boolean {
+    return false;
+  }
+
+  async terminate(): Promise<void> {
+    if (!this.child) {
+      return;
+    }
+
+    log.info({ sessionId: this.sessionId }, 'Terminating Claude Code');
+
+    const child = this.child;
+
+    // Closing stdin ends the conversation and lets the CLI exit cleanly
+    child.stdin.end();
+
+    await new Promise<void>((resolve) => {
+      const forceKillTimeout = setTimeout(() => {
+        if (this.child) {
+          this.child.kill('SIGKILL');
+          this.child = null;
+        }
+        this.resources.killAll();
+        this.status = 'terminated';
+        resolve();
+      }, 1000);
+
+      this.once('exit', () => {
+        clearTimeout(forceKillTimeout);
+        resolve();
+      });
+    });
+  }
+
+  // The CLI's pipes end with this process, so it cannot be left running
+  detach(): boolean {
+    return false;
+  }
+}
@@ -0,0 +1,187 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { ClaudeSpawnError } from '../utils/errors.js';
+
+const log = logger.child({ component: 'claude-tmux' });
+
+const SESSION_PREFIX = 'claudewire-';
+
+// Reads the env file named by $0, deletes it and its directory, then runs the command
+const ENV_LAUNCHER = 'set -a; . "$0"; set +a; rm -f -- "$0"; rmdir -- "${0%/*}"; exec "$@"';
+
+/**
+ * Environment of the tmux clients ClaudeWire runs. The first one starts the
+ * tmux server, whose environment every pane inherits, so it must not carry
+ * ClaudeWire's credentials; Claude's own variables come from an env file
+ * (see startTmuxSession).
+ */
+function clientEnv(): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = { PATH: process.env.PATH ?? '/usr/bin:/bin', TERM: 'xterm-256color' };
+  if (process.env.TMUX_TMPDIR) env.TMUX_TMPDIR = process.env.TMUX_TMPDIR;
+  return env;
+}
+
+// Ignore any user tmux.conf: key bindings or a status bar would change what Claude sees
+function baseArgs(): string[] {
+  return ['-L', config.claude.detach.socketName, '-f', '/dev/null'];
+}
+
+function tmux(args: string[]): string {
+  return execFileSync(config.claude.detach.tmuxPath, [...baseArgs(), ...args], {
+    encoding: 'utf8',
+    env: clientEnv(),
+    stdio: ['ignore', 'pipe', 'pipe'],
+    timeout: 10_000,
+  }).trim();
+}
+
+export function tmuxSessionName(sessionId: string): string {
+  return `${SESSION_PREFIX}${sessionId}`;
+}
+
+// `=` makes tmux match the name exactly instead of as a prefix
+function sessionTarget(sessionId: string): string {
+  return `=${tmuxSessionName(sessionId)}`;
+}
+
+function paneTarget(sessionId: string): string {
+  return `=${tmuxSessionName(sessionId)}:`;
+}
+
+/**
+ * Write the environment to a file only this user can read, as shell
+ * assignments the pane sources. Passing it on tmux's command line instead
+ * would show secrets such as API keys to anyone who can list processes.
+ */
+function writeEnvFile(env: NodeJS.ProcessEnv): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'claudewire-env-'));
+  const file = path.join(dir, 'env');
+  const lines = Object.entries(env)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined && /^[A-Za-z_][A-Za-z0-9_]*$/.test(entry[0]))
+    .map(([key, value]) => `${key}='${value.replace(/'/g, `'\\''`)}'`);
+  fs.writeFileSync(file, lines.join('\n') + '\n', { mode: 0o600 });
+  return file;
+}
+
+/**
+ * Start the command in a new detached tmux session. The pane is kept after
+ * the command exits so its exit status can be read, and the attached client
+ * is detached at that moment so the wrapper notices. The pane loads its
+ * environment from a private file and execs the command, so the pane process
+ * is still the command itself.
+ */
+export function startTmuxSession(
+  sessionId: string,
+  command: string,
+  args: string[],
+  opts: { cwd: string; cols: number; rows: number; env: NodeJS.ProcessEnv }
+): void {
+  const name = tmuxSessionName(sessionId);
+  const envFile = writeEnvFile(opts.env);
+
+  try {
+    tmux([
+      'new-session', '-d', '-s', name,
+      '-x', String(opts.cols), '-y', String(opts.rows),
+      '-c', opts.cwd,
+      '--', '/bin/sh', '-c', ENV_LAUNCHER, envFile, command, ...args,
+      ';', 'set-option', '-w', '-t', paneTarget(sessionId), 'remain-on-exit', 'on',
+      ';', 'set-option', '-t', paneTarget(sessionId), 'status', 'off',
+      ';', 'set-option', '-t', paneTarget(sessionId), 'prefix', 'None',
+      ';', 'set-option', '-s', 'escape-time', '0',
+      ';', 'set-hook', '-t', paneTarget(sessionId), 'pane-died', `detach-client -s ${sessionTarget(sessionId)}`,
+    ]);
+  } catch (err) {
+    fs.rmSync(path.dirname(envFile), { recursive: true, force: true });
+    throw err;
+  }
+
+  log.debug({ sessionId, name }, 'Started tmux session');
+}
+
+/**
+ * Command line of a client attached to the session, to run in a pty
+ */
+export function tmuxAttachCommand(sessionId: string): { command: string; args: string[]; env: NodeJS.ProcessEnv } {
+  return {
+    command: config.claude.detach.tmuxPath,
+    // -u: the pty is UTF-8 whatever the locale says
+    args: ['-u', ...baseArgs(), 'attach-session', '-t', sessionTarget(sessionId)],
+    env: clientEnv(),
+  };
+}
+
+export function tmuxSessionExists(sessionId: string): boolean {
+  try {
+    tmux(['has-session', '-t', sessionTarget(sessionId)]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * PID of the process running in the session's pane
+ */
+export function tmuxPanePid(sessionId: string): number {
+  return Number(tmux(['display-message', '-p', '-t', paneTarget(sessionId), '#{pane_pid}']));
+}
+
+/**
+ * Exit status of the pane's command, or null while it is still running or
+ * when the session is gone
+ */
+export function tmuxPaneExitStatus(sessionId: string): number | null {
+  try {
+    const [dead, status] = tmux(['display-message', '-p', '-t', paneTarget(sessionId), '#{pane_dead} #{pane_dead_status}']).split(' ');
+    return dead === '1' ? Number(status || 1) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function killTmuxSession(sessionId: string): void {
+  try {
+    tmux(['kill-session', '-t', sessionTarget(sessionId)]);
+    log.debug({ sessionId }, 'Killed tmux session');
+  } catch {
+    // Already gone
+  }
+}
+
+/**
+ * IDs of the ClaudeWire sessions that have a tmux session
+ */
+export function listTmuxSessions(): string[] {
+  try {
+    return tmux(['list-sessions', '-F', '#{session_name}'])
+      .split('\n')
+      .filter(name => name.startsWith(SESSION_PREFIX))
+      .map(name => name.slice(SESSION_PREFIX.length));
+  } catch {
+    // No tmux server running means no sessions
+    return [];
+  }
+}
+
+/**
+ * Fail at startup, rather than on the first session, when detachable
+ * sessions are on but tmux cannot be run
+ */
+export function assertTmuxAvailable(): void {
+  if (!config.claude.detach.enabled) return;
+
+  try {
+    const version = execFileSync(config.claude.detach.tmuxPath, ['-V'], { encoding: 'utf8', timeout: 10_000 }).trim();
+    log.info({ version }, 'Detachable sessions enabled');
+  } catch (err) {
+    throw new ClaudeSpawnError(
+      `detachable sessions are enabled but tmux (${config.claude.detach.tmuxPath}) cannot be run`,
+      err as Error
+    );
+  }
+}
@@ -1,10 +1,98 @@
+import type { EventEmitter } from 'events';
 import type { IPty } from 'node-pty';
 
+/**
+ * How a session drives the Claude Code CLI: an interactive PTY that is
+ * screen-scraped, or the CLI's structured JSON streaming mode.
+ */
+export type ClaudeBackend = 'pty' | 'stream-json';
+
+export type MenuDigitKey = '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9';
+
+export type ClaudeControlKey =
+  | 'y'
+  | 'n'
+  | 'escape'
+  | 'ctrl-c'
+  | 'up'
+  | 'down'
+  | 'left'
+  | 'right'
+  | 'enter'
+  | 'tab'
+  | MenuDigitKey;
+
+// Answers to a tool permission prompt; 'always' picks its "don't ask again"
+// option when it offers one, and 'cancel' dismisses it
+export type PermissionAnswer = 'approve' | 'deny' | 'always' | 'cancel';
+
+/**
+ * Which Claude conversation a process starts in. New conversations get an ID
+ * chosen up front so it is known without parsing CLI output.
+ */
+export type ClaudeConversation =
+  | { mode: 'new'; claudeSessionId: string }
+  | { mode: 'resume'; claudeSessionId: string }
+  | { mode: 'continue' };
+
+export const CLAUDE_PERMISSION_MODES = ['default', 'plan', 'acceptEdits'] as const;
+
+export type ClaudePermissionMode = typeof CLAUDE_PERMISSION_MODES[number];
+
+/**
+ * Per-session CLI options. Unset fields fall back to the CLI's own defaults.
+ */
+export interface ClaudeSessionSettings {
+  model?: string;
+  permissionMode?: ClaudePermissionMode;
+  // Tool rules in CLI syntax, e.g. `Read` or `Bash(git:*)`
+  allowedTools?: string[];
+  disallowedTools?: string[];
+  appendSystemPrompt?: string;
+  // Absolute paths the CLI may access besides the project directory
+  addDirs?: string[];
+}
+
+/**
+ * Kernel-enforced limits for a Claude process and everything it starts.
+ * Unset or 0 means unlimited.
+ */
+export interface ResourceLimits {
+  memoryMb?: number;
+  // 100 = one full core
+  cpuPercent?: number;
+  maxProcesses?: number;
+}
+
+export interface ResourceUsage {
+  // How the limits are enforced: a per-session cgroup, per-process rlimits, or not at all
+  enforcement: 'cgroup' | 'rlimit' | 'none';
+  memoryBytes: number;
+  cpuSeconds: number;
+  processes: number;
+}
+
+export interface SandboxOptions {
+  // Off: only the Claude API is reachable, through ClaudeWire's egress proxy
+  network: boolean;
+}
+
 export interface ClaudeProcessConfig {
   sessionId: string;
   projectPath: string;
   cols?: number;
   rows?: number;
+  // How long to wait for the input prompt before giving up
+  startupTimeoutMs?: number;
+  conversation?: ClaudeConversation;
+  settings?: ClaudeSessionSettings;
+  limits?: ResourceLimits;
+  // Run inside a bubblewrap jail; unset runs directly on the host
+  sandbox?: SandboxOptions;
+  // Run inside tmux so the CLI outlives ClaudeWire (pty backend only)
+  detachable?: boolean;
+  // Attach to the CLI a previous ClaudeWire process left running instead of starting one
+  reattach?: boolean;
 }
 
 export interface ClaudeProcessEvents {
@@ -24,7 +112,139 @@ export interface ClaudeProcess {
   status: ClaudeProcessStatus;
 
   sendInput(text: string): void;
-  sendControl(key: 'y' | 'n' | 'escape' | 'ctrl-c'): void;
+  sendControl(key: ClaudeControlKey): void;
   terminate(): Promise<void>;
   isAlive(): boolean;
 }
+
+export interface ClaudeUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadInputTokens?: number;
+  cacheCreationInputTokens?: number;
+}
+
+export interface ClaudeToolUse {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface ClaudeToolResult {
+  toolUseId: string;
+  content: string;
+  isError: boolean;
+}
+
+export interface ClaudeResult {
+  subtype: string;
+  isError: boolean;
+  result?: string;
+  durationMs?: number;
+  numTurns?: number;
+  totalCostUsd?: number;
+  usage?: ClaudeUsage;
+  claudeSessionId?: string;
+}
+
+export interface ToolPermissionOption {
+  // What the CLI expects to select this option, e.g. "1" or "y"
+  key: string;
+  label: string;
+}
+
+export interface MenuOption {
+  // Zero-based position in the menu
+  index: number;
+  // Digit that selects the option directly, for numbered menus
+  key: MenuDigitKey | null;
+  label: string;
+}
+
+/**
+ * A selection menu shown by the TUI (permission choices, model picker, ...)
+ */
+export interface SelectionMenu {
+  title: string | null;
+  options: MenuOption[];
+  // Option the TUI cursor is currently on
+  selectedIndex: number;
+}
+
+/**
+ * A tool permission prompt read off the terminal, broken into the parts a
+ * reviewer needs to decide on it
+ */
+export interface ToolPermissionRequest {
+  toolName: string | null;
+  // Command to run, or file path / URL the tool targets
+  target: string | null;
+  description: string | null;
+  diffPreview: string | null;
+  question: string | null;
+  options: ToolPermissionOption[];
+  rawText: string;
+}
+
+/**
+ * Summary of one prompt/response turn, from input sent to Claude going quiet
+ */
+export interface TurnSummary {
+  durationMs: number;
+  // Characters of cleaned output emitted during the turn
+  outputChars: number;
+  totalCostUsd?: number;
+}
+
+/**
+ * Events shared by every backend. The PTY backend only produces the untyped
+ * ones (output, rawOutput, toolUsePrompt); the structured backend also emits
+ * assistantText, toolUse, toolResult, usage and result.
+ */
+export interface ClaudeWrapperEvents {
+  output: [text: string];
+  rawOutput: [data: string];
+  // `promptId` names this prompt when answering it
+  toolUsePrompt: [request: ToolPermissionRequest, promptId: string];
+  assistantText: [text: string];
+  toolUse: [toolUse: ClaudeToolUse];
+  toolResult: [toolResult: ClaudeToolResult];
+  usage: [usage: ClaudeUsage];
+  result: [result: ClaudeResult];
+  menu: [menu: SelectionMenu];
+  turnComplete: [summary: TurnSummary];
+  // The conversation the CLI is in exists and can be resumed: reported by the
+  // CLI, or for the PTY backend, a new conversation's first turn completed
+  conversationId: [claudeSessionId: string];
+  exit: [code: number];
+  error: [error: Error];
+  ready: [];
+}
+
+/**
+ * Common surface of the PTY and stream-json wrappers, so the session layer
+ * does not care which one it is talking to.
+ */
+export interface ClaudeBackendProcess extends EventEmitter<ClaudeWrapperEvents> {
+  readonly sessionId: string;
+  readonly projectPath: string;
+  readonly backend: ClaudeBackend;
+
+  getStatus(): ClaudeProcessStatus;
+  isAlive(): boolean;
+  spawn(): Promise<void>;
+  // Current terminal screen, or null for backends without one
+  getScreen(): string | null;
+  sendInput(text: string): void;
+  sendControl(key: ClaudeControlKey): void;
+  // Answer the permission prompt `promptId`; false if it is no longer on screen
+  answerPrompt(answer: PermissionAnswer, promptId: string): boolean;
+  // Pick an option of the visible menu; false if there is none or it is out of range
+  selectMenuOption(index: number): boolean;
+  // Usage of the process tree, or null before the process has started
+  getResourceUsage(): ResourceUsage | null;
+  // Stops the CLI and kills every process it started
+  terminate(): Promise<void>;
+  // Let go of the CLI but leave it running, for a later reattach; false if the backend cannot
+  detach(): boolean;
+}
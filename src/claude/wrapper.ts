@@ -1,32 +1,122 @@
 import * as pty from 'node-pty';
 import { EventEmitter } from 'events';
-import { cleanTerminalOutput, detectToolUsePrompt } from './parser.js';
+import { nanoid } from 'nanoid';
+import {
+  cleanScreenLine,
+  cleanTerminalOutput,
+  detectInputPrompt,
+  detectStartupBlocker,
+  detectTurnInProgress,
+  findPermissionOption,
+  parseSelectionMenu,
+  parseToolPermissionRequest,
+} from './parser.js';
+import { TerminalScreen } from './screen.js';
+import { buildClaudeArgs } from './args.js';
+import { buildClaudeEnv } from './env.js';
+import { ResourceGuard } from './resources.js';
+import { wrapInSandbox } from './sandbox.js';
+import { ensureEgressProxy } from './egress-proxy.js';
+import {
+  killTmuxSession,
+  startTmuxSession,
+  tmuxAttachCommand,
+  tmuxPaneExitStatus,
+  tmuxPanePid,
+  tmuxSessionExists,
+} from './tmux.js';
+import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
 import { ClaudeSpawnError } from '../utils/errors.js';
-import type { ClaudeProcessConfig, ClaudeProcessStatus } from './types.js';
+import type { StartupBlocker } from './parser.js';
+import type {
+  ClaudeBackendProcess,
+  ClaudeControlKey,
+  ClaudeProcessConfig,
+  ClaudeProcessStatus,
+  ClaudeWrapperEvents,
+  PermissionAnswer,
+  ResourceUsage,
+  SandboxOptions,
+  SelectionMenu,
+  ToolPermissionRequest,
+} from './types.js';
+
+export type { ClaudeWrapperEvents } from './types.js';
 
 const log = logger.child({ component: 'claude-wrapper' });
 
-export interface ClaudeWrapperEvents {
-  output: [text: string];
-  rawOutput: [data: string];
-  toolUsePrompt: [text: string];
-  exit: [code: number];
-  error: [error: Error];
-  ready: [];
-}
-
-export class ClaudeCodeWrapper extends EventEmitter<ClaudeWrapperEvents> {
+const STARTUP_BLOCKER_MESSAGES: Record<StartupBlocker, string> = {
+  trust_dialog: 'Claude Code is asking whether to trust this folder',
+  login_required: 'Claude Code is not logged in',
+  update_required: 'Claude Code needs to be updated',
+};
+
+// How long the screen must stay quiet and spinner-free before a turn counts as done
+const TURN_SETTLE_MS = 1500;
+
+// Bracketed paste markers: the TUI treats everything between them as typed
+// text, so newlines do not submit the prompt early
+const PASTE_START = '\x1b[200~';
+const PASTE_END = '\x1b[201~';
+
+const KEY_SEQUENCES: Record<ClaudeControlKey, string | null> = {
+  y: 'y',
+  n: 'n',
+  escape: '\x1b',
+  'ctrl-c': '\x03',
+  up: '\x1b[A',
+  down: '\x1b[B',
+  right: '\x1b[C',
+  left: '\x1b[D',
+  enter: '\r',
+  tab: '\t',
+  '1': '1',
+  '2': '2',
+  '3': '3',
+  '4': '4',
+  '5': '5',
+  '6': '6',
+  '7': '7',
+  '8': '8',
+  '9': '9',
+};
+
+export class ClaudeCodeWrapper extends EventEmitter<ClaudeWrapperEvents> implements ClaudeBackendProcess {
   private pty: pty.IPty | null = null;
-  private outputBuffer: string = '';
+  private screen: TerminalScreen;
+  private currentPrompt: ToolPermissionRequest | null = null;
+  private currentPromptId: string | null = null;
+  private currentMenu: SelectionMenu | null = null;
   private debounceTimer: NodeJS.Timeout | null = null;
+  private turnSettleTimer: NodeJS.Timeout | null = null;
+  private turnStartedAt: number | null = null;
+  private turnOutputChars = 0;
+  // Whether the current turn has shown a spinner or produced output yet
+  private turnSawActivity = false;
   private status: ClaudeProcessStatus = 'starting';
   private readyTimeout: NodeJS.Timeout | null = null;
+  private startup: { resolve: () => void; reject: (err: ClaudeSpawnError) => void } | null = null;
+  // Input that arrived before the prompt was up, delivered once ready
+  private pendingInput: string[] = [];
+  // Set once the tmux client has been let go on purpose
+  private detached = false;
+  // ID a new conversation was started with; the CLI only writes its
+  // transcript once the first turn has gone through
+  private unconfirmedConversationId: string | null;
 
   readonly sessionId: string;
   readonly projectPath: string;
+  readonly backend = 'pty' as const;
   private readonly cols: number;
   private readonly rows: number;
+  private readonly startupTimeoutMs: number;
+  private readonly args: string[];
+  private readonly resources: ResourceGuard;
+  private readonly sandbox?: SandboxOptions;
+  private readonly addDirs?: string[];
+  private readonly detachable: boolean;
+  private readonly reattach: boolean;
 
   constructor(config: ClaudeProcessConfig) {
     super();
@@ -34,6 +124,17 @@ export class ClaudeCodeWrapper extends EventEmitter<ClaudeWrapperEvents> {
     this.projectPath = config.projectPath;
     this.cols = config.cols ?? 120;
     this.rows = config.rows ?? 40;
+    this.startupTimeoutMs = config.startupTimeoutMs ?? 30_000;
+    this.args = buildClaudeArgs(config);
+    this.resources = new ResourceGuard(config.sessionId, config.limits ?? {});
+    this.sandbox = config.sandbox;
+    this.addDirs = config.settings?.addDirs;
+    this.detachable = config.detachable ?? false;
+    this.reattach = config.reattach ?? false;
+    this.unconfirmedConversationId = config.conversation?.mode === 'new'
+      ? config.conversation.claudeSessionId
+      : null;
+    this.screen = new TerminalScreen(this.cols, this.rows);
   }
 
   getStatus(): ClaudeProcessStatus {
@@ -49,132 +150,459 @@ export class ClaudeCodeWrapper extends EventEmitter<ClaudeWrapperEvents> {
       throw new ClaudeSpawnError('Process already spawned');
     }
 
-    log.info({ sessionId: this.sessionId, projectPath: this.projectPath }, 'Spawning Claude Code');
+    log.info({
+      sessionId: this.sessionId,
+      projectPath: this.projectPath,
+      args: this.args,
+      detachable: this.detachable,
+      reattach: this.reattach,
+    }, this.reattach ? 'Reattaching to Claude Code' : 'Spawning Claude Code');
 
     try {
-      this.pty = pty.spawn('claude', [], {
-        name: 'xterm-256color',
-        cols: this.cols,
-        rows: this.rows,
-        cwd: this.projectPath,
-        env: {
-          ...process.env,
-          CLAUDE_CODE_ENTRY_POINT: 'claudewire',
-          TERM: 'xterm-256color',
-          // Disable pager for cleaner output
-          PAGER: '',
-          GIT_PAGER: '',
-        },
-      });
+      if (this.detachable) {
+        await this.spawnInTmux();
+      } else {
+        const { command, args } = await this.launchCommand();
+        this.pty = pty.spawn(command, args, {
+          name: 'xterm-256color',
+          cols: this.cols,
+          rows: this.rows,
+          cwd: this.projectPath,
+          env: this.claudeEnv(),
+        });
+        this.resources.attach(this.pty.pid);
+      }
 
-      this.pty.onData((data: string) => {
+      this.pty!.onData((data: string) => {
         this.handleRawOutput(data);
       });
 
-      this.pty.onExit(({ exitCode }) => {
-        this.handleExit(exitCode);
-      });
-
-      // Set ready after a short delay (Claude Code startup)
-      this.readyTimeout = setTimeout(() => {
-        if (this.status === 'starting') {
-          this.status = 'ready';
-          this.emit('ready');
-          log.info({ sessionId: this.sessionId }, 'Claude Code ready');
+      this.pty!.onExit(({ exitCode }) => {
+        if (this.detachable) {
+          this.handleClientExit(exitCode);
+        } else {
+          this.handleExit(exitCode);
         }
-      }, 2000);
-
+      });
     } catch (err) {
       this.status = 'terminated';
+      if (this.detachable) {
+        killTmuxSession(this.sessionId);
+      }
+      if (err instanceof ClaudeSpawnError) throw err;
       throw new ClaudeSpawnError((err as Error).message, err as Error);
     }
+
+    // Resolve once the input prompt is on screen, not on a fixed timer
+    await new Promise<void>((resolve, reject) => {
+      this.startup = { resolve, reject };
+      this.readyTimeout = setTimeout(() => {
+        this.failStartup(new ClaudeSpawnError(
+          `no input prompt after ${Math.round(this.startupTimeoutMs / 1000)}s`,
+          undefined,
+          'startup_timeout'
+        ));
+      }, this.startupTimeoutMs);
+    });
   }
 
-  private handleRawOutput(data: string): void {
-    this.emit('rawOutput', data);
-    this.outputBuffer += data;
+  private async launchCommand(): Promise<{ command: string; args: string[] }> {
+    const launch = this.sandbox
+      ? await wrapInSandbox('claude', this.args, {
+        projectPath: this.projectPath,
+        addDirs: this.addDirs,
+        sandbox: this.sandbox,
+      })
+      : { command: 'claude', args: this.args };
+    return this.resources.wrapCommand(launch.command, launch.args);
+  }
+
+  private claudeEnv(): NodeJS.ProcessEnv {
+    return buildClaudeEnv(this.projectPath, {
+      CLAUDE_CODE_ENTRY_POINT: 'claudewire',
+      TERM: 'xterm-256color',
+      // Disable pager for cleaner output
+      PAGER: '',
+      GIT_PAGER: '',
+    });
+  }
 
-    // Check for tool use prompts immediately
-    if (detectToolUsePrompt(this.outputBuffer)) {
-      this.emit('toolUsePrompt', this.outputBuffer);
+  /**
+   * Run the CLI in a tmux session (or find the one a previous ClaudeWire
+   * process left behind) and talk to it through an attached tmux client
+   */
+  private async spawnInTmux(): Promise<void> {
+    if (this.reattach) {
+      if (!tmuxSessionExists(this.sessionId)) {
+        throw new ClaudeSpawnError('its tmux session is gone', undefined, 'detached_session_gone');
+      }
+      const exitCode = tmuxPaneExitStatus(this.sessionId);
+      if (exitCode !== null) {
+        throw new ClaudeSpawnError(`exited with code ${exitCode} while detached`, undefined, 'exited_while_detached');
+      }
+      // The sandbox's socket directory survives restarts, but something has to listen on it again
+      if (this.sandbox && !this.sandbox.network) {
+        await ensureEgressProxy();
+      }
+    } else {
+      const { command, args } = await this.launchCommand();
+      startTmuxSession(this.sessionId, command, args, {
+        cwd: this.projectPath,
+        cols: this.cols,
+        rows: this.rows,
+        env: this.claudeEnv(),
+      });
     }
 
-    // Debounce cleaned output emission
-    if (this.debounceTimer) {
-      clearTimeout(this.debounceTimer);
+    // The pane process is the CLI itself, so limits and usage follow it rather than the client
+    this.resources.attach(tmuxPanePid(this.sessionId));
+
+    const client = tmuxAttachCommand(this.sessionId);
+    this.pty = pty.spawn(client.command, client.args, {
+      name: 'xterm-256color',
+      cols: this.cols,
+      rows: this.rows,
+      cwd: this.projectPath,
+      env: client.env,
+    });
+  }
+
+  /**
+   * While starting, watch the screen for the input prompt or for a screen
+   * that blocks startup (trust dialog, login, update)
+   */
+  private checkStartup(screenText: string): void {
+    // A reattached CLI shows wherever it was, not the startup sequence
+    if (this.reattach) {
+      this.resumeAfterReattach(screenText);
+      return;
     }
 
-    this.debounceTimer = setTimeout(() => {
-      if (this.outputBuffer.trim()) {
-        const cleaned = cleanTerminalOutput(this.outputBuffer);
-        if (cleaned) {
-          this.emit('output', cleaned);
-        }
-        this.outputBuffer = '';
-      }
-    }, 150);
+    if (detectInputPrompt(screenText)) {
+      this.markReady();
+      return;
+    }
+
+    const blocker = detectStartupBlocker(screenText);
+    if (blocker) {
+      this.failStartup(new ClaudeSpawnError(STARTUP_BLOCKER_MESSAGES[blocker], undefined, blocker));
+    }
   }
 
-  private handleExit(exitCode: number): void {
-    log.info({ sessionId: this.sessionId, exitCode }, 'Claude Code exited');
+  private markReady(): void {
+    if (this.readyTimeout) {
+      clearTimeout(this.readyTimeout);
+      this.readyTimeout = null;
+    }
+
+    this.status = 'ready';
+    const startup = this.startup;
+    this.startup = null;
+    startup?.resolve();
+
+    this.emit('ready');
+    log.info({ sessionId: this.sessionId }, 'Claude Code ready');
+
+    const pending = this.pendingInput;
+    this.pendingInput = [];
+    for (const text of pending) {
+      this.sendInput(text);
+    }
+  }
+
+  /**
+   * Pick up a reattached CLI where it was: a turn, prompt or menu that was on
+   * screen when ClaudeWire stopped counts as a turn in progress, and prompts
+   * and menus are raised again since their Slack buttons went with the old
+   * process.
+   */
+  private resumeAfterReattach(screenText: string): void {
+    this.markReady();
+
+    if (detectTurnInProgress(screenText) || parseToolPermissionRequest(screenText) || parseSelectionMenu(screenText)) {
+      this.startTurn();
+      this.turnSawActivity = true;
+    }
+    this.scheduleFlush();
+  }
+
+  private failStartup(err: ClaudeSpawnError): void {
+    if (this.readyTimeout) {
+      clearTimeout(this.readyTimeout);
+      this.readyTimeout = null;
+    }
+
+    const startup = this.startup;
+    this.startup = null;
+    if (!startup) return;
+
+    log.warn({ sessionId: this.sessionId, reason: err.reason }, 'Claude Code failed to start');
 
     this.status = 'terminated';
+    this.pendingInput = [];
+    if (this.pty) {
+      this.pty.kill();
+    }
+
+    startup.reject(err);
+  }
 
+  private handleRawOutput(data: string): void {
+    this.emit('rawOutput', data);
+    this.screen.write(data);
+    this.scheduleFlush();
+  }
+
+  // Debounce until the TUI has finished redrawing
+  private scheduleFlush(): void {
     if (this.debounceTimer) {
       clearTimeout(this.debounceTimer);
+    }
+    this.clearTurnSettleTimer();
+
+    this.debounceTimer = setTimeout(() => {
       this.debounceTimer = null;
+      this.flushScreen();
+    }, 150);
+  }
+
+  /**
+   * Emit lines the screen model considers committed, and raise a tool prompt
+   * when one has just appeared on screen.
+   */
+  private flushScreen(): void {
+    if (this.status === 'starting') {
+      // Startup banners and dialogs are not conversation output
+      this.screen.takeCommittedLines(true);
+      this.checkStartup(this.screen.getText());
+      return;
     }
 
-    if (this.readyTimeout) {
-      clearTimeout(this.readyTimeout);
-      this.readyTimeout = null;
+    const lines = this.screen
+      .takeCommittedLines(true)
+      .map(cleanScreenLine)
+      .filter((line): line is string => line !== null);
+
+    const cleaned = cleanTerminalOutput(lines.join('\n'));
+    if (cleaned) {
+      this.turnOutputChars += cleaned.length;
+      this.emit('output', cleaned);
     }
 
-    // Flush any remaining output
-    if (this.outputBuffer.trim()) {
-      const cleaned = cleanTerminalOutput(this.outputBuffer);
-      if (cleaned) {
-        this.emit('output', cleaned);
-      }
-      this.outputBuffer = '';
+    const request = parseToolPermissionRequest(this.screen.getText());
+    if (request && !samePrompt(request, this.currentPrompt)) {
+      this.currentPromptId = nanoid();
+      this.emit('toolUsePrompt', request, this.currentPromptId);
+    } else if (!request) {
+      this.currentPromptId = null;
+    }
+    this.currentPrompt = request;
+
+    // Permission prompts are menus too, but get their own event above
+    const menu = parseSelectionMenu(this.screen.getText());
+    if (menu && !request && !sameMenu(menu, this.currentMenu)) {
+      this.emit('menu', menu);
     }
+    this.currentMenu = menu;
+
+    const inProgress = detectTurnInProgress(this.screen.getText());
+    if (inProgress || cleaned) {
+      this.turnSawActivity = true;
+    }
+
+    // A busy turn is over once nothing is spinning and nothing awaits an answer
+    if (this.status === 'busy' && this.turnSawActivity && !request && !menu && !inProgress) {
+      this.turnSettleTimer = setTimeout(() => {
+        this.turnSettleTimer = null;
+        this.completeTurn();
+      }, TURN_SETTLE_MS);
+    }
+  }
+
+  private clearTurnSettleTimer(): void {
+    if (this.turnSettleTimer) {
+      clearTimeout(this.turnSettleTimer);
+      this.turnSettleTimer = null;
+    }
+  }
+
+  private completeTurn(): void {
+    if (this.status !== 'busy') return;
+
+    const summary = {
+      durationMs: Date.now() - (this.turnStartedAt ?? Date.now()),
+      outputChars: this.turnOutputChars,
+    };
+
+    this.status = 'ready';
+    this.turnStartedAt = null;
+    this.turnOutputChars = 0;
+    this.turnSawActivity = false;
+
+    log.debug({ sessionId: this.sessionId, ...summary }, 'Turn complete');
+    if (this.unconfirmedConversationId) {
+      this.emit('conversationId', this.unconfirmedConversationId);
+      this.unconfirmedConversationId = null;
+    }
+    this.emit('turnComplete', summary);
+  }
+
+  /**
+   * Snapshot of what the terminal currently shows
+   */
+  getScreen(): string {
+    return this.screen.getText();
+  }
+
+  getResourceUsage(): ResourceUsage | null {
+    return this.pty ? this.resources.usage() : null;
+  }
+
+  private handleExit(exitCode: number): void {
+    log.info({ sessionId: this.sessionId, exitCode }, 'Claude Code exited');
+
+    this.failStartup(new ClaudeSpawnError(
+      `exited with code ${exitCode} before it was ready`,
+      undefined,
+      'exited_during_startup'
+    ));
+
+    this.status = 'terminated';
+    this.clearTimers();
+
+    // Flush any remaining output
+    this.flushScreen();
+
+    // Take down anything the session left running, such as dev servers
+    this.resources.killAll();
+    this.resources.release();
 
     this.emit('exit', exitCode);
     this.pty = null;
   }
 
+  /**
+   * The tmux client exits when it is detached on purpose, and when the pane
+   * dies because the CLI exited (see startTmuxSession)
+   */
+  private handleClientExit(clientExitCode: number): void {
+    if (this.detached) {
+      log.info({ sessionId: this.sessionId }, 'Detached from Claude Code');
+      this.pty = null;
+      return;
+    }
+
+    // tmux keeps the dead pane around with the CLI's own exit code
+    const exitCode = tmuxPaneExitStatus(this.sessionId) ?? clientExitCode;
+    this.resources.killAll();
+    killTmuxSession(this.sessionId);
+    this.handleExit(exitCode);
+  }
+
   sendInput(text: string): void {
     if (!this.pty || this.status === 'terminated') {
       log.warn({ sessionId: this.sessionId }, 'Attempted to send input to dead process');
       return;
     }
 
+    if (this.status === 'starting') {
+      log.debug({ sessionId: this.sessionId }, 'Holding input until Claude Code is ready');
+      this.pendingInput.push(text);
+      return;
+    }
+
     log.debug({ sessionId: this.sessionId, inputLength: text.length }, 'Sending input');
+    this.startTurn();
+
+    if (text.includes('\n')) {
+      // Strip escapes so the text cannot end the paste itself, then submit with Enter
+      const pasted = text.replace(/\r\n?/g, '\n').replace(/\x1b/g, '');
+      this.pty.write(PASTE_START + pasted + PASTE_END + '\r');
+    } else {
+      this.pty.write(text + '\n');
+    }
+  }
+
+  private startTurn(): void {
+    if (this.status !== 'busy') {
+      this.turnStartedAt = Date.now();
+      this.turnOutputChars = 0;
+      this.turnSawActivity = false;
+    }
     this.status = 'busy';
-    this.pty.write(text + '\n');
+    this.clearTurnSettleTimer();
   }
 
-  sendControl(key: 'y' | 'n' | 'escape' | 'ctrl-c'): void {
+  sendControl(key: ClaudeControlKey): void {
     if (!this.pty || this.status === 'terminated') {
       return;
     }
 
     log.debug({ sessionId: this.sessionId, key }, 'Sending control key');
 
-    switch (key) {
-      case 'y':
-        this.pty.write('y');
-        break;
-      case 'n':
-        this.pty.write('n');
-        break;
-      case 'escape':
-        this.pty.write('\x1b');
-        break;
-      case 'ctrl-c':
-        this.pty.write('\x03');
-        break;
+    const sequence = KEY_SEQUENCES[key];
+    if (sequence) {
+      this.pty.write(sequence);
+    }
+  }
+
+  /**
+   * Answer the permission prompt on screen by picking its matching option.
+   * Refuses when `promptId` is not the prompt currently shown, so a late
+   * click on an old prompt does not type into the input box, and when the
+   * prompt has no option for the answer.
+   */
+  answerPrompt(answer: PermissionAnswer, promptId: string): boolean {
+    const prompt = this.currentPrompt;
+    if (!this.pty || this.status === 'terminated' || !prompt || promptId !== this.currentPromptId) {
+      return false;
+    }
+
+    let keys: string;
+    if (answer === 'cancel') {
+      keys = KEY_SEQUENCES.escape!;
+    } else {
+      const option = findPermissionOption(prompt, answer);
+      if (!option) return false;
+      keys = option.key;
     }
+
+    log.debug({ sessionId: this.sessionId, answer, keys }, 'Answering permission prompt');
+    this.pty.write(keys);
+
+    // Answered once; the next prompt gets a new ID even if it looks the same
+    this.currentPrompt = null;
+    this.currentPromptId = null;
+    return true;
+  }
+
+  /**
+   * Pick an option of the menu currently on screen: numbered menus take the
+   * digit directly, others are navigated with arrow keys and confirmed.
+   */
+  selectMenuOption(index: number): boolean {
+    const menu = this.currentMenu;
+    if (!this.pty || this.status === 'terminated' || !menu) {
+      return false;
+    }
+
+    const option = menu.options[index];
+    if (!option) {
+      return false;
+    }
+
+    log.debug({ sessionId: this.sessionId, index, label: option.label }, 'Selecting menu option');
+
+    if (option.key) {
+      this.pty.write(option.key);
+    } else {
+      const delta = index - menu.selectedIndex;
+      const arrow = delta < 0 ? KEY_SEQUENCES.up! : KEY_SEQUENCES.down!;
+      this.pty.write(arrow.repeat(Math.abs(delta)) + KEY_SEQUENCES.enter!);
+    }
+
+    this.currentMenu = null;
+    return true;
   }
 
   async terminate(): Promise<void> {
@@ -184,15 +612,7 @@ export class ClaudeCodeWrapper extends EventEmitter<ClaudeWrapperEvents> {
 
     log.info({ sessionId: this.sessionId }, 'Terminating Claude Code');
 
-    if (this.debounceTimer) {
-      clearTimeout(this.debounceTimer);
-      this.debounceTimer = null;
-    }
-
-    if (this.readyTimeout) {
-      clearTimeout(this.readyTimeout);
-      this.readyTimeout = null;
-    }
+    this.clearTimers();
 
     // Try graceful exit first
     this.pty.write('\x03'); // Ctrl+C
@@ -205,6 +625,10 @@ export class ClaudeCodeWrapper extends EventEmitter<ClaudeWrapperEvents> {
           this.pty.kill();
           this.pty = null;
         }
+        this.resources.killAll();
+        if (this.detachable) {
+          killTmuxSession(this.sessionId);
+        }
         this.status = 'terminated';
         resolve();
       }, 1000);
@@ -217,9 +641,62 @@ export class ClaudeCodeWrapper extends EventEmitter<ClaudeWrapperEvents> {
     });
   }
 
+  /**
+   * Close the tmux client but leave the CLI running in its tmux session, so
+   * the next ClaudeWire process can reattach to it
+   */
+  detach(): boolean {
+    if (!this.detachable || !this.pty || this.status === 'terminated') {
+      return false;
+    }
+
+    this.detached = true;
+    this.clearTimers();
+    this.pty.kill();
+    return true;
+  }
+
+  private clearTimers(): void {
+    this.clearTurnSettleTimer();
+
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+
+    if (this.readyTimeout) {
+      clearTimeout(this.readyTimeout);
+      this.readyTimeout = null;
+    }
+  }
+
   resize(cols: number, rows: number): void {
     if (this.pty) {
       this.pty.resize(cols, rows);
+      this.screen.resize(cols, rows);
     }
   }
 }
+
+/**
+ * Kill a CLI left running in tmux that nothing will reattach to, along with
+ * everything it started
+ */
+export function killDetachedProcess(sessionId: string): void {
+  const resources = new ResourceGuard(sessionId, config.claude.limits);
+  if (tmuxSessionExists(sessionId)) {
+    resources.attach(tmuxPanePid(sessionId));
+  }
+  resources.killAll();
+  killTmuxSession(sessionId);
+  resources.release();
+}
+
+function samePrompt(a: ToolPermissionRequest, b: ToolPermissionRequest | null): boolean {
+  return b !== null && a.toolName === b.toolName && a.target === b.target && a.question === b.question;
+}
+
+function sameMenu(a: SelectionMenu, b: SelectionMenu | null): boolean {
+  if (!b || a.options.length !== b.options.length) return false;
+  return a.options.every((option, i) => option.label === b.options[i].label);
+}
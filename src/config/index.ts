@@ -1,4 +1,6 @@
+import os from 'os';
 import { z } from 'zod';
+import { CLAUDE_PERMISSION_MODES } from '../claude/types.js';
 
 const configSchema = z.object({
   slack: z.object({
@@ -11,12 +13,148 @@ const configSchema = z.object({
     projectsDir: z.string().default('./projects'),
     maxSessionsPerUser: z.number().int().positive().default(1),
     sessionTimeoutMinutes: z.number().int().positive().default(60),
+    // Inactivity timeouts that replace sessionTimeoutMinutes, by Slack user ID
+    // and by project path under the projects dir (`U01234567/web`); a project's wins
+    sessionTimeoutOverrides: z.object({
+      users: z.record(z.number().int().positive()).default({}),
+      projects: z.record(z.number().int().positive()).default({}),
+    }),
+    // How long before an inactivity timeout the thread is warned; 0 disables the warning
+    sessionTimeoutWarningMinutes: z.number().int().nonnegative().default(5),
+    // What the warning's Extend button adds
+    sessionTimeoutExtendMinutes: z.number().int().positive().default(30),
+    // When on, idle sessions are stopped but kept, and wake up on the next message in their thread
+    hibernation: z.object({
+      enabled: z.boolean().default(false),
+      // How long a hibernated session can still be woken
+      ttlHours: z.number().int().positive().default(168),
+    }),
+    // Concurrent sessions on this worker, overall and per team; requests beyond
+    // a cap wait in line. 0 means unlimited
+    capacity: z.object({
+      maxSessions: z.number().int().nonnegative().default(0),
+      maxSessionsPerTeam: z.number().int().nonnegative().default(0),
+      // Team of each Slack user ID; users without one only count towards maxSessions
+      teams: z.record(z.string()).default({}),
+      // Per-team caps that replace maxSessionsPerTeam
+      teamLimits: z.record(z.number().int().nonnegative()).default({}),
+    }),
+    backend: z.enum(['pty', 'stream-json']).default('pty'),
+    startupTimeoutSeconds: z.number().int().positive().default(30),
+    maxQueuedInputs: z.number().int().positive().default(10),
+    // Claude Code slash commands forwarded to the CLI as-is (names without the slash)
+    nativeCommands: z.array(z.string()).default([
+      'compact',
+      'clear',
+      'cost',
+      'model',
+      'init',
+      'memory',
+      'review',
+      'context',
+      'agents',
+      'mcp',
+      'permissions',
+    ]),
+    // Per-session limits; 0 means unlimited
+    limits: z.object({
+      memoryMb: z.number().int().nonnegative().default(0),
+      cpuPercent: z.number().int().nonnegative().default(0),
+      maxProcesses: z.number().int().nonnegative().default(0),
+      maxSessionMinutes: z.number().int().nonnegative().default(0),
+      maxTurnMinutes: z.number().int().nonnegative().default(0),
+      // Delegated cgroup v2 directory that session cgroups are created under
+      cgroupRoot: z.string().default('/sys/fs/cgroup/claudewire'),
+    }),
+    sandbox: z.object({
+      enabled: z.boolean().default(false),
+      bwrapPath: z.string().default('bwrap'),
+      network: z.enum(['on', 'off']).default('on'),
+      // Per-project network setting, keyed by path under the projects dir (`U01234567/web`)
+      networkOverrides: z.record(z.enum(['on', 'off'])).default({}),
+      // Hosts reachable through the egress proxy when network is off
+      allowedHosts: z.array(z.string()).default(['api.anthropic.com', 'statsig.anthropic.com']),
+      // Extra host paths mounted read-only, e.g. toolchains outside /usr
+      readOnlyPaths: z.array(z.string()).default([]),
+    }),
+    // Run pty sessions inside tmux so they outlive a ClaudeWire restart
+    detach: z.object({
+      enabled: z.boolean().default(false),
+      tmuxPath: z.string().default('tmux'),
+      // Private tmux server (`tmux -L <name>`), kept apart from any interactive tmux
+      socketName: z.string().default('claudewire'),
+    }),
+    // Only these variables are passed from ClaudeWire's environment to Claude processes
+    envAllowlist: z.array(z.string()).default([
+      'PATH',
+      'HOME',
+      'USER',
+      'LOGNAME',
+      'SHELL',
+      'LANG',
+      'LANGUAGE',
+      'LC_ALL',
+      'LC_CTYPE',
+      'TZ',
+      'TMPDIR',
+      'XDG_CONFIG_HOME',
+      'XDG_CACHE_HOME',
+      'XDG_DATA_HOME',
+      'HTTP_PROXY',
+      'HTTPS_PROXY',
+      'NO_PROXY',
+      'NODE_EXTRA_CA_CERTS',
+      'SSL_CERT_FILE',
+      'ANTHROPIC_API_KEY',
+      'ANTHROPIC_BASE_URL',
+      'CLAUDE_CONFIG_DIR',
+    ]),
+    // Per-project variables are read from <projectEnvDir>/<user>/<project>.env
+    projectEnvDir: z.string().optional(),
+    // What users may ask for per session; anything else is rejected
+    sessionOptions: z.object({
+      allowedModels: z.array(z.string()).default(['sonnet', 'opus', 'haiku']),
+      allowedPermissionModes: z.array(z.enum(CLAUDE_PERMISSION_MODES)).default([...CLAUDE_PERMISSION_MODES]),
+      // Tools users may pre-approve; disallowing tools is always permitted
+      allowedTools: z.array(z.string()).default([
+        'Read',
+        'Glob',
+        'Grep',
+        'LS',
+        'Edit',
+        'MultiEdit',
+        'Write',
+        'NotebookEdit',
+        'TodoWrite',
+        'WebFetch',
+        'WebSearch',
+      ]),
+      // 0 disables custom system prompts
+      maxSystemPromptChars: z.number().int().nonnegative().default(2000),
+      // Directories outside the user's own projects that may be added
+      addDirRoots: z.array(z.string()).default([]),
+    }),
+  }),
+
+  redaction: z.object({
+    enabled: z.boolean().default(true),
+    // Exact strings that must never appear in Slack or the logs
+    literals: z.array(z.string()).default([]),
   }),
 
   redis: z.object({
     url: z.string().url().default('redis://localhost:6379'),
   }),
 
+  // Workers sharing Redis; each session runs on the worker holding its lease
+  cluster: z.object({
+    // Must stay the same across restarts, so a worker reattaches to its own detached sessions
+    workerId: z.string().min(1).default(os.hostname()),
+    leaseSeconds: z.number().int().positive().default(30),
+    // How long a call routed to the worker running a session may take
+    callTimeoutSeconds: z.number().int().positive().default(15),
+  }),
+
   sqlite: z.object({
     path: z.string().default('./data/claudewire.db'),
   }),
@@ -40,6 +178,27 @@ function parseEnvArray(value: string | undefined): string[] {
   return value.split(',').map(s => s.trim()).filter(Boolean);
 }
 
+// `a=1,b=2` → { a: '1', b: '2' }
+function parseEnvMap(value: string | undefined): Record<string, string> {
+  const map: Record<string, string> = {};
+  for (const entry of parseEnvArray(value)) {
+    const eq = entry.indexOf('=');
+    if (eq > 0) {
+      map[entry.slice(0, eq).trim()] = entry.slice(eq + 1).trim();
+    }
+  }
+  return map;
+}
+
+// `a=1,b=2` → { a: 1, b: 2 }
+function parseEnvIntMap(value: string | undefined): Record<string, number> {
+  const map: Record<string, number> = {};
+  for (const [key, raw] of Object.entries(parseEnvMap(value))) {
+    map[key] = parseInt(raw, 10);
+  }
+  return map;
+}
+
 function loadConfig(): Config {
   const rawConfig = {
     slack: {
@@ -55,10 +214,101 @@ function loadConfig(): Config {
       sessionTimeoutMinutes: process.env.SESSION_TIMEOUT_MINUTES
         ? parseInt(process.env.SESSION_TIMEOUT_MINUTES, 10)
         : undefined,
+      sessionTimeoutOverrides: {
+        users: parseEnvIntMap(process.env.SESSION_TIMEOUT_USERS),
+        projects: parseEnvIntMap(process.env.SESSION_TIMEOUT_PROJECTS),
+      },
+      sessionTimeoutWarningMinutes: process.env.SESSION_TIMEOUT_WARNING_MINUTES
+        ? parseInt(process.env.SESSION_TIMEOUT_WARNING_MINUTES, 10)
+        : undefined,
+      sessionTimeoutExtendMinutes: process.env.SESSION_TIMEOUT_EXTEND_MINUTES
+        ? parseInt(process.env.SESSION_TIMEOUT_EXTEND_MINUTES, 10)
+        : undefined,
+      hibernation: {
+        enabled: process.env.HIBERNATE_IDLE_SESSIONS === 'true',
+        ttlHours: process.env.HIBERNATED_SESSION_TTL_HOURS
+          ? parseInt(process.env.HIBERNATED_SESSION_TTL_HOURS, 10)
+          : undefined,
+      },
+      capacity: {
+        maxSessions: process.env.MAX_SESSIONS ? parseInt(process.env.MAX_SESSIONS, 10) : undefined,
+        maxSessionsPerTeam: process.env.MAX_SESSIONS_PER_TEAM
+          ? parseInt(process.env.MAX_SESSIONS_PER_TEAM, 10)
+          : undefined,
+        teams: parseEnvMap(process.env.SESSION_TEAMS),
+        teamLimits: parseEnvIntMap(process.env.TEAM_SESSION_LIMITS),
+      },
+      backend: process.env.CLAUDE_BACKEND as Config['claude']['backend'] | undefined,
+      startupTimeoutSeconds: process.env.CLAUDE_STARTUP_TIMEOUT_SECONDS
+        ? parseInt(process.env.CLAUDE_STARTUP_TIMEOUT_SECONDS, 10)
+        : undefined,
+      maxQueuedInputs: process.env.MAX_QUEUED_INPUTS
+        ? parseInt(process.env.MAX_QUEUED_INPUTS, 10)
+        : undefined,
+      nativeCommands: process.env.NATIVE_COMMANDS
+        ? parseEnvArray(process.env.NATIVE_COMMANDS).map(c => c.replace(/^\//, '').toLowerCase())
+        : undefined,
+      limits: {
+        memoryMb: process.env.LIMIT_MEMORY_MB ? parseInt(process.env.LIMIT_MEMORY_MB, 10) : undefined,
+        cpuPercent: process.env.LIMIT_CPU_PERCENT ? parseInt(process.env.LIMIT_CPU_PERCENT, 10) : undefined,
+        maxProcesses: process.env.LIMIT_MAX_PROCESSES ? parseInt(process.env.LIMIT_MAX_PROCESSES, 10) : undefined,
+        maxSessionMinutes: process.env.LIMIT_SESSION_MINUTES
+          ? parseInt(process.env.LIMIT_SESSION_MINUTES, 10)
+          : undefined,
+        maxTurnMinutes: process.env.LIMIT_TURN_MINUTES ? parseInt(process.env.LIMIT_TURN_MINUTES, 10) : undefined,
+        cgroupRoot: process.env.LIMITS_CGROUP_ROOT || undefined,
+      },
+      sandbox: {
+        enabled: process.env.SANDBOX_ENABLED === 'true',
+        bwrapPath: process.env.SANDBOX_BWRAP_PATH || undefined,
+        network: process.env.SANDBOX_NETWORK as 'on' | 'off' | undefined,
+        networkOverrides: parseEnvMap(process.env.SANDBOX_NETWORK_PROJECTS),
+        allowedHosts: process.env.SANDBOX_ALLOWED_HOSTS
+          ? parseEnvArray(process.env.SANDBOX_ALLOWED_HOSTS)
+          : undefined,
+        readOnlyPaths: parseEnvArray(process.env.SANDBOX_READONLY_PATHS),
+      },
+      detach: {
+        enabled: process.env.DETACH_SESSIONS === 'true',
+        tmuxPath: process.env.TMUX_PATH || undefined,
+        socketName: process.env.TMUX_SOCKET_NAME || undefined,
+      },
+      envAllowlist: process.env.CHILD_ENV_ALLOWLIST
+        ? parseEnvArray(process.env.CHILD_ENV_ALLOWLIST)
+        : undefined,
+      projectEnvDir: process.env.PROJECT_ENV_DIR || undefined,
+      sessionOptions: {
+        allowedModels: process.env.ALLOWED_MODELS
+          ? parseEnvArray(process.env.ALLOWED_MODELS)
+          : undefined,
+        allowedPermissionModes: process.env.ALLOWED_PERMISSION_MODES
+          ? parseEnvArray(process.env.ALLOWED_PERMISSION_MODES)
+          : undefined,
+        allowedTools: process.env.ALLOWED_TOOLS
+          ? parseEnvArray(process.env.ALLOWED_TOOLS)
+          : undefined,
+        maxSystemPromptChars: process.env.MAX_SYSTEM_PROMPT_CHARS
+          ? parseInt(process.env.MAX_SYSTEM_PROMPT_CHARS, 10)
+          : undefined,
+        addDirRoots: parseEnvArray(process.env.ADD_DIR_ROOTS),
+      },
+    },
+    redaction: {
+      enabled: process.env.REDACT_OUTPUT !== 'false',
+      literals: parseEnvArray(process.env.REDACT_LITERALS),
     },
     redis: {
       url: process.env.REDIS_URL,
     },
+    cluster: {
+      workerId: process.env.WORKER_ID || undefined,
+      leaseSeconds: process.env.SESSION_LEASE_SECONDS
+        ? parseInt(process.env.SESSION_LEASE_SECONDS, 10)
+        : undefined,
+      callTimeoutSeconds: process.env.WORKER_CALL_TIMEOUT_SECONDS
+        ? parseInt(process.env.WORKER_CALL_TIMEOUT_SECONDS, 10)
+        : undefined,
+    },
     sqlite: {
       path: process.env.SQLITE_PATH,
     },
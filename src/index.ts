@@ -1,9 +1,14 @@
 import { config } from './config/index.js';
 import { logger } from './utils/logger.js';
-import { getRedisClient, closeRedis, RedisSessionStore } from './storage/redis.js';
+import { getRedisClient, getRedisSubscriber, closeRedis, RedisSessionStore } from './storage/redis.js';
 import { getDatabase, closeDatabase, SQLiteLogger } from './storage/sqlite.js';
 import { ProjectManager } from './storage/projects.js';
 import { SessionManager } from './session/manager.js';
+import { WorkerBus } from './session/cluster.js';
+import { assertSafeChildEnvironment } from './claude/env.js';
+import { assertSandboxAvailable } from './claude/sandbox.js';
+import { stopEgressProxy } from './claude/egress-proxy.js';
+import { assertTmuxAvailable } from './claude/tmux.js';
 import { AuthService } from './gateway/auth.js';
 import { createSlackBot, startSlackBot, stopSlackBot } from './slack/bot.js';
 import type { App } from '@slack/bolt';
@@ -18,6 +23,11 @@ async function main(): Promise<void> {
   log.info({ version: '1.0.0' }, 'Starting ClaudeWire');
 
   try {
+    // Claude processes must not be able to read ClaudeWire's credentials
+    assertSafeChildEnvironment();
+    assertSandboxAvailable();
+    assertTmuxAvailable();
+
     // Initialize storage
     log.info('Initializing storage...');
     const redis = await getRedisClient();
@@ -29,16 +39,26 @@ async function main(): Promise<void> {
     const projectManager = new ProjectManager();
     const authService = new AuthService();
 
-    // Create session manager
-    sessionManager = new SessionManager(redisStore, sqliteLogger, projectManager);
+    // Create session manager, which shares sessions with the other workers
+    const bus = new WorkerBus(redis, await getRedisSubscriber(), config.cluster.workerId);
+    sessionManager = new SessionManager(redisStore, sqliteLogger, projectManager, bus);
+    await sessionManager.joinCluster();
 
     // Create and start Slack bot
     log.info('Starting Slack bot...');
     slackApp = createSlackBot(sessionManager, authService, projectManager);
     await startSlackBot(slackApp);
 
+    // After the bot is up, so reconnect and session-ended notices can be posted
+    const reattached = await sessionManager.reattachSessions();
+    if (reattached.length > 0) {
+      log.info({ count: reattached.length }, 'Reattached to running sessions');
+    }
+    await sessionManager.reconcileSessions();
+
     log.info('ClaudeWire is running!');
     log.info({
+      workerId: config.cluster.workerId,
       projectsDir: config.claude.projectsDir,
       sessionTimeout: `${config.claude.sessionTimeoutMinutes} minutes`,
       allowAll: config.auth.allowAll,
@@ -63,10 +83,12 @@ async function shutdown(signal: string): Promise<void> {
       await stopSlackBot(slackApp);
     }
 
-    // Shutdown session manager (terminates all Claude processes)
+    // Shutdown session manager (terminates Claude processes, detachable ones keep running).
+    // Anything but a signal counts as a crash at the next start.
     if (sessionManager) {
-      await sessionManager.shutdown();
+      await sessionManager.shutdown(signal === 'SIGINT' || signal === 'SIGTERM');
     }
+    await stopEgressProxy();
 
     // Close storage connections
     await closeRedis();
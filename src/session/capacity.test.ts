@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { config } from '../config/index.js';
+import { SessionRequestCancelledError } from '../utils/errors.js';
+import { SessionCapacity } from './capacity.js';
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('SessionCapacity', () => {
+  let capacity: SessionCapacity;
+  let granted: string[];
+  let positions: Record<string, number[]>;
+
+  // Start a request and record when it gets a slot and its place in line
+  const request = (sessionId: string, userId: string) => {
+    positions[sessionId] = [];
+    const slot = capacity.acquire(sessionId, userId, position => positions[sessionId]!.push(position));
+    return slot.then(() => {
+      granted.push(sessionId);
+    });
+  };
+
+  beforeEach(() => {
+    Object.assign(config.claude.capacity, {
+      maxSessions: 2,
+      maxSessionsPerTeam: 0,
+      teams: { U_WEB_1: 'web', U_WEB_2: 'web', U_WEB_3: 'web', U_DATA: 'data' },
+      teamLimits: { web: 1 },
+    });
+    capacity = new SessionCapacity();
+    granted = [];
+    positions = {};
+  });
+
+  it('grants free slots straight away without a place in line', async () => {
+    void request('s1', 'U_OTHER');
+    void request('s2', 'U_OTHER');
+    await flush();
+
+    expect(granted).toEqual(['s1', 's2']);
+    expect(positions).toEqual({ s1: [], s2: [] });
+  });
+
+  it('lets waiting requests in first come, first served', async () => {
+    capacity.claim('running-1', 'U_OTHER');
+    capacity.claim('running-2', 'U_OTHER');
+    void request('s1', 'U_OTHER');
+    void request('s2', 'U_OTHER');
+    void request('s3', 'U_OTHER');
+    await flush();
+    expect(granted).toEqual([]);
+
+    capacity.release('running-2');
+    await flush();
+    expect(granted).toEqual(['s1']);
+
+    capacity.release('s1');
+    capacity.release('running-1');
+    await flush();
+    expect(granted).toEqual(['s1', 's2', 's3']);
+  });
+
+  it('tells waiting requests when their place in line changes', async () => {
+    capacity.claim('running-1', 'U_OTHER');
+    capacity.claim('running-2', 'U_OTHER');
+    void request('s1', 'U_OTHER');
+    void request('s2', 'U_OTHER');
+    void request('s3', 'U_OTHER');
+
+    capacity.release('running-1');
+    await flush();
+
+    expect(positions).toEqual({ s1: [1], s2: [2, 1], s3: [3, 2] });
+  });
+
+  it('does not hold other teams back behind a full team', async () => {
+    void request('web-1', 'U_WEB_1');
+    void request('web-2', 'U_WEB_2');
+    void request('data-1', 'U_DATA');
+    await flush();
+
+    expect(granted).toEqual(['web-1', 'data-1']);
+    expect(positions['web-2']).toEqual([1]);
+
+    capacity.release('web-1');
+    await flush();
+    expect(granted).toEqual(['web-1', 'data-1', 'web-2']);
+  });
+
+  it('counts sessions from every team against the overall cap', async () => {
+    capacity.claim('running-1', 'U_DATA');
+    capacity.claim('running-2', 'U_OTHER');
+    void request('web-1', 'U_WEB_1');
+    await flush();
+
+    expect(granted).toEqual([]);
+  });
+
+  it('cancels a waiting request and moves the ones behind it up', async () => {
+    capacity.claim('running-1', 'U_OTHER');
+    capacity.claim('running-2', 'U_OTHER');
+    const first = capacity.acquire('s1', 'U_OTHER', () => {});
+    void request('s2', 'U_OTHER');
+
+    expect(capacity.cancel('s1')).toBe(true);
+    await expect(first).rejects.toBeInstanceOf(SessionRequestCancelledError);
+    expect(positions['s2']).toEqual([2, 1]);
+
+    expect(capacity.cancel('s1')).toBe(false);
+    expect(capacity.cancel('running-1')).toBe(false);
+
+    capacity.release('running-1');
+    await flush();
+    expect(granted).toEqual(['s2']);
+  });
+
+  it('ignores releases for sessions without a slot', async () => {
+    capacity.claim('running-1', 'U_OTHER');
+    capacity.claim('running-2', 'U_OTHER');
+    void request('s1', 'U_OTHER');
+
+    capacity.release('unknown');
+    await flush();
+
+    expect(granted).toEqual([]);
+  });
+});
@@ -0,0 +1,113 @@
+import { config } from '../config/index.js';
+import { SessionRequestCancelledError } from '../utils/errors.js';
+
+interface Waiter {
+  sessionId: string;
+  team: string | null;
+  position: number;
+  grant: () => void;
+  refuse: (err: Error) => void;
+  onPosition: (position: number) => void;
+}
+
+/**
+ * Team a Slack user belongs to for capacity purposes, if any
+ */
+export function teamOf(userId: string): string | null {
+  return config.claude.capacity.teams[userId] ?? null;
+}
+
+function teamLimit(team: string): number {
+  const { teamLimits, maxSessionsPerTeam } = config.claude.capacity;
+  return teamLimits[team] ?? maxSessionsPerTeam;
+}
+
+/**
+ * Caps how many sessions run at once on this worker, overall and per team;
+ * other workers sharing Redis keep their own counts. Requests
+ * over a cap wait in line and are let in first come, first served; one held
+ * back only by its own team's cap does not block requests from other teams.
+ */
+export class SessionCapacity {
+  // Team of each session holding a slot
+  private readonly holders = new Map<string, string | null>();
+  private waiters: Waiter[] = [];
+
+  /**
+   * Take a slot for the session, waiting in line while the host or the
+   * user's team is full. `onPosition` is told the 1-based place in line
+   * whenever it changes; it is never called when a slot is free straight away.
+   * Rejects with SessionRequestCancelledError when the request is cancelled.
+   */
+  acquire(sessionId: string, userId: string, onPosition: (position: number) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.waiters.push({ sessionId, team: teamOf(userId), position: 0, grant: resolve, refuse: reject, onPosition });
+      this.admit();
+    });
+  }
+
+  /**
+   * Take a waiting request out of line. Returns false when it is not waiting.
+   */
+  cancel(sessionId: string): boolean {
+    const index = this.waiters.findIndex(waiter => waiter.sessionId === sessionId);
+    if (index === -1) return false;
+
+    const [waiter] = this.waiters.splice(index, 1);
+    waiter!.refuse(new SessionRequestCancelledError(sessionId));
+    // Only moves the others up: a waiter never holds anyone else back
+    this.admit();
+    return true;
+  }
+
+  /**
+   * Take a slot regardless of the caps, for sessions that are already running
+   */
+  claim(sessionId: string, userId: string): void {
+    this.holders.set(sessionId, teamOf(userId));
+  }
+
+  /**
+   * Give the session's slot to the next request in line. Safe to call for
+   * sessions that hold none.
+   */
+  release(sessionId: string): void {
+    if (this.holders.delete(sessionId)) {
+      this.admit();
+    }
+  }
+
+  private hasRoom(team: string | null): boolean {
+    const { maxSessions } = config.claude.capacity;
+    if (maxSessions > 0 && this.holders.size >= maxSessions) return false;
+    if (team === null) return true;
+
+    const limit = teamLimit(team);
+    if (limit === 0) return true;
+    let running = 0;
+    for (const holder of this.holders.values()) {
+      if (holder === team) running++;
+    }
+    return running < limit;
+  }
+
+  private admit(): void {
+    const remaining: Waiter[] = [];
+    for (const waiter of this.waiters) {
+      if (this.hasRoom(waiter.team)) {
+        this.holders.set(waiter.sessionId, waiter.team);
+        waiter.grant();
+      } else {
+        remaining.push(waiter);
+      }
+    }
+    this.waiters = remaining;
+
+    remaining.forEach((waiter, index) => {
+      if (waiter.position !== index + 1) {
+        waiter.position = index + 1;
+        waiter.onPosition(waiter.position);
+      }
+    });
+  }
+}
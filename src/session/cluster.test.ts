@@ -0,0 +1,129 @@
+import { EventEmitter } from 'events';
+import type { Redis } from 'ioredis';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { config } from '../config/index.js';
+import {
+  ClaudeWireError,
+  InputQueueFullError,
+  NoSessionError,
+  SessionExistsError,
+  SessionLimitError,
+  WorkerUnavailableError,
+} from '../utils/errors.js';
+import { WorkerBus } from './cluster.js';
+
+/**
+ * In-memory stand-in for Redis pub/sub: publishing delivers to every
+ * subscribed connection and reports how many there were
+ */
+class FakePubSub {
+  private readonly subscribers = new Map<string, Set<EventEmitter>>();
+
+  connection(): Redis {
+    const emitter = new EventEmitter();
+    return Object.assign(emitter, {
+      subscribe: async (channel: string) => {
+        if (!this.subscribers.has(channel)) this.subscribers.set(channel, new Set());
+        this.subscribers.get(channel)!.add(emitter);
+      },
+      unsubscribe: async (channel: string) => {
+        this.subscribers.get(channel)?.delete(emitter);
+      },
+      publish: async (channel: string, message: string) => {
+        const receivers = [...(this.subscribers.get(channel) ?? [])];
+        setImmediate(() => receivers.forEach(receiver => receiver.emit('message', channel, message)));
+        return receivers.length;
+      },
+    }) as unknown as Redis;
+  }
+
+  bus(workerId: string): WorkerBus {
+    return new WorkerBus(this.connection(), this.connection(), workerId);
+  }
+}
+
+describe('WorkerBus', () => {
+  let pubsub: FakePubSub;
+  let caller: WorkerBus;
+
+  beforeEach(async () => {
+    config.cluster.callTimeoutSeconds = 15;
+    pubsub = new FakePubSub();
+    caller = pubsub.bus('worker-a');
+    await caller.start(async () => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs the call on the target worker and returns its result', async () => {
+    const target = pubsub.bus('worker-b');
+    const handler = vi.fn(async (_method: string, args: unknown[]) => `handled ${args.join(' ')}`);
+    await target.start(handler);
+
+    await expect(caller.call('worker-b', 'sendInput', ['U123', 'hello'])).resolves.toBe('handled U123 hello');
+    expect(handler).toHaveBeenCalledWith('sendInput', ['U123', 'hello']);
+  });
+
+  it.each([
+    [new SessionExistsError('session-1'), SessionExistsError, { existingSessionId: 'session-1' }],
+    [new SessionLimitError(2), SessionLimitError, { limit: 2 }],
+    [new NoSessionError('U123'), NoSessionError, { userId: 'U123' }],
+    [new InputQueueFullError('session-1', 20), InputQueueFullError, { sessionId: 'session-1', limit: 20 }],
+  ])('rethrows %s as the same error class', async (thrown, errorClass, context) => {
+    const target = pubsub.bus('worker-b');
+    await target.start(async () => {
+      throw thrown;
+    });
+
+    const error = await caller.call('worker-b', 'sendInput', []).catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(errorClass);
+    expect(error).toMatchObject({ message: thrown.message, code: thrown.code, context });
+  });
+
+  it('rethrows other errors with their message and code', async () => {
+    const target = pubsub.bus('worker-b');
+    await target.start(async (method) => {
+      if (method === 'custom') throw new ClaudeWireError('Custom failure', 'CUSTOM', { detail: 1 });
+      throw new Error('Plain failure');
+    });
+
+    await expect(caller.call('worker-b', 'custom', [])).rejects.toMatchObject({
+      message: 'Custom failure',
+      code: 'CUSTOM',
+      context: { detail: 1 },
+    });
+    await expect(caller.call('worker-b', 'plain', [])).rejects.toMatchObject({
+      message: 'Plain failure',
+      code: 'REMOTE_ERROR',
+    });
+  });
+
+  it('fails straight away when no worker listens on the channel', async () => {
+    vi.useFakeTimers();
+
+    await expect(caller.call('worker-gone', 'sendInput', [])).rejects.toBeInstanceOf(WorkerUnavailableError);
+  });
+
+  it('fails when the worker does not answer in time', async () => {
+    const target = pubsub.bus('worker-b');
+    await target.start(() => new Promise(() => {}));
+    vi.useFakeTimers();
+
+    const call = caller.call('worker-b', 'sendInput', []).catch((err: unknown) => err);
+    await vi.advanceTimersByTimeAsync(15_000);
+
+    expect(await call).toBeInstanceOf(WorkerUnavailableError);
+  });
+
+  it('fails pending calls when it stops', async () => {
+    const target = pubsub.bus('worker-b');
+    await target.start(() => new Promise(() => {}));
+
+    const call = caller.call('worker-b', 'sendInput', []);
+    await caller.stop();
+
+    await expect(call).rejects.toBeInstanceOf(WorkerUnavailableError);
+  });
+});
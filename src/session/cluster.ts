@@ -0,0 +1,164 @@
+import { randomUUID } from 'crypto';
+import type { Redis } from 'ioredis';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import {
+  ClaudeWireError,
+  InputQueueFullError,
+  NoSessionError,
+  SessionExistsError,
+  SessionLimitError,
+  WorkerUnavailableError,
+} from '../utils/errors.js';
+
+const log = logger.child({ component: 'worker-bus' });
+
+interface CallMessage {
+  type: 'call';
+  id: string;
+  // Worker the reply goes to
+  from: string;
+  method: string;
+  args: unknown[];
+}
+
+interface ReplyMessage {
+  type: 'reply';
+  id: string;
+  result?: unknown;
+  error?: { message: string; code?: string; context?: Record<string, unknown> };
+}
+
+interface PendingCall {
+  resolve: (result: unknown) => void;
+  reject: (err: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+export type CallHandler = (method: string, args: unknown[]) => Promise<unknown>;
+
+// Each worker listens on its own channel, for calls to it and replies to its calls
+function workerChannel(workerId: string): string {
+  return `claudewire:worker:${workerId}`;
+}
+
+/**
+ * Rebuild an error thrown on another worker, as the class callers check
+ * for where there is one
+ */
+function reviveError(error: NonNullable<ReplyMessage['error']>): Error {
+  const context = error.context ?? {};
+  switch (error.code) {
+    case 'SESSION_EXISTS':
+      return new SessionExistsError(String(context.existingSessionId));
+    case 'SESSION_LIMIT':
+      return new SessionLimitError(Number(context.limit));
+    case 'NO_SESSION':
+      return new NoSessionError(context.userId as string | undefined);
+    case 'INPUT_QUEUE_FULL':
+      return new InputQueueFullError(String(context.sessionId), Number(context.limit));
+    default:
+      return new ClaudeWireError(error.message, error.code ?? 'REMOTE_ERROR', context);
+  }
+}
+
+/**
+ * Calls between ClaudeWire workers over Redis pub/sub. A call goes to the
+ * target worker's channel, which runs it and publishes the result, or the
+ * error, back to the caller's.
+ */
+export class WorkerBus {
+  private readonly pending = new Map<string, PendingCall>();
+  private handler: CallHandler | null = null;
+
+  constructor(
+    private publisher: Redis,
+    private subscriber: Redis,
+    readonly workerId: string
+  ) {}
+
+  /**
+   * Start taking calls for this worker
+   */
+  async start(handler: CallHandler): Promise<void> {
+    this.handler = handler;
+    this.subscriber.on('message', (channel: string, raw: string) => {
+      if (channel !== workerChannel(this.workerId)) return;
+      this.handleMessage(raw).catch((err) => {
+        log.error({ err }, 'Failed to handle worker message');
+      });
+    });
+    await this.subscriber.subscribe(workerChannel(this.workerId));
+    log.info({ workerId: this.workerId }, 'Listening for worker calls');
+  }
+
+  async stop(): Promise<void> {
+    this.handler = null;
+    await this.subscriber.unsubscribe(workerChannel(this.workerId));
+    for (const [id, call] of this.pending) {
+      clearTimeout(call.timer);
+      call.reject(new WorkerUnavailableError(this.workerId, 'shutdown'));
+      this.pending.delete(id);
+    }
+  }
+
+  /**
+   * Run a method on another worker. Rejects with WorkerUnavailableError when
+   * nobody answers in time, e.g. because the worker is gone.
+   */
+  call<T>(workerId: string, method: string, args: unknown[]): Promise<T> {
+    const message: CallMessage = { type: 'call', id: randomUUID(), from: this.workerId, method, args };
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(message.id);
+        reject(new WorkerUnavailableError(workerId, method));
+      }, config.cluster.callTimeoutSeconds * 1000);
+
+      this.pending.set(message.id, { resolve: resolve as (result: unknown) => void, reject, timer });
+      this.publisher.publish(workerChannel(workerId), JSON.stringify(message)).then((receivers) => {
+        // Nobody subscribed: the worker is not running
+        if (receivers === 0) {
+          clearTimeout(timer);
+          this.pending.delete(message.id);
+          reject(new WorkerUnavailableError(workerId, method));
+        }
+      }, (err: Error) => {
+        clearTimeout(timer);
+        this.pending.delete(message.id);
+        reject(err);
+      });
+    });
+  }
+
+  private async handleMessage(raw: string): Promise<void> {
+    const message = JSON.parse(raw) as CallMessage | ReplyMessage;
+
+    if (message.type === 'reply') {
+      const call = this.pending.get(message.id);
+      if (!call) return;
+      clearTimeout(call.timer);
+      this.pending.delete(message.id);
+      if (message.error) {
+        call.reject(reviveError(message.error));
+      } else {
+        call.resolve(message.result);
+      }
+      return;
+    }
+
+    if (!this.handler) return;
+    const reply: ReplyMessage = { type: 'reply', id: message.id };
+    try {
+      reply.result = await this.handler(message.method, message.args);
+    } catch (err) {
+      const error = err as Error;
+      reply.error = {
+        message: error.message,
+        code: err instanceof ClaudeWireError ? err.code : undefined,
+        context: err instanceof ClaudeWireError ? err.context : undefined,
+      };
+    }
+    await this.publisher.publish(workerChannel(message.from), JSON.stringify(reply));
+  }
+}
@@ -0,0 +1,640 @@
+import { EventEmitter } from 'events';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { config } from '../config/index.js';
+import { SQLiteLogger, closeDatabase, getDatabase } from '../storage/sqlite.js';
+import type { RedisSessionStore } from '../storage/redis.js';
+import type { ProjectManager } from '../storage/projects.js';
+import type {
+  ClaudeBackendProcess,
+  ClaudeControlKey,
+  ClaudeProcessConfig,
+  ClaudeProcessStatus,
+  ClaudeWrapperEvents,
+} from '../claude/types.js';
+import type { WorkerBus } from './cluster.js';
+import type { Session } from './types.js';
+import { SessionManager } from './manager.js';
+
+vi.mock('../claude/backend.js', () => ({
+  createClaudeProcess: (_backend: string, processConfig: ClaudeProcessConfig) => {
+    const claude = new FakeClaude(processConfig);
+    processes.push(claude);
+    return claude;
+  },
+}));
+
+vi.mock('../utils/system.js', async importOriginal => ({
+  ...await importOriginal<typeof import('../utils/system.js')>(),
+  isClaudeCodeInstalled: () => true,
+}));
+
+/**
+ * Stands in for a CLI process: ready as soon as it is spawned, busy from
+ * the first input until the test finishes the turn
+ */
+class FakeClaude extends EventEmitter<ClaudeWrapperEvents> implements ClaudeBackendProcess {
+  readonly sessionId: string;
+  readonly projectPath: string;
+  readonly backend = 'stream-json' as const;
+  status: ClaudeProcessStatus = 'starting';
+  inputs: string[] = [];
+  keys: ClaudeControlKey[] = [];
+  // Leave the exit to the test, like a CLI that is slow to stop
+  exitOnTerminate = true;
+
+  constructor(readonly processConfig: ClaudeProcessConfig) {
+    super();
+    this.sessionId = processConfig.sessionId;
+    this.projectPath = processConfig.projectPath;
+  }
+
+  getStatus(): ClaudeProcessStatus {
+    return this.status;
+  }
+
+  isAlive(): boolean {
+    return this.status !== 'terminated';
+  }
+
+  async spawn(): Promise<void> {
+    this.status = 'ready';
+    this.emit('ready');
+  }
+
+  getScreen(): string | null {
+    return null;
+  }
+
+  sendInput(text: string): void {
+    this.inputs.push(text);
+    this.status = 'busy';
+  }
+
+  sendControl(key: ClaudeControlKey): void {
+    this.keys.push(key);
+  }
+
+  answerPrompt(): boolean {
+    return false;
+  }
+
+  selectMenuOption(): boolean {
+    return false;
+  }
+
+  getResourceUsage(): null {
+    return null;
+  }
+
+  async terminate(): Promise<void> {
+    if (this.exitOnTerminate) this.exit(0);
+  }
+
+  detach(): boolean {
+    return false;
+  }
+
+  finishTurn(): void {
+    this.status = 'ready';
+    this.emit('turnComplete', { durationMs: 1000, outputChars: 42 });
+  }
+
+  exit(code: number): void {
+    if (this.status === 'terminated') return;
+    this.status = 'terminated';
+    this.emit('exit', code);
+  }
+}
+
+/**
+ * In-memory RedisSessionStore with the same semantics, minus expiry
+ */
+class FakeSessionStore {
+  sessions = new Map<string, string>();
+  ttls = new Map<string, number>();
+  userSessions = new Map<string, Set<string>>();
+  userHibernated = new Map<string, Set<string>>();
+  active = new Map<string, string>();
+  threads = new Map<string, string>();
+  leases = new Map<string, string>();
+  queued = new Map<string, string>();
+  queuedThreads = new Map<string, string>();
+  userQueued = new Map<string, Set<string>>();
+  held = new Map<string, string>();
+  reaped = new Set<string>();
+  cleanShutdowns = new Set<string>();
+  workers = new Map<string, string>();
+
+  private set(map: Map<string, Set<string>>, key: string): Set<string> {
+    if (!map.has(key)) map.set(key, new Set());
+    return map.get(key)!;
+  }
+
+  async setSession(sessionId: string, userId: string, data: object, ttlSeconds?: number) {
+    this.set(this.userSessions, userId).add(sessionId);
+    this.sessions.set(sessionId, JSON.stringify(data));
+    if (ttlSeconds) this.ttls.set(sessionId, ttlSeconds);
+  }
+
+  async getSession<T>(sessionId: string): Promise<T | null> {
+    const data = this.sessions.get(sessionId);
+    return data ? JSON.parse(data) as T : null;
+  }
+
+  async getSessionIdsForUser(userId: string) {
+    return [...this.userSessions.get(userId) ?? []];
+  }
+
+  async getActiveSessionId(userId: string) {
+    return this.active.get(userId) ?? null;
+  }
+
+  async setActiveSessionId(userId: string, sessionId: string) {
+    this.active.set(userId, sessionId);
+  }
+
+  async deleteSession(sessionId: string, userId: string) {
+    this.sessions.delete(sessionId);
+    this.userSessions.get(userId)?.delete(sessionId);
+    this.userHibernated.get(userId)?.delete(sessionId);
+    if (this.active.get(userId) === sessionId) this.active.delete(userId);
+  }
+
+  async hibernateSession(sessionId: string, userId: string, data: object, ttlSeconds: number) {
+    this.sessions.set(sessionId, JSON.stringify(data));
+    this.ttls.set(sessionId, ttlSeconds);
+    this.userSessions.get(userId)?.delete(sessionId);
+    this.set(this.userHibernated, userId).add(sessionId);
+    if (this.active.get(userId) === sessionId) this.active.delete(userId);
+  }
+
+  async wakeSession(sessionId: string, userId: string) {
+    this.userHibernated.get(userId)?.delete(sessionId);
+  }
+
+  async getHibernatedSessionIdsForUser(userId: string) {
+    return [...this.userHibernated.get(userId) ?? []];
+  }
+
+  async getAllHibernatedSessionIds() {
+    return [...this.userHibernated.values()].flatMap(ids => [...ids]);
+  }
+
+  async setThreadSession(channelId: string, threadTs: string, sessionId: string) {
+    this.threads.set(`${channelId}:${threadTs}`, sessionId);
+  }
+
+  async getThreadSession(channelId: string, threadTs: string) {
+    return this.threads.get(`${channelId}:${threadTs}`) ?? null;
+  }
+
+  async deleteThreadSession(channelId: string, threadTs: string, sessionId: string) {
+    if (this.threads.get(`${channelId}:${threadTs}`) === sessionId) this.threads.delete(`${channelId}:${threadTs}`);
+  }
+
+  async setQueuedRequest(request: { sessionId: string; userId: string; channelId: string; threadTs: string }) {
+    this.queued.set(request.sessionId, JSON.stringify(request));
+    this.queuedThreads.set(`${request.channelId}:${request.threadTs}`, request.sessionId);
+    this.set(this.userQueued, request.userId).add(request.sessionId);
+  }
+
+  async getQueuedRequest<T>(sessionId: string): Promise<T | null> {
+    const data = this.queued.get(sessionId);
+    return data ? JSON.parse(data) as T : null;
+  }
+
+  async getQueuedRequestForThread<T>(channelId: string, threadTs: string): Promise<T | null> {
+    const sessionId = this.queuedThreads.get(`${channelId}:${threadTs}`);
+    return sessionId ? this.getQueuedRequest<T>(sessionId) : null;
+  }
+
+  async getQueuedRequestsForUser<T>(userId: string): Promise<T[]> {
+    const requests: T[] = [];
+    for (const sessionId of this.userQueued.get(userId) ?? []) {
+      const request = await this.getQueuedRequest<T>(sessionId);
+      if (request) requests.push(request);
+    }
+    return requests;
+  }
+
+  async deleteQueuedRequest(request: { sessionId: string; userId: string; channelId: string; threadTs: string }) {
+    this.queued.delete(request.sessionId);
+    this.userQueued.get(request.userId)?.delete(request.sessionId);
+    if (this.queuedThreads.get(`${request.channelId}:${request.threadTs}`) === request.sessionId) {
+      this.queuedThreads.delete(`${request.channelId}:${request.threadTs}`);
+    }
+  }
+
+  async setHeldMessage(channelId: string, threadTs: string, message: object) {
+    this.held.set(`${channelId}:${threadTs}`, JSON.stringify(message));
+  }
+
+  async getHeldMessage<T>(channelId: string, threadTs: string): Promise<T | null> {
+    const data = this.held.get(`${channelId}:${threadTs}`);
+    return data ? JSON.parse(data) as T : null;
+  }
+
+  async deleteHeldMessage(channelId: string, threadTs: string) {
+    this.held.delete(`${channelId}:${threadTs}`);
+  }
+
+  async updateSessionActivity() {}
+
+  async acquireLease(sessionId: string, workerId: string) {
+    const owner = this.leases.get(sessionId);
+    if (owner && owner !== workerId) return false;
+    this.leases.set(sessionId, workerId);
+    return true;
+  }
+
+  async releaseLease(sessionId: string, workerId: string) {
+    if (this.leases.get(sessionId) === workerId) this.leases.delete(sessionId);
+  }
+
+  async getLeaseOwner(sessionId: string) {
+    return this.leases.get(sessionId) ?? null;
+  }
+
+  async markReaped(sessionId: string) {
+    this.reaped.add(sessionId);
+  }
+
+  async wasReaped(sessionId: string) {
+    return this.reaped.has(sessionId);
+  }
+
+  async claimWorkerId(workerId: string, token: string) {
+    const holder = this.workers.get(workerId);
+    if (holder && holder !== token) return false;
+    this.workers.set(workerId, token);
+    return true;
+  }
+
+  async releaseWorkerId(workerId: string, token: string) {
+    if (this.workers.get(workerId) === token) this.workers.delete(workerId);
+  }
+
+  async markCleanShutdown(workerId: string) {
+    this.cleanShutdowns.add(workerId);
+  }
+
+  async takeCleanShutdown(workerId: string) {
+    return this.cleanShutdowns.delete(workerId);
+  }
+
+  async hasCleanShutdown(workerId: string) {
+    return this.cleanShutdowns.has(workerId);
+  }
+
+  async pruneSessions(liveSessionIds: Set<string>, keepSessionIds = new Set<string>()) {
+    const pruned: string[] = [];
+    for (const ids of this.userSessions.values()) {
+      for (const sessionId of ids) {
+        if (liveSessionIds.has(sessionId)) continue;
+        ids.delete(sessionId);
+        this.sessions.delete(sessionId);
+        pruned.push(sessionId);
+      }
+    }
+    for (const pointers of [this.active, this.threads]) {
+      for (const [key, sessionId] of pointers) {
+        if (!liveSessionIds.has(sessionId) && !keepSessionIds.has(sessionId)) pointers.delete(key);
+      }
+    }
+    return pruned;
+  }
+
+  async getAllSessionIds() {
+    return [...this.userSessions.values()].flatMap(ids => [...ids]);
+  }
+}
+
+const processes: FakeClaude[] = [];
+
+describe('SessionManager', () => {
+  let store: FakeSessionStore;
+  let sqliteLogger: SQLiteLogger;
+  let bus: { workerId: string; start: () => Promise<void>; stop: () => Promise<void>; call: ReturnType<typeof vi.fn> };
+  let manager: SessionManager;
+
+  const createManager = () => new SessionManager(
+    store as unknown as RedisSessionStore,
+    sqliteLogger,
+    {
+      getUserProjectDir: (userId: string) => `/projects/${userId}`,
+      validateProjectPath: (projectPath: string) => projectPath,
+    } as unknown as ProjectManager,
+    bus as unknown as WorkerBus
+  );
+
+  const startSession = (userId = 'U1', threadTs = '100.1') => manager.createSession({
+    userId,
+    userName: userId.toLowerCase(),
+    channelId: 'C1',
+    messageTs: threadTs,
+  });
+
+  const claudeFor = (session: Session) => processes.find(claude => claude.sessionId === session.id)!;
+
+  // Let pending store writes and event handlers run
+  const settle = () => new Promise(resolve => setImmediate(resolve));
+
+  beforeEach(() => {
+    config.sqlite.path = ':memory:';
+    Object.assign(config.claude, {
+      maxSessionsPerUser: 3,
+      maxQueuedInputs: 2,
+      sessionTimeoutMinutes: 60,
+      sessionTimeoutWarningMinutes: 5,
+      backend: 'stream-json',
+    });
+    config.claude.hibernation.enabled = false;
+    config.claude.limits.maxTurnMinutes = 0;
+
+    processes.length = 0;
+    store = new FakeSessionStore();
+    sqliteLogger = new SQLiteLogger(getDatabase());
+    bus = { workerId: 'worker-1', start: async () => {}, stop: async () => {}, call: vi.fn() };
+    manager = createManager();
+  });
+
+  afterEach(async () => {
+    await manager.shutdown();
+    closeDatabase();
+    vi.useRealTimers();
+  });
+
+  describe('input queue', () => {
+    it('delivers straight away while Claude is ready', async () => {
+      const session = await startSession();
+
+      await expect(manager.sendInput('U1', 'first')).resolves.toEqual({ queued: false, position: 0 });
+      expect(claudeFor(session).inputs).toEqual(['first']);
+    });
+
+    it('holds messages during a turn and sends them in order as turns complete', async () => {
+      const session = await startSession();
+      const claude = claudeFor(session);
+      const sent: string[] = [];
+      manager.on('queuedInputSent', (_session, input) => sent.push(input.text));
+
+      await manager.sendInput('U1', 'first');
+      await expect(manager.sendInput('U1', 'second')).resolves.toEqual({ queued: true, position: 1 });
+      await expect(manager.sendInput('U1', 'third')).resolves.toEqual({ queued: true, position: 2 });
+      expect(claude.inputs).toEqual(['first']);
+
+      claude.finishTurn();
+      expect(claude.inputs).toEqual(['first', 'second']);
+      claude.finishTurn();
+      expect(claude.inputs).toEqual(['first', 'second', 'third']);
+      expect(sent).toEqual(['second', 'third']);
+    });
+
+    it('queues a message that arrives just as a queued one is being sent', async () => {
+      const session = await startSession();
+      const claude = claudeFor(session);
+      await manager.sendInput('U1', 'first');
+      await manager.sendInput('U1', 'second');
+
+      claude.finishTurn();
+      const result = await manager.sendInput('U1', 'third');
+
+      expect(claude.inputs).toEqual(['first', 'second']);
+      expect(result).toEqual({ queued: true, position: 1 });
+    });
+
+    it('puts urgent messages first and interrupts the turn', async () => {
+      const session = await startSession();
+      const claude = claudeFor(session);
+      await manager.sendInput('U1', 'first');
+      await manager.sendInput('U1', 'second');
+
+      await expect(manager.sendInput('U1', 'stop that', { urgent: true })).resolves.toEqual({ queued: true, position: 1 });
+      expect(claude.keys).toEqual(['escape']);
+
+      claude.finishTurn();
+      expect(claude.inputs).toEqual(['first', 'stop that']);
+    });
+
+    it('refuses messages once the queue is full, urgent ones too', async () => {
+      await startSession();
+      await manager.sendInput('U1', 'first');
+      await manager.sendInput('U1', 'second');
+      await manager.sendInput('U1', 'third');
+
+      await expect(manager.sendInput('U1', 'fourth')).rejects.toThrow('Input queue is full');
+      await expect(manager.sendInput('U1', 'urgent', { urgent: true })).rejects.toThrow('Input queue is full');
+      expect(await manager.clearInputQueue('U1')).toBe(2);
+    });
+  });
+
+  describe('turns', () => {
+    it('marks the session working during a turn and idle once it completes', async () => {
+      const session = await startSession();
+      const claude = claudeFor(session);
+      const completed = vi.fn();
+      manager.on('turnComplete', completed);
+
+      await manager.sendInput('U1', 'fix the build');
+      await settle();
+      expect(await store.getSession(session.id)).toMatchObject({ status: 'working' });
+
+      claude.finishTurn();
+      await settle();
+      expect(await store.getSession(session.id)).toMatchObject({ status: 'idle' });
+      expect(completed).toHaveBeenCalledWith(expect.objectContaining({ id: session.id }), { durationMs: 1000, outputChars: 42 });
+      expect(sqliteLogger.getSessionMessages(session.id).map(message => message.content))
+        .toEqual(['fix the build', '[turn_complete] 1000ms, 42 chars']);
+    });
+
+    it('stops the turn time limit once the turn completes', async () => {
+      vi.useFakeTimers();
+      config.claude.limits.maxTurnMinutes = 1;
+      const session = await startSession();
+      const claude = claudeFor(session);
+
+      await manager.sendInput('U1', 'fix the build');
+      claude.finishTurn();
+      await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+
+      expect(claude.keys).toEqual([]);
+      expect(claude.isAlive()).toBe(true);
+    });
+  });
+
+  describe('idle timeout', () => {
+    it('gives inactivity as the reason even when the CLI exits after cleanup', async () => {
+      vi.useFakeTimers();
+      config.claude.sessionTimeoutMinutes = 10;
+      const session = await startSession();
+      const claude = claudeFor(session);
+      claude.exitOnTerminate = false;
+      const terminated = vi.fn();
+      manager.on('sessionTerminated', terminated);
+
+      await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+      expect(await store.getSession(session.id)).toBeNull();
+      expect(terminated).not.toHaveBeenCalled();
+
+      claude.exit(137);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(terminated).toHaveBeenCalledWith(session.id, 137, 'idle');
+    });
+  });
+
+  describe('hibernation', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      config.claude.sessionTimeoutMinutes = 10;
+      config.claude.hibernation.enabled = true;
+    });
+
+    it('stops an idle session but keeps it and its thread for waking', async () => {
+      const session = await startSession();
+      const claude = claudeFor(session);
+      claude.emit('conversationId', 'conversation-1');
+      const hibernated = vi.fn();
+      const terminated = vi.fn();
+      manager.on('sessionHibernated', hibernated);
+      manager.on('sessionTerminated', terminated);
+
+      await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+
+      expect(claude.isAlive()).toBe(false);
+      expect(hibernated).toHaveBeenCalledWith(expect.objectContaining({ id: session.id, status: 'hibernated' }));
+      expect(terminated).not.toHaveBeenCalled();
+      expect(await store.getSession(session.id)).toMatchObject({ status: 'hibernated', claudeSessionId: 'conversation-1' });
+      expect(await store.getHibernatedSessionIdsForUser('U1')).toEqual([session.id]);
+      expect(await store.getThreadSession('C1', session.threadTs)).toBe(session.id);
+      expect(await store.getLeaseOwner(session.id)).toBeNull();
+    });
+
+    it('ends an idle session whose conversation was never confirmed', async () => {
+      const session = await startSession();
+      const terminated = vi.fn();
+      manager.on('sessionTerminated', terminated);
+
+      await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+
+      expect(terminated).toHaveBeenCalledWith(session.id, 0, 'idle');
+      expect(await store.getSession(session.id)).toBeNull();
+    });
+
+    it('wakes a hibernated session by resuming its conversation', async () => {
+      const session = await startSession();
+      claudeFor(session).emit('conversationId', 'conversation-1');
+      await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+
+      const woken = await manager.wakeSession('U1', session.id);
+
+      expect(woken).toMatchObject({ id: session.id, status: 'idle', workerId: 'worker-1' });
+      expect(processes).toHaveLength(2);
+      expect(processes[1]!.processConfig.conversation).toEqual({ mode: 'resume', claudeSessionId: 'conversation-1' });
+      expect(await store.getHibernatedSessionIdsForUser('U1')).toEqual([]);
+      expect(await store.getActiveSessionId('U1')).toBe(session.id);
+      expect(await store.getLeaseOwner(session.id)).toBe('worker-1');
+
+      await manager.sendInput('U1', 'carry on');
+      expect(processes[1]!.inputs).toEqual(['carry on']);
+    });
+
+    it('wakes a session only once when asked twice at the same time', async () => {
+      const session = await startSession();
+      claudeFor(session).emit('conversationId', 'conversation-1');
+      await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+
+      const [first, second] = await Promise.all([
+        manager.wakeSession('U1', session.id),
+        manager.wakeSession('U1', session.id),
+      ]);
+
+      expect(first).toBe(second);
+      expect(processes).toHaveLength(2);
+    });
+
+    it('does not wake sessions for users who may not drive them', async () => {
+      const session = await startSession();
+      claudeFor(session).emit('conversationId', 'conversation-1');
+      await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+
+      await expect(manager.wakeSession('U2', session.id)).resolves.toBeNull();
+      expect(processes).toHaveLength(1);
+    });
+  });
+
+  describe('reconciling on startup', () => {
+    // A session the previous process of this worker was running
+    const leftBehind = async (id: string, threadTs: string) => {
+      sqliteLogger.logSessionStart({
+        id,
+        userId: 'U1',
+        userName: 'u1',
+        channelId: 'C1',
+        threadTs,
+        projectPath: '/projects/U1/web',
+      });
+      await store.setSession(id, 'U1', { id, userId: 'U1', channelId: 'C1', threadTs });
+      await store.setThreadSession('C1', threadTs, id);
+    };
+
+    it('ends sessions left behind by a clean restart and clears them from Redis', async () => {
+      await leftBehind('old-1', '50.1');
+      await store.setActiveSessionId('U1', 'old-1');
+      await store.markCleanShutdown('worker-1');
+      const orphaned = vi.fn();
+      manager.on('sessionOrphaned', orphaned);
+
+      const ended = await manager.reconcileSessions();
+
+      expect(ended.map(entry => entry.id)).toEqual(['old-1']);
+      expect(orphaned).toHaveBeenCalledWith(expect.objectContaining({ id: 'old-1', threadTs: '50.1' }), 'restart');
+      expect(sqliteLogger.getSessionLog('old-1')).toMatchObject({ status: 'terminated', endReason: 'restart' });
+      expect(await store.getSession('old-1')).toBeNull();
+      expect(await store.getThreadSession('C1', '50.1')).toBeNull();
+      expect(await store.getActiveSessionId('U1')).toBeNull();
+      expect(await store.hasCleanShutdown('worker-1')).toBe(false);
+    });
+
+    it('gives a crash as the reason without a clean shutdown', async () => {
+      await leftBehind('old-1', '50.1');
+      const orphaned = vi.fn();
+      manager.on('sessionOrphaned', orphaned);
+
+      await manager.reconcileSessions();
+
+      expect(orphaned).toHaveBeenCalledWith(expect.objectContaining({ id: 'old-1' }), 'crash');
+      expect(sqliteLogger.getSessionLog('old-1')).toMatchObject({ endReason: 'crash' });
+    });
+
+    it('leaves sessions another worker holds the lease for alone', async () => {
+      await leftBehind('theirs-1', '60.1');
+      store.leases.set('theirs-1', 'worker-2');
+
+      await expect(manager.reconcileSessions()).resolves.toEqual([]);
+      expect(sqliteLogger.getSessionLog('theirs-1')).toMatchObject({ status: 'active' });
+      expect(await store.getSession('theirs-1')).not.toBeNull();
+      expect(await store.getThreadSession('C1', '60.1')).toBe('theirs-1');
+    });
+
+    it('does not announce a session another worker already reaped', async () => {
+      await leftBehind('old-1', '50.1');
+      await store.markReaped('old-1');
+      const orphaned = vi.fn();
+      manager.on('sessionOrphaned', orphaned);
+
+      await expect(manager.reconcileSessions()).resolves.toHaveLength(1);
+      expect(orphaned).not.toHaveBeenCalled();
+      expect(sqliteLogger.getSessionLog('old-1')).toMatchObject({ status: 'terminated' });
+    });
+
+    it('keeps the thread bindings of hibernated sessions', async () => {
+      await store.hibernateSession('asleep-1', 'U1', { id: 'asleep-1', status: 'hibernated' }, 3600);
+      await store.setThreadSession('C1', '70.1', 'asleep-1');
+
+      await manager.reconcileSessions();
+
+      expect(await store.getSession('asleep-1')).not.toBeNull();
+      expect(await store.getThreadSession('C1', '70.1')).toBe('asleep-1');
+    });
+  });
+});
@@ -1,47 +1,491 @@
 import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import path from 'path';
 import { nanoid } from 'nanoid';
-import { ClaudeCodeWrapper } from '../claude/wrapper.js';
+import { createClaudeProcess } from '../claude/backend.js';
 import { RedisSessionStore } from '../storage/redis.js';
 import { SQLiteLogger } from '../storage/sqlite.js';
 import { ProjectManager } from '../storage/projects.js';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
-import { SessionExistsError, NoSessionError, ClaudeCodeNotInstalledError } from '../utils/errors.js';
+import {
+  ClaudeWireError,
+  SessionExistsError,
+  SessionLimitError,
+  NoSessionError,
+  ClaudeCodeNotInstalledError,
+  ConversationNotFoundError,
+  InputQueueFullError,
+  WorkerIdInUseError,
+} from '../utils/errors.js';
+import { resolveSessionSettings } from './settings.js';
+import { canDrive, sessionRole } from './members.js';
+import { Redactor } from './redactor.js';
+import { SessionCapacity } from './capacity.js';
+import type { WorkerBus } from './cluster.js';
+import { sandboxOptionsFor } from '../claude/sandbox.js';
+import { projectKey } from '../claude/env.js';
+import { killDetachedProcess } from '../claude/wrapper.js';
+import { listTmuxSessions } from '../claude/tmux.js';
 import { isClaudeCodeInstalled } from '../utils/system.js';
+import type {
+  ClaudeBackendProcess,
+  ClaudeControlKey,
+  ClaudeConversation,
+  PermissionAnswer,
+  ResourceUsage,
+} from '../claude/types.js';
+import type { SessionEndReason, SessionLogEntry } from '../storage/sqlite.js';
 import type {
   Session,
+  SessionMember,
+  SessionRole,
   CreateSessionOptions,
+  HeldMessage,
+  QueuedInput,
+  QueuedSessionRequest,
+  SendInputResult,
   SessionManagerEvents,
 } from './types.js';
 
 const log = logger.child({ component: 'session-manager' });
 
+// Methods other workers may call on this one, for sessions running here
+const REMOTE_METHODS = [
+  'inviteMember',
+  'extendSession',
+  'sendInput',
+  'getInputQueue',
+  'clearInputQueue',
+  'sendControl',
+  'answerPrompt',
+  'selectMenuOption',
+  'terminateSession',
+  'getSessionStatus',
+  'getScreen',
+  'getRedactionCounts',
+  'cancelQueuedSession',
+] as const;
+type RemoteMethod = typeof REMOTE_METHODS[number];
+
+// A request waiting in line as recorded in Redis, with the worker it waits on
+type StoredQueuedRequest = QueuedSessionRequest & { workerId: string };
+
+// How long an over-time turn gets to stop after being interrupted
+const TURN_INTERRUPT_GRACE_MS = 30_000;
+
+/**
+ * Inactivity timeout for a session: the project's override, else the
+ * user's, else the default
+ */
+function idleTimeoutMinutes(userId: string, projectPath: string): number {
+  const overrides = config.claude.sessionTimeoutOverrides;
+  const key = projectKey(projectPath);
+  return (key && overrides.projects[key]) || overrides.users[userId] || config.claude.sessionTimeoutMinutes;
+}
+
 export class SessionManager extends EventEmitter<SessionManagerEvents> {
-  private claudeProcesses: Map<string, ClaudeCodeWrapper> = new Map();
+  private claudeProcesses: Map<string, ClaudeBackendProcess> = new Map();
   private sessionTimeoutTimers: Map<string, NodeJS.Timeout> = new Map();
+  private sessionWarningTimers: Map<string, NodeJS.Timeout> = new Map();
+  // When each session ends for inactivity, in epoch ms
+  private idleDeadlines: Map<string, number> = new Map();
+  // Why a session is being ended, for when its process exits
+  private endReasons: Map<string, SessionEndReason> = new Map();
+  // Hard caps on session and turn duration, independent of inactivity
+  private sessionDeadlineTimers: Map<string, NodeJS.Timeout> = new Map();
+  private turnDeadlineTimers: Map<string, NodeJS.Timeout> = new Map();
+  // Messages held back while Claude is mid-turn or waiting on a prompt
+  private inputQueues: Map<string, QueuedInput[]> = new Map();
+  // Secrets are masked before output reaches SQLite or Slack
+  private redactors: Map<string, Redactor> = new Map();
+  // Host and team caps on running sessions, and the line waiting for them
+  private capacity = new SessionCapacity();
+  // Requests waiting in line here; also recorded in Redis, for other workers
+  private queuedRequests: Map<string, QueuedSessionRequest> = new Map();
+  // Hibernated sessions being respawned, so concurrent messages wake them once
+  private waking: Map<string, Promise<Session | null>> = new Map();
+
+  // Tells this process apart from others claiming the same worker ID
+  private readonly workerToken = randomUUID();
+  // Keeping this worker's leases alive, and reaping sessions of dead workers
+  private leaseTimer: NodeJS.Timeout | null = null;
+  private reapTimer: NodeJS.Timeout | null = null;
 
   constructor(
     private redisStore: RedisSessionStore,
     private sqliteLogger: SQLiteLogger,
-    private projectManager: ProjectManager
+    private projectManager: ProjectManager,
+    private bus: WorkerBus
   ) {
     super();
   }
 
+  private get workerId(): string {
+    return this.bus.workerId;
+  }
+
+  /**
+   * Start taking calls routed from other workers, keep this worker's session
+   * leases alive, and periodically reconcile sessions of workers whose
+   * leases expired
+   */
+  async joinCluster(): Promise<void> {
+    await this.claimWorkerId();
+    await this.bus.start((method, args) => this.handleRemoteCall(method, args));
+
+    const leaseMs = config.cluster.leaseSeconds * 1000;
+    this.leaseTimer = setInterval(() => {
+      this.renewLeases().catch(err => log.error({ err }, 'Failed to renew session leases'));
+    }, leaseMs / 3);
+    this.reapTimer = setInterval(() => {
+      this.reapSessions().catch(err => log.error({ err }, 'Failed to reap sessions'));
+    }, leaseMs);
+  }
+
+  /**
+   * Register this process under its worker ID. A previous process that died
+   * without shutting down holds the ID until its registration expires, so
+   * that long is waited out; one that keeps renewing it is another worker
+   * running with the same ID, which would answer this worker's calls and
+   * take over its tmux sessions.
+   */
+  private async claimWorkerId(): Promise<void> {
+    const leaseMs = config.cluster.leaseSeconds * 1000;
+    const giveUpAt = Date.now() + leaseMs + 1000;
+
+    while (!await this.redisStore.claimWorkerId(this.workerId, this.workerToken, leaseMs)) {
+      if (Date.now() >= giveUpAt) {
+        throw new WorkerIdInUseError(this.workerId);
+      }
+      log.warn({ workerId: this.workerId }, 'Worker ID is still registered, waiting for it to expire');
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+  }
+
+  /**
+   * Run a call another worker routed here because this worker runs the
+   * session. The methods route the same way, so a session that has moved on
+   * meanwhile is followed.
+   */
+  private async handleRemoteCall(method: string, args: unknown[]): Promise<unknown> {
+    if (!(REMOTE_METHODS as readonly string[]).includes(method)) {
+      throw new ClaudeWireError(`Unknown worker call: ${method}`, 'UNKNOWN_WORKER_CALL', { method });
+    }
+    const fn = this[method as RemoteMethod] as (...callArgs: unknown[]) => Promise<unknown>;
+    return fn.apply(this, args);
+  }
+
+  /**
+   * The worker running a session, when that is not this one
+   */
+  private async remoteOwner(sessionId: string): Promise<string | null> {
+    if (this.claudeProcesses.has(sessionId)) return null;
+    const owner = await this.redisStore.getLeaseOwner(sessionId);
+    return owner && owner !== this.workerId ? owner : null;
+  }
+
+  /**
+   * Whether a session has a running process, here or on another worker
+   */
+  private async isLive(sessionId: string): Promise<boolean> {
+    const claude = this.claudeProcesses.get(sessionId);
+    if (claude) return claude.isAlive();
+    return (await this.remoteOwner(sessionId)) !== null;
+  }
+
+  private async acquireLease(sessionId: string): Promise<boolean> {
+    return this.redisStore.acquireLease(sessionId, this.workerId, config.cluster.leaseSeconds * 1000);
+  }
+
+  /**
+   * Renew the leases of the sessions running here. A session whose lease
+   * another worker took over, e.g. after losing Redis for longer than the
+   * lease, is stopped here, since that worker now considers it its own.
+   */
+  private async renewLeases(): Promise<void> {
+    const leaseMs = config.cluster.leaseSeconds * 1000;
+    if (!await this.redisStore.claimWorkerId(this.workerId, this.workerToken, leaseMs)) {
+      log.error({ workerId: this.workerId }, 'Another process has taken over this worker ID');
+    }
+
+    for (const request of this.queuedRequests.values()) {
+      await this.redisStore.setQueuedRequest({ ...request, workerId: this.workerId }, leaseMs);
+    }
+
+    for (const [sessionId, claude] of this.claudeProcesses) {
+      if (await this.acquireLease(sessionId)) continue;
+
+      log.error({ sessionId }, 'Lost the lease on a running session, stopping it');
+      claude.removeAllListeners();
+      this.releaseProcess(sessionId);
+      await claude.terminate();
+    }
+  }
+
+  /**
+   * Reconcile sessions whose worker's lease has expired, because the worker
+   * died or was stopped: each is logged as ended, announced in its thread
+   * and removed from Redis. Detached sessions of a worker that shut down
+   * cleanly are left for it to reattach to.
+   */
+  async reapSessions(): Promise<string[]> {
+    const reaped: string[] = [];
+
+    for (const sessionId of await this.redisStore.getAllSessionIds()) {
+      if (this.claudeProcesses.has(sessionId) || await this.redisStore.getLeaseOwner(sessionId)) continue;
+
+      const session = await this.redisStore.getSession<Session>(sessionId);
+      if (!session || session.workerId === this.workerId) continue;
+
+      const clean = session.workerId ? await this.redisStore.hasCleanShutdown(session.workerId) : false;
+      if (clean && session.detachable) continue;
+
+      // Only one worker reaps each session
+      if (!await this.acquireLease(sessionId)) continue;
+
+      const reason: SessionEndReason = clean ? 'restart' : 'crash';
+      log.info({ sessionId, userId: session.userId, workerId: session.workerId, reason }, 'Reaping session of a gone worker');
+      this.sqliteLogger.logSessionEnd(sessionId, undefined, reason);
+      this.sqliteLogger.logMessage(sessionId, 'system', `[ended] ${reason}`);
+      await this.redisStore.markReaped(sessionId);
+      await this.cleanupSession(sessionId, session.userId);
+
+      this.emit('sessionOrphaned', {
+        id: session.id,
+        userId: session.userId,
+        userName: session.userName,
+        channelId: session.channelId,
+        threadTs: session.threadTs,
+        projectPath: session.projectPath,
+        status: 'terminated',
+        createdAt: session.createdAt,
+        claudeSessionId: session.claudeSessionId,
+        endReason: reason,
+      }, reason);
+      reaped.push(sessionId);
+    }
+
+    return reaped;
+  }
+
+  /**
+   * The user's active session: the one plain messages and session commands
+   * go to. Falls back to the most recently started session when the active
+   * one has ended.
+   */
   async getSessionForUser(userId: string): Promise<Session | null> {
-    const sessionId = await this.redisStore.getSessionIdForUser(userId);
+    const sessions = await this.listSessionsForUser(userId);
+    if (sessions.length === 0) return null;
+
+    const activeId = await this.redisStore.getActiveSessionId(userId);
+    const active = sessions.find(session => session.id === activeId);
+    if (active) return active;
+
+    const latest = sessions[sessions.length - 1]!;
+    await this.redisStore.setActiveSessionId(userId, latest.id);
+    return latest;
+  }
+
+  /**
+   * All running sessions of the user, oldest first
+   */
+  async listSessionsForUser(userId: string): Promise<Session[]> {
+    const sessions: Session[] = [];
+
+    for (const sessionId of await this.redisStore.getSessionIdsForUser(userId)) {
+      const session = await this.redisStore.getSession<Session>(sessionId);
+
+      // Check if process is still alive, here or on another worker
+      if (!session || !await this.isLive(sessionId)) {
+        // Clean up dead session
+        await this.cleanupSession(sessionId, userId);
+        continue;
+      }
+
+      sessions.push(session);
+    }
+
+    return sessions.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * The running session a Slack thread belongs to
+   */
+  async getSessionForThread(channelId: string, threadTs: string): Promise<Session | null> {
+    const sessionId = await this.redisStore.getThreadSession(channelId, threadTs);
     if (!sessionId) return null;
 
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      // Left behind by a session that is gone, unless it is only asleep
+      const stored = await this.redisStore.getSession<Session>(sessionId);
+      if (stored?.status !== 'hibernated') {
+        await this.redisStore.deleteThreadSession(channelId, threadTs, sessionId);
+      }
+    }
+    return session;
+  }
+
+  /**
+   * The hibernated session a Slack thread belongs to, which a message in the
+   * thread can wake
+   */
+  async getHibernatedSessionForThread(channelId: string, threadTs: string): Promise<Session | null> {
+    const sessionId = await this.redisStore.getThreadSession(channelId, threadTs);
+    if (!sessionId || this.claudeProcesses.has(sessionId)) return null;
+
     const session = await this.redisStore.getSession<Session>(sessionId);
+    return session?.status === 'hibernated' ? session : null;
+  }
+
+  /**
+   * The user's hibernated sessions, most recently hibernated first
+   */
+  async listHibernatedSessionsForUser(userId: string): Promise<Session[]> {
+    const sessions: Session[] = [];
+
+    for (const sessionId of await this.redisStore.getHibernatedSessionIdsForUser(userId)) {
+      const session = await this.redisStore.getSession<Session>(sessionId);
+      if (session?.status !== 'hibernated') {
+        // Expired, or woken meanwhile
+        if (!session) await this.redisStore.wakeSession(sessionId, userId);
+        continue;
+      }
+      sessions.push(session);
+    }
+
+    return sessions.sort((a, b) => (b.hibernatedAt ?? '').localeCompare(a.hibernatedAt ?? ''));
+  }
+
+  /**
+   * Whether the user may start another session in their default project,
+   * which is where sessions started by a plain message run
+   */
+  async canStartDefaultSession(userId: string): Promise<boolean> {
+    const sessions = await this.listSessionsForUser(userId);
+    const defaultPath = this.projectManager.getUserProjectDir(userId);
+    return sessions.length < config.claude.maxSessionsPerUser
+      && !sessions.some(session => session.projectPath === defaultPath);
+  }
+
+  /**
+   * Find one of the user's sessions by ID, or by project name, or the
+   * active one when no target is given
+   */
+  async findSessionForUser(userId: string, target?: string): Promise<Session | null> {
+    if (!target) {
+      return this.getSessionForUser(userId);
+    }
+
+    const sessions = await this.listSessionsForUser(userId);
+    return sessions.find(session => session.id === target)
+      ?? sessions.find(session => path.basename(session.projectPath) === target)
+      ?? null;
+  }
+
+  /**
+   * A session the user may act on: the one given by ID if they own it or
+   * are a member with enough access, otherwise their active session
+   */
+  private async findSessionForMember(
+    userId: string,
+    sessionId: string | undefined,
+    access: 'view' | 'drive'
+  ): Promise<Session | null> {
+    if (!sessionId) {
+      return this.getSessionForUser(userId);
+    }
+
+    const session = await this.getSession(sessionId);
     if (!session) return null;
 
-    // Check if process is still alive
-    const process = this.claudeProcesses.get(sessionId);
-    if (!process || !process.isAlive()) {
-      // Clean up dead session
-      await this.cleanupSession(sessionId, userId);
+    const role = sessionRole(session, userId);
+    if (!role || (access === 'drive' && role === 'observer')) {
       return null;
     }
+    return session;
+  }
+
+  /**
+   * Let a teammate drive or observe one of the owner's sessions. Inviting
+   * someone who is already a member changes their role.
+   */
+  async inviteMember(
+    ownerId: string,
+    memberId: string,
+    role: SessionRole,
+    sessionId?: string
+  ): Promise<Session | null> {
+    const session = await this.findSessionForUser(ownerId, sessionId);
+    if (!session) return null;
+
+    const owner = await this.remoteOwner(session.id);
+    if (owner) {
+      return this.bus.call<Session | null>(owner, 'inviteMember', [ownerId, memberId, role, session.id]);
+    }
+
+    const member: SessionMember = {
+      userId: memberId,
+      role,
+      invitedBy: ownerId,
+      invitedAt: new Date().toISOString(),
+    };
+    session.members = [...(session.members ?? []).filter(m => m.userId !== memberId), member];
+    await this.patchSession(session.id, { members: session.members });
+
+    log.info({ sessionId: session.id, memberId, role }, 'Member invited');
+    this.sqliteLogger.logMessage(session.id, 'system', `[invite] ${memberId} as ${role}`, ownerId);
+    this.emit('memberInvited', session, member);
+    return session;
+  }
+
+  /**
+   * Push back the inactivity timeout of a session the user may drive.
+   * Returns when the session now ends, or null without a session.
+   */
+  async extendSession(
+    userId: string,
+    sessionId: string,
+    minutes = config.claude.sessionTimeoutExtendMinutes
+  ): Promise<Date | null> {
+    const session = await this.findSessionForMember(userId, sessionId, 'drive');
+    if (!session) return null;
+
+    const owner = await this.remoteOwner(session.id);
+    if (owner) {
+      const expiresAt = await this.bus.call<string | null>(owner, 'extendSession', [userId, session.id, minutes]);
+      return expiresAt ? new Date(expiresAt) : null;
+    }
+
+    const current = this.idleDeadlines.get(session.id) ?? Date.now();
+    const deadline = Math.max(current, Date.now()) + minutes * 60 * 1000;
+    this.scheduleIdleTimeout(session, deadline);
+    // Keeps the Redis record alive as long as the session
+    await this.patchSession(session.id, {});
+
+    log.info({ sessionId: session.id, userId, minutes }, 'Extended session');
+    this.sqliteLogger.logMessage(session.id, 'system', `[extend] ${minutes}m`, userId);
+    return new Date(deadline);
+  }
+
+  /**
+   * Make another of the user's sessions the target of their plain messages
+   */
+  async switchSession(userId: string, target: string): Promise<Session | null> {
+    const session = await this.findSessionForUser(userId, target);
+    if (!session) return null;
+
+    await this.redisStore.setActiveSessionId(userId, session.id);
+    log.info({ sessionId: session.id, userId }, 'Switched active session');
+    return session;
+  }
+
+  async getSession(sessionId: string): Promise<Session | null> {
+    const session = await this.redisStore.getSession<Session>(sessionId);
+    if (!session) return null;
+
+    if (!await this.isLive(sessionId)) return null;
 
     return session;
   }
@@ -52,20 +496,35 @@ export class SessionManager extends EventEmitter<SessionManagerEvents> {
       throw new ClaudeCodeNotInstalledError();
     }
 
-    // Check for existing session
-    const existing = await this.getSessionForUser(opts.userId);
-    if (existing) {
-      throw new SessionExistsError(existing.id);
+    // Check how many sessions the user already runs
+    if ((await this.listSessionsForUser(opts.userId)).length >= config.claude.maxSessionsPerUser) {
+      throw new SessionLimitError(config.claude.maxSessionsPerUser);
+    }
+
+    // Resuming reattaches to an earlier conversation, which only exists in
+    // the directory it was started in
+    let conversation: Extract<ClaudeConversation, { claudeSessionId: string }> = {
+      mode: 'new',
+      claudeSessionId: randomUUID(),
+    };
+    let requestedPath = opts.projectPath;
+    if (opts.resumeFrom) {
+      const previous = this.sqliteLogger.getSessionLog(opts.resumeFrom);
+      if (!previous || previous.userId !== opts.userId || !previous.claudeSessionId) {
+        throw new ConversationNotFoundError(opts.resumeFrom);
+      }
+      conversation = { mode: 'resume', claudeSessionId: previous.claudeSessionId };
+      requestedPath = previous.projectPath;
     }
 
     // Determine project path
     let projectPath: string;
-    if (opts.projectPath) {
-      const validated = this.projectManager.validateProjectPath(opts.projectPath, opts.userId);
+    if (requestedPath) {
+      const validated = this.projectManager.validateProjectPath(requestedPath, opts.userId);
       if (!validated) {
         // Fall back to user's default directory
         projectPath = this.projectManager.getUserProjectDir(opts.userId);
-        log.warn({ userId: opts.userId, requestedPath: opts.projectPath }, 'Invalid project path, using default');
+        log.warn({ userId: opts.userId, requestedPath }, 'Invalid project path, using default');
       } else {
         projectPath = validated;
       }
@@ -73,140 +532,829 @@ export class SessionManager extends EventEmitter<SessionManagerEvents> {
       projectPath = this.projectManager.getUserProjectDir(opts.userId);
     }
 
+    await this.assertCanStart(opts.userId, projectPath);
+
+    const settings = resolveSessionSettings(opts.settings ?? {}, {
+      projectPath,
+      userProjectDir: this.projectManager.getUserProjectDir(opts.userId),
+    });
+
+    // Wait for room on the host and in the user's team; the user's other
+    // sessions may have changed meanwhile
+    const sessionId = nanoid();
+    const request = { sessionId, userId: opts.userId, channelId: opts.channelId, threadTs: opts.messageTs };
+    if (await this.acquireSlot(request)) {
+      try {
+        await this.assertCanStart(opts.userId, projectPath);
+      } catch (err) {
+        this.capacity.release(sessionId);
+        throw err;
+      }
+    }
+
+    const backend = opts.backend ?? config.claude.backend;
     const session: Session = {
-      id: nanoid(),
+      id: sessionId,
       userId: opts.userId,
       userName: opts.userName,
       channelId: opts.channelId,
       threadTs: opts.messageTs,
       projectPath,
+      backend,
+      // Resumable straight away only when it continues an earlier conversation
+      claudeSessionId: conversation.mode === 'resume' ? conversation.claudeSessionId : undefined,
+      pendingClaudeSessionId: conversation.mode === 'new' ? conversation.claudeSessionId : undefined,
+      settings,
+      sandbox: sandboxOptionsFor(projectPath),
+      detachable: config.claude.detach.enabled && backend === 'pty',
+      workerId: this.workerId,
+      idleTimeoutMinutes: idleTimeoutMinutes(opts.userId, projectPath),
       status: 'starting',
       createdAt: new Date().toISOString(),
       lastActivityAt: new Date().toISOString(),
     };
 
-    log.info({ sessionId: session.id, userId: opts.userId, projectPath }, 'Creating session');
+    log.info({ sessionId: session.id, userId: opts.userId, projectPath, backend: session.backend }, 'Creating session');
 
-    // Log to SQLite BEFORE spawning (to avoid FK constraint errors if Claude exits quickly)
-    this.sqliteLogger.logSessionStart({
-      id: session.id,
-      userId: session.userId,
-      userName: session.userName,
-      channelId: session.channelId,
-      threadTs: session.threadTs,
-      projectPath: session.projectPath,
-    });
+    try {
+      // Taken before the session is visible, so no other worker reaps it meanwhile
+      await this.acquireLease(session.id);
 
-    // Store session in Redis
-    const ttlSeconds = config.claude.sessionTimeoutMinutes * 60;
-    await this.redisStore.setSession(session.id, opts.userId, session, ttlSeconds);
+      // Log to SQLite BEFORE spawning (to avoid FK constraint errors if Claude exits quickly)
+      this.sqliteLogger.logSessionStart({
+        id: session.id,
+        userId: session.userId,
+        userName: session.userName,
+        channelId: session.channelId,
+        threadTs: session.threadTs,
+        projectPath: session.projectPath,
+        claudeSessionId: session.claudeSessionId,
+      });
+
+      // Store session in Redis
+      await this.redisStore.setSession(session.id, opts.userId, session, this.sessionTtl(session));
+      // Replies in the session's thread are routed to it
+      await this.redisStore.setThreadSession(session.channelId, session.threadTs, session.id);
+    } catch (err) {
+      this.capacity.release(session.id);
+      await this.redisStore.releaseLease(session.id, this.workerId);
+      throw err;
+    }
 
     // Spawn Claude Code process
-    const claude = new ClaudeCodeWrapper({
+    const claude = createClaudeProcess(session.backend, {
       sessionId: session.id,
       projectPath: session.projectPath,
+      startupTimeoutMs: config.claude.startupTimeoutSeconds * 1000,
+      conversation,
+      settings,
+      limits: config.claude.limits,
+      sandbox: session.sandbox,
+      detachable: session.detachable,
     });
 
     // Wire up events before spawning
+    this.wireProcess(session, claude);
+
+    // Register before spawning: startup waits for the input prompt, and the
+    // session must stay visible (and accept queued input) meanwhile
+    this.claudeProcesses.set(session.id, claude);
+
+    try {
+      await claude.spawn();
+    } catch (err) {
+      log.error({ err, sessionId: session.id }, 'Failed to spawn Claude Code');
+      // Clean up the session we just created
+      claude.removeAllListeners('exit');
+      this.sqliteLogger.logSessionEnd(session.id);
+      await this.cleanupSession(session.id, opts.userId);
+      throw err;
+    }
+
+    // Set up session timeout
+    this.resetSessionTimeout(session);
+    this.startSessionDeadline(session);
+
+    // A new session becomes the target of the user's plain messages
+    await this.redisStore.setActiveSessionId(opts.userId, session.id);
+
+    session.status = claude.getStatus() === 'ready' ? 'idle' : 'starting';
+    this.emit('sessionCreated', session);
+
+    return session;
+  }
+
+  /**
+   * Reject a session the user may not start: one over their own limit, or a
+   * second one in the same project
+   */
+  private async assertCanStart(userId: string, projectPath: string): Promise<void> {
+    const existing = await this.listSessionsForUser(userId);
+    // Requests waiting in line on any worker count too, so one user cannot fill the line
+    const waiting = await this.redisStore.getQueuedRequestsForUser<StoredQueuedRequest>(userId);
+    if (existing.length + waiting.length >= config.claude.maxSessionsPerUser) {
+      throw new SessionLimitError(config.claude.maxSessionsPerUser);
+    }
+
+    // Two sessions in one directory would edit the same files and transcripts
+    const sameProject = existing.find(session => session.projectPath === projectPath);
+    if (sameProject) {
+      throw new SessionExistsError(sameProject.id);
+    }
+  }
+
+  /**
+   * Take a capacity slot for a new session, announcing its place in line
+   * while it waits. Returns whether it had to wait.
+   */
+  private async acquireSlot(request: QueuedSessionRequest): Promise<boolean> {
+    const { sessionId, userId } = request;
+
+    let queued = false;
+    try {
+      await this.capacity.acquire(sessionId, userId, position => {
+        if (!queued) {
+          queued = true;
+          this.queuedRequests.set(sessionId, request);
+          this.redisStore.setQueuedRequest({ ...request, workerId: this.workerId }, config.cluster.leaseSeconds * 1000)
+            .catch(err => log.error({ err, sessionId }, 'Failed to record queued session request'));
+          log.info({ sessionId, userId, position }, 'Session request queued for capacity');
+        }
+        this.emit('sessionQueued', request, position);
+      });
+    } catch (err) {
+      await this.forgetQueuedRequest(request);
+      this.emit('sessionRequestCancelled', request);
+      throw err;
+    }
+
+    if (queued) {
+      await this.forgetQueuedRequest(request);
+      this.emit('sessionDequeued', request);
+    }
+    return queued;
+  }
+
+  // The Redis record expires with the lease anyway, so failing to remove it is not fatal
+  private async forgetQueuedRequest(request: QueuedSessionRequest): Promise<void> {
+    if (!this.queuedRequests.delete(request.sessionId)) return;
+    try {
+      await this.redisStore.deleteQueuedRequest(request);
+    } catch (err) {
+      log.error({ err, sessionId: request.sessionId }, 'Failed to remove queued session request');
+    }
+  }
+
+  /**
+   * Withdraw the user's request waiting in line for a session in the thread,
+   * on whichever worker it waits. Its createSession call rejects with
+   * SessionRequestCancelledError. Returns false when the user has no request
+   * waiting there.
+   */
+  async cancelQueuedSession(userId: string, channelId: string, threadTs: string): Promise<boolean> {
+    for (const request of this.queuedRequests.values()) {
+      if (request.userId === userId && request.channelId === channelId && request.threadTs === threadTs) {
+        log.info({ sessionId: request.sessionId, userId }, 'Cancelling queued session request');
+        return this.capacity.cancel(request.sessionId);
+      }
+    }
+
+    const queued = await this.redisStore.getQueuedRequestForThread<StoredQueuedRequest>(channelId, threadTs);
+    if (!queued || queued.userId !== userId || queued.workerId === this.workerId) return false;
+    return this.bus.call<boolean>(queued.workerId, 'cancelQueuedSession', [userId, channelId, threadTs]);
+  }
+
+  /**
+   * Whether a session for the thread is waiting in line for a slot on any worker
+   */
+  async isThreadQueued(channelId: string, threadTs: string): Promise<boolean> {
+    for (const request of this.queuedRequests.values()) {
+      if (request.channelId === channelId && request.threadTs === threadTs) return true;
+    }
+    return await this.redisStore.getQueuedRequestForThread(channelId, threadTs) !== null;
+  }
+
+  /**
+   * Hold a message until its author picks a session for it. Any worker can
+   * pick it up, since the click may reach another one.
+   */
+  async holdMessage(channelId: string, threadTs: string, message: HeldMessage, ttlSeconds: number): Promise<void> {
+    await this.redisStore.setHeldMessage(channelId, threadTs, message, ttlSeconds);
+  }
+
+  async getHeldMessage(channelId: string, threadTs: string): Promise<HeldMessage | null> {
+    return this.redisStore.getHeldMessage<HeldMessage>(channelId, threadTs);
+  }
+
+  async releaseHeldMessage(channelId: string, threadTs: string): Promise<void> {
+    await this.redisStore.deleteHeldMessage(channelId, threadTs);
+  }
+
+  /**
+   * Forward a Claude process's events to the session layer
+   */
+  private wireProcess(session: Session, claude: ClaudeBackendProcess): void {
+    const redactor = new Redactor();
+    this.redactors.set(session.id, redactor);
+
     claude.on('output', (text) => {
       this.handleOutput(session, text);
     });
 
-    claude.on('toolUsePrompt', (text) => {
+    claude.on('toolUsePrompt', (rawRequest, promptId) => {
+      const request = redactor.redactValue(rawRequest);
+      this.updateSessionStatus(session.id, 'waiting_input');
+      this.sqliteLogger.logMessage(
+        session.id,
+        'system',
+        `[permission] ${request.toolName ?? 'unknown'} ${request.target ?? ''}`.trim()
+      );
+      this.emit('toolUsePrompt', session, request, promptId);
+    });
+
+    claude.on('menu', (menu) => {
       this.updateSessionStatus(session.id, 'waiting_input');
-      this.emit('toolUsePrompt', session, text);
+      this.emit('menu', session, redactor.redactValue(menu));
+    });
+
+    claude.on('toolUse', (rawToolUse) => {
+      const toolUse = redactor.redactValue(rawToolUse);
+      this.sqliteLogger.logMessage(session.id, 'claude', `[tool_use] ${toolUse.name} ${JSON.stringify(toolUse.input)}`);
+      this.emit('toolUse', session, toolUse);
+    });
+
+    claude.on('toolResult', (toolResult) => {
+      this.emit('toolResult', session, redactor.redactValue(toolResult));
+    });
+
+    claude.on('result', (result) => {
+      this.emit('result', session, redactor.redactValue(result));
+    });
+
+    claude.on('conversationId', (claudeSessionId) => {
+      session.claudeSessionId = claudeSessionId;
+      delete session.pendingClaudeSessionId;
+      this.sqliteLogger.setClaudeSessionId(session.id, claudeSessionId);
+      this.patchSession(session.id, { claudeSessionId, pendingClaudeSessionId: undefined })
+        .catch(err => log.error({ err, sessionId: session.id }, 'Failed to record Claude conversation ID'));
     });
 
     claude.on('exit', (code) => {
-      this.handleProcessExit(session.id, opts.userId, code);
+      this.handleProcessExit(session.id, session.userId, code);
+    });
+
+    // Only logged: a process that died also reports its exit, and an unhandled
+    // 'error' event would take down the bot
+    claude.on('error', (err) => {
+      log.error({ err, sessionId: session.id }, 'Claude process error');
     });
 
     claude.on('ready', () => {
-      this.updateSessionStatus(session.id, 'active');
+      this.updateSessionStatus(session.id, 'idle');
+      this.dispatchQueuedInput(session);
+    });
+
+    claude.on('turnComplete', (summary) => {
+      this.clearTimer(this.turnDeadlineTimers, session.id);
+      this.updateSessionStatus(session.id, 'idle');
+      this.sqliteLogger.logMessage(
+        session.id,
+        'system',
+        `[turn_complete] ${summary.durationMs}ms, ${summary.outputChars} chars`
+      );
+      this.emit('turnComplete', session, summary);
+      this.dispatchQueuedInput(session);
     });
+  }
+
+  /**
+   * Respawn a hibernated session that the user may drive, resuming its
+   * conversation in its project with its settings. Waits in line like a new
+   * session when the host or team is full. Returns null when there is no
+   * such session.
+   */
+  async wakeSession(userId: string, sessionId: string): Promise<Session | null> {
+    const pending = this.waking.get(sessionId);
+    if (pending) return pending;
+
+    const waking = this.respawnHibernated(userId, sessionId)
+      .finally(() => this.waking.delete(sessionId));
+    this.waking.set(sessionId, waking);
+    return waking;
+  }
+
+  private async respawnHibernated(userId: string, sessionId: string): Promise<Session | null> {
+    const stored = await this.redisStore.getSession<Session>(sessionId);
+    if (stored?.status !== 'hibernated' || !stored.claudeSessionId || !canDrive(stored, userId)) {
+      return null;
+    }
+
+    // Limits apply to the owner, whose session it stays
+    await this.assertCanStart(stored.userId, stored.projectPath);
+    const request = { sessionId, userId: stored.userId, channelId: stored.channelId, threadTs: stored.threadTs };
+    if (await this.acquireSlot(request)) {
+      try {
+        await this.assertCanStart(stored.userId, stored.projectPath);
+      } catch (err) {
+        this.capacity.release(sessionId);
+        throw err;
+      }
+    }
+
+    // Another worker may be waking it at the same time: the one that takes
+    // the lease does, and the other hands over to it
+    const current = await this.acquireLease(sessionId)
+      ? await this.redisStore.getSession<Session>(sessionId)
+      : null;
+    if (current?.status !== 'hibernated') {
+      this.capacity.release(sessionId);
+      if (current) await this.redisStore.releaseLease(sessionId, this.workerId);
+      return this.getSession(sessionId);
+    }
+
+    const session: Session = {
+      ...current,
+      workerId: this.workerId,
+      status: 'starting',
+      resumedAt: new Date().toISOString(),
+      lastActivityAt: new Date().toISOString(),
+    };
+
+    log.info({ sessionId, userId }, 'Waking hibernated session');
 
     try {
-      await claude.spawn();
+      await this.redisStore.wakeSession(sessionId, session.userId);
+      await this.redisStore.setSession(sessionId, session.userId, session, this.sessionTtl(session));
+      this.sqliteLogger.setSessionStatus(sessionId, 'active');
+      this.sqliteLogger.logMessage(sessionId, 'system', '[wake]', userId);
     } catch (err) {
-      log.error({ err, sessionId: session.id }, 'Failed to spawn Claude Code');
-      // Clean up the session we just created
-      await this.cleanupSession(session.id, opts.userId);
+      this.capacity.release(sessionId);
+      await this.redisStore.releaseLease(sessionId, this.workerId);
       throw err;
     }
 
-    this.claudeProcesses.set(session.id, claude);
+    const claude = createClaudeProcess(session.backend, {
+      sessionId,
+      projectPath: session.projectPath,
+      startupTimeoutMs: config.claude.startupTimeoutSeconds * 1000,
+      conversation: { mode: 'resume', claudeSessionId: stored.claudeSessionId },
+      settings: session.settings,
+      limits: config.claude.limits,
+      sandbox: session.sandbox,
+      detachable: session.detachable,
+    });
 
-    // Set up session timeout
-    this.resetSessionTimeout(session.id, opts.userId);
+    this.wireProcess(session, claude);
+    this.claudeProcesses.set(sessionId, claude);
 
-    session.status = 'active';
-    this.emit('sessionCreated', session);
+    try {
+      await claude.spawn();
+    } catch (err) {
+      log.error({ err, sessionId }, 'Failed to respawn hibernated session');
+      claude.removeAllListeners('exit');
+      this.sqliteLogger.logSessionEnd(sessionId);
+      await this.cleanupSession(sessionId, session.userId);
+      throw err;
+    }
+
+    this.resetSessionTimeout(session);
+    this.startSessionDeadline(session);
+    await this.redisStore.setActiveSessionId(session.userId, sessionId);
 
+    session.status = claude.getStatus() === 'ready' ? 'idle' : 'starting';
     return session;
   }
 
-  async sendInput(userId: string, text: string): Promise<void> {
-    const session = await this.getSessionForUser(userId);
+  /**
+   * Stop an idle session's process but keep what it takes to bring it back:
+   * its record, including the conversation, project and settings, and its
+   * thread binding
+   */
+  private async hibernateSession(session: Session): Promise<void> {
+    const claude = this.claudeProcesses.get(session.id);
+    if (!claude) return;
+
+    log.info({ sessionId: session.id, userId: session.userId }, 'Hibernating session');
+
+    // Its status updates and exit must not touch the record kept for waking,
+    // which is stored first so nothing takes the stopping process for a dead session
+    claude.removeAllListeners();
+    const hibernated: Session = {
+      ...(await this.redisStore.getSession<Session>(session.id) ?? session),
+      status: 'hibernated',
+      hibernatedAt: new Date().toISOString(),
+    };
+    await this.redisStore.hibernateSession(
+      session.id,
+      session.userId,
+      hibernated,
+      config.claude.hibernation.ttlHours * 60 * 60
+    );
+
+    await claude.terminate();
+    this.releaseProcess(session.id);
+    await this.redisStore.releaseLease(session.id, this.workerId);
+
+    this.sqliteLogger.setSessionStatus(session.id, 'hibernated');
+    this.sqliteLogger.logMessage(session.id, 'system', '[hibernate]');
+
+    this.emit('sessionHibernated', hibernated);
+  }
+
+  /**
+   * End one of the user's hibernated sessions for good, given its ID
+   */
+  private async discardHibernatedSession(userId: string, sessionId: string): Promise<boolean> {
+    const session = await this.redisStore.getSession<Session>(sessionId);
+    if (session?.status !== 'hibernated' || session.userId !== userId) return false;
+
+    log.info({ sessionId, userId }, 'Discarding hibernated session');
+    this.sqliteLogger.logSessionEnd(sessionId);
+    await this.redisStore.deleteThreadSession(session.channelId, session.threadTs, sessionId);
+    await this.redisStore.deleteSession(sessionId, userId);
+    return true;
+  }
+
+  /**
+   * Pick up the detachable sessions the previous ClaudeWire process left
+   * running in tmux. Sessions whose CLI is gone are ended; tmux sessions no
+   * stored session points to are killed.
+   */
+  async reattachSessions(): Promise<Session[]> {
+    if (!config.claude.detach.enabled) return [];
+
+    const reattached: Session[] = [];
+    const known = new Set<string>();
+
+    for (const sessionId of await this.redisStore.getAllSessionIds()) {
+      const session = await this.redisStore.getSession<Session>(sessionId);
+      // Other workers' sessions run in their own tmux servers
+      if (!session?.detachable || (session.workerId ?? this.workerId) !== this.workerId) continue;
+      // A worker that holds the lease instead has taken the session over
+      if (!this.claudeProcesses.has(sessionId) && !await this.acquireLease(sessionId)) continue;
+      known.add(sessionId);
+      if (this.claudeProcesses.has(sessionId)) continue;
+
+      const claude = createClaudeProcess(session.backend, {
+        sessionId: session.id,
+        projectPath: session.projectPath,
+        startupTimeoutMs: config.claude.startupTimeoutSeconds * 1000,
+        // Still confirmed by the first turn when none has gone through yet
+        conversation: session.pendingClaudeSessionId
+          ? { mode: 'new', claudeSessionId: session.pendingClaudeSessionId }
+          : undefined,
+        settings: session.settings,
+        limits: config.claude.limits,
+        sandbox: session.sandbox,
+        detachable: true,
+        reattach: true,
+      });
+
+      this.wireProcess(session, claude);
+      this.claudeProcesses.set(session.id, claude);
+      // Already running, so it counts against the caps even if over them
+      this.capacity.claim(session.id, session.userId);
+
+      try {
+        await claude.spawn();
+      } catch (err) {
+        // Left for reconcileSessions, which records and announces the end
+        log.warn({ err, sessionId }, 'Could not reattach to session');
+        claude.removeAllListeners('exit');
+        await this.cleanupSession(session.id, session.userId);
+        continue;
+      }
+
+      this.resetSessionTimeout(session);
+      this.startSessionDeadline(session);
+
+      session.status = claude.getStatus() === 'busy' ? 'working' : 'idle';
+      await this.patchSession(session.id, { status: session.status });
+
+      log.info({ sessionId, userId: session.userId }, 'Reattached to session');
+      reattached.push(session);
+      this.emit('sessionReattached', session);
+    }
+
+    for (const sessionId of listTmuxSessions()) {
+      if (!known.has(sessionId)) {
+        log.warn({ sessionId }, 'Killing tmux session without a stored session');
+        killDetachedProcess(sessionId);
+      }
+    }
+
+    return reattached;
+  }
+
+  /**
+   * Tidy up after this worker's previous process, once detachable sessions
+   * have been reattached: sessions SQLite still has as active but that have
+   * no live process, here or on another worker, are logged as ended and
+   * announced in their threads, and Redis forgets everything that points at
+   * them.
+   */
+  async reconcileSessions(): Promise<SessionLogEntry[]> {
+    const reason: SessionEndReason = await this.redisStore.takeCleanShutdown(this.workerId) ? 'restart' : 'crash';
+
+    // Sessions other workers run are theirs, even with a shared database
+    const orphaned: SessionLogEntry[] = [];
+    for (const entry of this.sqliteLogger.getActiveSessions()) {
+      if (!await this.isLive(entry.id)) orphaned.push(entry);
+    }
+
+    for (const entry of orphaned) {
+      log.info({ sessionId: entry.id, userId: entry.userId, reason }, 'Ending orphaned session');
+      this.sqliteLogger.logSessionEnd(entry.id, undefined, reason);
+      this.sqliteLogger.logMessage(entry.id, 'system', `[ended] ${reason}`);
+      // Another worker may have announced it already, once its lease expired
+      if (!await this.redisStore.wasReaped(entry.id)) {
+        this.emit('sessionOrphaned', entry, reason);
+      }
+    }
+
+    const live = new Set<string>();
+    for (const sessionId of await this.redisStore.getAllSessionIds()) {
+      if (await this.isLive(sessionId)) live.add(sessionId);
+    }
+    const pruned = await this.redisStore.pruneSessions(
+      live,
+      new Set(await this.redisStore.getAllHibernatedSessionIds())
+    );
+    if (orphaned.length > 0 || pruned.length > 0) {
+      log.info({ orphaned: orphaned.length, pruned: pruned.length, reason }, 'Reconciled sessions');
+    }
+
+    return orphaned;
+  }
+
+  /**
+   * Earlier sessions of the user whose conversation can be resumed, newest first
+   */
+  getResumableSessions(userId: string, limit = 10): SessionLogEntry[] {
+    return this.sqliteLogger
+      .getSessionHistory(userId, limit * 2)
+      .filter(entry => entry.claudeSessionId && entry.status !== 'hibernated' && !this.claudeProcesses.has(entry.id))
+      .slice(0, limit);
+  }
+
+  /**
+   * Send a message to a session the user may drive: the given one, or their
+   * active session. If Claude is busy (mid-turn or on a
+   * prompt) or other messages are already waiting, the message is queued and
+   * delivered when the current turn completes. Urgent messages jump the queue
+   * and interrupt the running turn.
+   */
+  async sendInput(
+    userId: string,
+    text: string,
+    opts: { urgent?: boolean; sessionId?: string } = {}
+  ): Promise<SendInputResult> {
+    const session = await this.findSessionForMember(userId, opts.sessionId, 'drive');
     if (!session) {
       throw new NoSessionError(userId);
     }
 
+    const owner = await this.remoteOwner(session.id);
+    if (owner) {
+      return this.bus.call<SendInputResult>(owner, 'sendInput', [userId, text, { ...opts, sessionId: session.id }]);
+    }
+
     const claude = this.claudeProcesses.get(session.id);
     if (!claude || !claude.isAlive()) {
       throw new NoSessionError(userId);
     }
 
-    log.debug({ sessionId: session.id, inputLength: text.length }, 'Sending input to Claude');
-
-    claude.sendInput(text);
-
     // Update activity timestamp
     session.lastActivityAt = new Date().toISOString();
-    session.status = 'active';
     await this.redisStore.setSession(
       session.id,
-      userId,
+      session.userId,
       session,
-      config.claude.sessionTimeoutMinutes * 60
+      this.sessionTtl(session)
     );
 
-    // Log message
-    this.sqliteLogger.logMessage(session.id, 'user', text);
-
     // Reset timeout
-    this.resetSessionTimeout(session.id, userId);
+    this.resetSessionTimeout(session);
+
+    const queue = this.inputQueues.get(session.id) ?? [];
+    this.inputQueues.set(session.id, queue);
+
+    const item: QueuedInput = {
+      text,
+      senderId: userId,
+      queuedAt: new Date().toISOString(),
+      urgent: opts.urgent ?? false,
+    };
+
+    if (item.urgent) {
+      // Urgent input jumps the line but still takes a place in it
+      if (queue.length >= config.claude.maxQueuedInputs) {
+        throw new InputQueueFullError(session.id, config.claude.maxQueuedInputs);
+      }
+
+      queue.unshift(item);
+      if (claude.getStatus() === 'busy') {
+        log.info({ sessionId: session.id }, 'Interrupting turn for urgent input');
+        claude.sendControl('escape');
+        return { queued: true, position: 1 };
+      }
+      this.dispatchQueuedInput(session);
+      return { queued: queue.includes(item), position: queue.indexOf(item) + 1 };
+    }
+
+    if (claude.getStatus() !== 'ready' || queue.length > 0) {
+      if (queue.length >= config.claude.maxQueuedInputs) {
+        throw new InputQueueFullError(session.id, config.claude.maxQueuedInputs);
+      }
+
+      queue.push(item);
+      log.debug({ sessionId: session.id, position: queue.length }, 'Queued input while Claude is busy');
+      return { queued: true, position: queue.length };
+    }
+
+    this.deliverInput(session, claude, text, userId);
+    return { queued: false, position: 0 };
+  }
+
+  private deliverInput(session: Session, claude: ClaudeBackendProcess, text: string, senderId: string): void {
+    log.debug({ sessionId: session.id, inputLength: text.length }, 'Sending input to Claude');
+
+    claude.sendInput(text);
+    this.updateSessionStatus(session.id, 'working');
+    this.startTurnDeadline(session);
+
+    // Log message, attributed to whoever sent it
+    this.sqliteLogger.logMessage(session.id, 'user', text, senderId);
+  }
+
+  /**
+   * Deliver the next queued message if Claude is ready for it. Synchronous,
+   * so no other message can reach Claude between the check and the delivery.
+   */
+  private dispatchQueuedInput(session: Session): void {
+    const queue = this.inputQueues.get(session.id);
+    const claude = this.claudeProcesses.get(session.id);
+    if (!queue || queue.length === 0 || !claude || claude.getStatus() !== 'ready') {
+      return;
+    }
+
+    const item = queue.shift()!;
+    this.deliverInput(session, claude, item.text, item.senderId);
+    this.emit('queuedInputSent', session, item, queue.length);
+  }
+
+  async getInputQueue(userId: string, sessionId?: string): Promise<QueuedInput[] | null> {
+    const session = await this.findSessionForMember(userId, sessionId, 'view');
+    if (!session) return null;
+
+    const owner = await this.remoteOwner(session.id);
+    if (owner) {
+      return this.bus.call<QueuedInput[] | null>(owner, 'getInputQueue', [userId, session.id]);
+    }
+
+    return [...(this.inputQueues.get(session.id) ?? [])];
+  }
+
+  /**
+   * Drop all queued messages; returns how many were dropped, or null without a session
+   */
+  async clearInputQueue(userId: string, sessionId?: string): Promise<number | null> {
+    const session = await this.findSessionForMember(userId, sessionId, 'drive');
+    if (!session) return null;
+
+    const owner = await this.remoteOwner(session.id);
+    if (owner) {
+      return this.bus.call<number | null>(owner, 'clearInputQueue', [userId, session.id]);
+    }
+
+    const queue = this.inputQueues.get(session.id) ?? [];
+    const dropped = queue.length;
+    queue.length = 0;
+
+    log.info({ sessionId: session.id, dropped }, 'Cleared input queue');
+    return dropped;
   }
 
-  async sendControl(userId: string, key: 'y' | 'n' | 'escape' | 'ctrl-c'): Promise<boolean> {
-    const session = await this.getSessionForUser(userId);
+  async sendControl(userId: string, key: ClaudeControlKey, sessionId?: string): Promise<boolean> {
+    const session = await this.findSessionForMember(userId, sessionId, 'drive');
     if (!session) return false;
 
+    const owner = await this.remoteOwner(session.id);
+    if (owner) {
+      return this.bus.call<boolean>(owner, 'sendControl', [userId, key, session.id]);
+    }
+
     const claude = this.claudeProcesses.get(session.id);
     if (!claude || !claude.isAlive()) return false;
 
     log.debug({ sessionId: session.id, key }, 'Sending control key');
     claude.sendControl(key);
+    this.sqliteLogger.logMessage(session.id, 'user', `[control] ${key}`, userId);
 
     // Update activity
     session.lastActivityAt = new Date().toISOString();
     if (key === 'y' || key === 'n') {
-      session.status = 'active';
+      session.status = 'working';
+    }
+    await this.redisStore.setSession(
+      session.id,
+      session.userId,
+      session,
+      this.sessionTtl(session)
+    );
+
+    this.resetSessionTimeout(session);
+    return true;
+  }
+
+  /**
+   * Answer the session's permission prompt `promptId`. False when that
+   * prompt is no longer on screen.
+   */
+  async answerPrompt(
+    userId: string,
+    answer: PermissionAnswer,
+    promptId: string,
+    sessionId?: string
+  ): Promise<boolean> {
+    const session = await this.findSessionForMember(userId, sessionId, 'drive');
+    if (!session) return false;
+
+    const owner = await this.remoteOwner(session.id);
+    if (owner) {
+      return this.bus.call<boolean>(owner, 'answerPrompt', [userId, answer, promptId, session.id]);
+    }
+
+    const claude = this.claudeProcesses.get(session.id);
+    if (!claude || !claude.isAlive()) return false;
+
+    if (!claude.answerPrompt(answer, promptId)) return false;
+
+    log.debug({ sessionId: session.id, answer }, 'Answered permission prompt');
+    this.sqliteLogger.logMessage(session.id, 'user', `[permission] ${answer}`, userId);
+
+    session.lastActivityAt = new Date().toISOString();
+    if (answer !== 'cancel') {
+      session.status = 'working';
     }
     await this.redisStore.setSession(
       session.id,
-      userId,
+      session.userId,
       session,
-      config.claude.sessionTimeoutMinutes * 60
+      this.sessionTtl(session)
     );
 
-    this.resetSessionTimeout(session.id, userId);
+    this.resetSessionTimeout(session);
     return true;
   }
 
-  async terminateSession(userId: string): Promise<boolean> {
-    const session = await this.getSessionForUser(userId);
+  /**
+   * Pick an option (zero-based) of the menu currently shown by the session
+   */
+  async selectMenuOption(userId: string, index: number, sessionId?: string): Promise<boolean> {
+    const session = await this.findSessionForMember(userId, sessionId, 'drive');
     if (!session) return false;
 
+    const owner = await this.remoteOwner(session.id);
+    if (owner) {
+      return this.bus.call<boolean>(owner, 'selectMenuOption', [userId, index, session.id]);
+    }
+
+    const claude = this.claudeProcesses.get(session.id);
+    if (!claude || !claude.isAlive()) return false;
+
+    if (!claude.selectMenuOption(index)) return false;
+
+    log.debug({ sessionId: session.id, index }, 'Selected menu option');
+    this.sqliteLogger.logMessage(session.id, 'user', `[menu] option ${index + 1}`, userId);
+
+    session.lastActivityAt = new Date().toISOString();
+    session.status = 'working';
+    await this.redisStore.setSession(
+      session.id,
+      session.userId,
+      session,
+      this.sessionTtl(session)
+    );
+
+    this.resetSessionTimeout(session);
+    return true;
+  }
+
+  /**
+   * End one of the user's sessions, by ID or project name, or the active one
+   */
+  async terminateSession(userId: string, target?: string): Promise<boolean> {
+    const session = await this.findSessionForUser(userId, target);
+    if (!session) {
+      return target ? this.discardHibernatedSession(userId, target) : false;
+    }
+
+    const owner = await this.remoteOwner(session.id);
+    if (owner) {
+      return this.bus.call<boolean>(owner, 'terminateSession', [userId, session.id]);
+    }
+
     log.info({ sessionId: session.id, userId }, 'Terminating session');
 
     const claude = this.claudeProcesses.get(session.id);
@@ -218,25 +1366,80 @@ export class SessionManager extends EventEmitter<SessionManagerEvents> {
     return true;
   }
 
-  async getSessionStatus(userId: string): Promise<{
+  async getSessionStatus(userId: string, sessionId?: string): Promise<{
     hasSession: boolean;
     session?: Session;
     processStatus?: string;
+    usage?: ResourceUsage | null;
+    // When the session ends unless it is used or extended
+    idleExpiresAt?: Date;
   }> {
-    const session = await this.getSessionForUser(userId);
+    const session = await this.findSessionForMember(userId, sessionId, 'view');
     if (!session) {
       return { hasSession: false };
     }
 
+    const owner = await this.remoteOwner(session.id);
+    if (owner) {
+      const status = await this.bus.call<Awaited<ReturnType<SessionManager['getSessionStatus']>>>(
+        owner,
+        'getSessionStatus',
+        [userId, session.id]
+      );
+      return { ...status, idleExpiresAt: status.idleExpiresAt ? new Date(status.idleExpiresAt) : undefined };
+    }
+
     const claude = this.claudeProcesses.get(session.id);
+    const idleDeadline = this.idleDeadlines.get(session.id);
     return {
       hasSession: true,
       session,
       processStatus: claude?.getStatus() ?? 'unknown',
+      usage: claude?.getResourceUsage() ?? null,
+      idleExpiresAt: idleDeadline ? new Date(idleDeadline) : undefined,
     };
   }
 
-  private handleOutput(session: Session, text: string): void {
+  /**
+   * Snapshot of the session's terminal screen. Returns null when there is no
+   * session, and an empty string for backends without a screen.
+   */
+  async getScreen(userId: string, sessionId?: string): Promise<string | null> {
+    const session = await this.findSessionForMember(userId, sessionId, 'view');
+    if (!session) return null;
+
+    const owner = await this.remoteOwner(session.id);
+    if (owner) {
+      return this.bus.call<string | null>(owner, 'getScreen', [userId, session.id]);
+    }
+
+    const claude = this.claudeProcesses.get(session.id);
+    if (!claude || !claude.isAlive()) return null;
+
+    const screen = claude.getScreen() ?? '';
+    return this.redactors.get(session.id)?.redactSnapshot(screen) ?? screen;
+  }
+
+  /**
+   * Secrets hidden from a session's output so far, by kind
+   */
+  async getRedactionCounts(userId: string, sessionId?: string): Promise<Record<string, number>> {
+    const session = await this.findSessionForMember(userId, sessionId, 'view');
+    if (!session) return {};
+
+    const owner = await this.remoteOwner(session.id);
+    if (owner) {
+      return this.bus.call<Record<string, number>>(owner, 'getRedactionCounts', [userId, session.id]);
+    }
+
+    return this.redactors.get(session.id)?.getCounts() ?? {};
+  }
+
+  private handleOutput(session: Session, rawText: string): void {
+    const text = this.redactors.get(session.id)?.redact(rawText) ?? rawText;
+    // Nothing left when the whole chunk was inside a private key block
+    if (!text) return;
+
     // Log Claude's output
     this.sqliteLogger.logMessage(session.id, 'claude', text);
 
@@ -245,80 +1448,244 @@ export class SessionManager extends EventEmitter<SessionManagerEvents> {
   }
 
   private async handleProcessExit(sessionId: string, userId: string, exitCode: number): Promise<void> {
-    log.info({ sessionId, exitCode }, 'Claude process exited');
+    // Kept past cleanup: a CLI that needed force-killing exits after it
+    const reason = this.endReasons.get(sessionId);
+    this.endReasons.delete(sessionId);
+    log.info({ sessionId, exitCode, reason }, 'Claude process exited');
 
-    this.sqliteLogger.logSessionEnd(sessionId, exitCode);
+    this.sqliteLogger.logSessionEnd(sessionId, exitCode, reason);
     await this.cleanupSession(sessionId, userId);
 
-    this.emit('sessionTerminated', sessionId, exitCode);
+    this.emit('sessionTerminated', sessionId, exitCode, reason);
   }
 
   private async cleanupSession(sessionId: string, userId: string): Promise<void> {
+    this.releaseProcess(sessionId);
+    await this.redisStore.releaseLease(sessionId, this.workerId);
+
+    // Delete from Redis
+    const session = await this.redisStore.getSession<Session>(sessionId);
+    if (session) {
+      await this.redisStore.deleteThreadSession(session.channelId, session.threadTs, sessionId);
+    }
+    await this.redisStore.deleteSession(sessionId, userId);
+  }
+
+  /**
+   * Forget a session's process and everything kept in memory for it
+   */
+  private releaseProcess(sessionId: string): void {
     // Clear timeout
     const timeout = this.sessionTimeoutTimers.get(sessionId);
     if (timeout) {
       clearTimeout(timeout);
       this.sessionTimeoutTimers.delete(sessionId);
     }
+    this.clearTimer(this.sessionWarningTimers, sessionId);
+    this.clearTimer(this.sessionDeadlineTimers, sessionId);
+    this.clearTimer(this.turnDeadlineTimers, sessionId);
+    this.idleDeadlines.delete(sessionId);
 
     // Remove process reference
     this.claudeProcesses.delete(sessionId);
+    this.inputQueues.delete(sessionId);
+    this.capacity.release(sessionId);
 
-    // Delete from Redis
-    await this.redisStore.deleteSession(sessionId, userId);
+    const redactions = this.redactors.get(sessionId)?.getCounts() ?? {};
+    if (Object.keys(redactions).length > 0) {
+      log.info({ sessionId, redactions }, 'Secrets redacted during session');
+    }
+    this.redactors.delete(sessionId);
   }
 
   private async updateSessionStatus(sessionId: string, status: Session['status']): Promise<void> {
+    await this.patchSession(sessionId, { status });
+  }
+
+  private async patchSession(sessionId: string, patch: Partial<Session>): Promise<void> {
     const session = await this.redisStore.getSession<Session>(sessionId);
-    if (session) {
-      session.status = status;
+    // A session hibernated or ended meanwhile keeps the record it was left with
+    if (session && this.claudeProcesses.has(sessionId)) {
+      Object.assign(session, patch);
       session.lastActivityAt = new Date().toISOString();
       await this.redisStore.setSession(
         sessionId,
         session.userId,
         session,
-        config.claude.sessionTimeoutMinutes * 60
+        this.sessionTtl(session)
       );
     }
   }
 
-  private resetSessionTimeout(sessionId: string, userId: string): void {
-    // Clear existing timeout
-    const existing = this.sessionTimeoutTimers.get(sessionId);
-    if (existing) {
-      clearTimeout(existing);
+  /**
+   * How long Redis keeps a session's record: at least until it would end
+   * for inactivity
+   */
+  private sessionTtl(session: Session): number {
+    const deadline = this.idleDeadlines.get(session.id);
+    const remainingSeconds = deadline ? Math.ceil((deadline - Date.now()) / 1000) : 0;
+    const timeoutSeconds = (session.idleTimeoutMinutes ?? config.claude.sessionTimeoutMinutes) * 60;
+    return Math.max(timeoutSeconds, remainingSeconds);
+  }
+
+  private resetSessionTimeout(session: Session): void {
+    const minutes = session.idleTimeoutMinutes ?? config.claude.sessionTimeoutMinutes;
+    this.scheduleIdleTimeout(session, Date.now() + minutes * 60 * 1000);
+  }
+
+  /**
+   * End the session at `deadline` (epoch ms) unless it is used first, and
+   * warn its thread a few minutes before
+   */
+  private scheduleIdleTimeout(session: Session, deadline: number): void {
+    this.clearTimer(this.sessionTimeoutTimers, session.id);
+    this.clearTimer(this.sessionWarningTimers, session.id);
+    this.idleDeadlines.set(session.id, deadline);
+
+    const warningMs = config.claude.sessionTimeoutWarningMinutes * 60 * 1000;
+    const untilWarning = deadline - warningMs - Date.now();
+    if (warningMs > 0 && untilWarning > 0) {
+      this.sessionWarningTimers.set(session.id, setTimeout(() => {
+        this.sessionWarningTimers.delete(session.id);
+        log.info({ sessionId: session.id }, 'Warning about inactivity timeout');
+        this.emit('idleWarning', session, new Date(deadline));
+      }, untilWarning));
     }
 
-    // Set new timeout
-    const timeoutMs = config.claude.sessionTimeoutMinutes * 60 * 1000;
-    const timeout = setTimeout(async () => {
-      log.info({ sessionId }, 'Session timed out');
-      const session = await this.redisStore.getSession<Session>(sessionId);
-      if (session) {
-        await this.terminateSession(userId);
+    this.sessionTimeoutTimers.set(session.id, setTimeout(async () => {
+      this.sessionTimeoutTimers.delete(session.id);
+      log.info({ sessionId: session.id }, 'Session timed out');
+      try {
+        const current = await this.redisStore.getSession<Session>(session.id);
+        if (!current) return;
+        // Waking resumes the conversation, so a session whose conversation the
+        // CLI never confirmed has nothing to wake into and just ends
+        if (config.claude.hibernation.enabled && current.claudeSessionId) {
+          await this.hibernateSession(current);
+        } else {
+          this.endReasons.set(session.id, 'idle');
+          await this.terminateSession(current.userId, session.id);
+        }
+      } catch (err) {
+        log.error({ err, sessionId: session.id }, 'Failed to stop timed out session');
+      }
+    }, Math.max(0, deadline - Date.now())));
+  }
+
+  /**
+   * End the session once it reaches the configured maximum wall time,
+   * counted from when it was created or last woken so a reattach does not
+   * restart it
+   */
+  private startSessionDeadline(session: Session): void {
+    const minutes = config.claude.limits.maxSessionMinutes;
+    if (!minutes) return;
+
+    const elapsedMs = Date.now() - new Date(session.resumedAt ?? session.createdAt).getTime();
+
+    const timer = setTimeout(async () => {
+      log.warn({ sessionId: session.id, minutes }, 'Session reached its time limit');
+      this.emit('limitExceeded', session, 'session_time', minutes);
+      try {
+        await this.terminateSession(session.userId, session.id);
+      } catch (err) {
+        log.error({ err, sessionId: session.id }, 'Failed to end session at its time limit');
+      }
+    }, Math.max(0, minutes * 60 * 1000 - elapsedMs));
+
+    this.sessionDeadlineTimers.set(session.id, timer);
+  }
+
+  /**
+   * Interrupt a turn that runs longer than the configured maximum. If Claude
+   * does not stop within the grace period, the session is terminated.
+   */
+  private startTurnDeadline(session: Session): void {
+    const minutes = config.claude.limits.maxTurnMinutes;
+    if (!minutes || this.turnDeadlineTimers.has(session.id)) return;
+
+    const timer = setTimeout(() => {
+      const claude = this.claudeProcesses.get(session.id);
+      if (!claude || claude.getStatus() !== 'busy') {
+        this.turnDeadlineTimers.delete(session.id);
+        return;
       }
-    }, timeoutMs);
 
-    this.sessionTimeoutTimers.set(sessionId, timeout);
+      log.warn({ sessionId: session.id, minutes }, 'Turn reached its time limit, interrupting');
+      this.emit('limitExceeded', session, 'turn_time', minutes);
+      claude.sendControl('escape');
+
+      this.turnDeadlineTimers.set(session.id, setTimeout(async () => {
+        this.turnDeadlineTimers.delete(session.id);
+        if (claude.getStatus() === 'busy') {
+          log.warn({ sessionId: session.id }, 'Turn did not stop after interrupt, terminating session');
+          try {
+            await this.terminateSession(session.userId, session.id);
+          } catch (err) {
+            log.error({ err, sessionId: session.id }, 'Failed to end session after an over-time turn');
+          }
+        }
+      }, TURN_INTERRUPT_GRACE_MS));
+    }, minutes * 60 * 1000);
+
+    this.turnDeadlineTimers.set(session.id, timer);
+  }
+
+  private clearTimer(timers: Map<string, NodeJS.Timeout>, sessionId: string): void {
+    const timer = timers.get(sessionId);
+    if (timer) {
+      clearTimeout(timer);
+      timers.delete(sessionId);
+    }
   }
 
-  async shutdown(): Promise<void> {
-    log.info('Shutting down session manager');
+  /**
+   * Stop every session. Their records are left as they are, for the next
+   * start's reconcileSessions, which tells users in their threads; `clean`
+   * is false when shutting down because of an error.
+   */
+  async shutdown(clean = true): Promise<void> {
+    log.info({ clean }, 'Shutting down session manager');
 
     // Clear all timeouts
-    for (const timeout of this.sessionTimeoutTimers.values()) {
-      clearTimeout(timeout);
+    for (const timers of [
+      this.sessionTimeoutTimers,
+      this.sessionWarningTimers,
+      this.sessionDeadlineTimers,
+      this.turnDeadlineTimers,
+    ]) {
+      for (const timeout of timers.values()) {
+        clearTimeout(timeout);
+      }
+      timers.clear();
     }
-    this.sessionTimeoutTimers.clear();
 
-    // Terminate all processes
+    // Terminate all processes, except detachable ones, which the next
+    // ClaudeWire process reattaches to
     const terminatePromises: Promise<void>[] = [];
     for (const [sessionId, claude] of this.claudeProcesses) {
+      if (claude.detach()) {
+        log.debug({ sessionId }, 'Detached process during shutdown');
+        continue;
+      }
       log.debug({ sessionId }, 'Terminating process during shutdown');
+      claude.removeAllListeners('exit');
       terminatePromises.push(claude.terminate());
     }
 
     await Promise.allSettled(terminatePromises);
     this.claudeProcesses.clear();
+
+    // Leases are left to expire: by then the clean-shutdown record tells
+    // other workers whether to reap the sessions or leave them for reattaching
+    if (this.leaseTimer) clearInterval(this.leaseTimer);
+    if (this.reapTimer) clearInterval(this.reapTimer);
+    await this.bus.stop();
+
+    if (clean) {
+      await this.redisStore.markCleanShutdown(this.workerId);
+    }
+    // So the next process under this ID need not wait for it to expire
+    await this.redisStore.releaseWorkerId(this.workerId, this.workerToken);
   }
 }
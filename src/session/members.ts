@@ -0,0 +1,22 @@
+import { SESSION_ROLES } from './types.js';
+import type { Session, SessionRole } from './types.js';
+
+export function isSessionRole(value: string): value is SessionRole {
+  return (SESSION_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * What a user may do in a session: its owner, an invited member, or nothing
+ */
+export function sessionRole(session: Session, userId: string): 'owner' | SessionRole | null {
+  if (session.userId === userId) return 'owner';
+  return session.members?.find(member => member.userId === userId)?.role ?? null;
+}
+
+/**
+ * Whether a user may send input to the session and answer its prompts
+ */
+export function canDrive(session: Session, userId: string): boolean {
+  const role = sessionRole(session, userId);
+  return role === 'owner' || role === 'driver';
+}
@@ -0,0 +1,176 @@
+import { config } from '../config/index.js';
+import { SECRET_ENV_VARS } from '../claude/env.js';
+
+interface RedactionPattern {
+  kind: string;
+  pattern: RegExp;
+  // Replace only the secret part of the match, keeping any label before it
+  replace?: (match: string, ...groups: string[]) => string;
+}
+
+// Literals shorter than this are too likely to match ordinary text
+const MIN_LITERAL_LENGTH = 8;
+
+const PRIVATE_KEY_BEGIN = /-----BEGIN [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----/;
+const PRIVATE_KEY_END = /-----END [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----/;
+
+// Variable names that suggest a secret value; purely numeric values are left alone
+const SECRET_NAME = '[A-Za-z0-9_]*(?:SECRET|TOKEN|PASSWORD|PASSWD|PASSPHRASE|API_?KEY|ACCESS_?KEY|PRIVATE_?KEY|CREDENTIALS?|AUTH)[A-Za-z0-9_]*';
+
+// Specific formats first, so a key inside an assignment keeps its precise kind
+const PATTERNS: RedactionPattern[] = [
+  { kind: 'anthropic_key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { kind: 'openai_key', pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/g },
+  { kind: 'aws_access_key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { kind: 'github_token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g },
+  { kind: 'slack_token', pattern: /\b(?:xox[abposr]-[A-Za-z0-9-]{10,}|xapp-\d-[A-Za-z0-9-]{10,})/g },
+  { kind: 'google_api_key', pattern: /\bAIza[0-9A-Za-z_-]{35}/g },
+  { kind: 'stripe_key', pattern: /\b(?:sk|rk)_(?:live|test)_[0-9A-Za-z]{16,}/g },
+  { kind: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+  {
+    kind: 'bearer_token',
+    pattern: /\b(Bearer\s+)[A-Za-z0-9._~+/=-]{16,}/g,
+    replace: (_match, label) => `${label}[REDACTED:bearer_token]`,
+  },
+  {
+    kind: 'url_credentials',
+    pattern: /\b([a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:)[^\s@/]+@/gi,
+    replace: (_match, prefix) => `${prefix}[REDACTED:url_credentials]@`,
+  },
+  {
+    kind: 'env_assignment',
+    pattern: new RegExp(`^(\\s*(?:export\\s+)?${SECRET_NAME}\\s*=\\s*)(["']?)(?!\\[REDACTED:|\\d+\\b)([^\\s"']{4,})\\2`, 'gim'),
+    replace: (_match, label, quote) => `${label}${quote}[REDACTED:env_assignment]${quote}`,
+  },
+];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Masks secrets in Claude's output before it is stored or posted. One
+ * instance per session: it counts what it hid, and remembers an unfinished
+ * private key block so the rest of it is dropped from the following chunks.
+ */
+export class Redactor {
+  private readonly counts = new Map<string, number>();
+  private readonly literals: RegExp | null;
+  private inPrivateKey = false;
+
+  constructor(literals: string[] = config.redaction.literals) {
+    // ClaudeWire's own credentials are always masked, whatever is configured
+    const values = [
+      ...literals,
+      ...SECRET_ENV_VARS.map(name => process.env[name] ?? ''),
+    ].filter(value => value.length >= MIN_LITERAL_LENGTH);
+
+    // Longest first so a literal containing another is masked whole
+    const unique = [...new Set(values)].sort((a, b) => b.length - a.length);
+    this.literals = unique.length > 0
+      ? new RegExp(unique.map(escapeRegExp).join('|'), 'g')
+      : null;
+  }
+
+  /**
+   * Redact a chunk of streamed output
+   */
+  redact(text: string): string {
+    if (!config.redaction.enabled) return text;
+    return this.apply(text, { stream: true, counted: true });
+  }
+
+  /**
+   * Redact a standalone snapshot (such as the terminal screen) without
+   * touching the stream state or the counters
+   */
+  redactSnapshot(text: string): string {
+    if (!config.redaction.enabled) return text;
+    return this.apply(text, { stream: false, counted: false });
+  }
+
+  /**
+   * Redact every string inside a JSON-like value, such as tool input
+   */
+  redactValue<T>(value: T): T {
+    if (!config.redaction.enabled) return value;
+    if (typeof value === 'string') return this.apply(value, { stream: false, counted: true }) as T;
+    if (Array.isArray(value)) return value.map(item => this.redactValue(item)) as T;
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.redactValue(item)])
+      ) as T;
+    }
+    return value;
+  }
+
+  /**
+   * How many secrets of each kind have been hidden so far
+   */
+  getCounts(): Record<string, number> {
+    return Object.fromEntries(this.counts);
+  }
+
+  private apply(text: string, mode: { stream: boolean; counted: boolean }): string {
+    const found: string[] = [];
+    const marker = (kind: string) => {
+      found.push(kind);
+      return `[REDACTED:${kind}]`;
+    };
+
+    let result = this.redactPrivateKeys(text, mode.stream, marker);
+
+    if (this.literals) {
+      result = result.replace(this.literals, () => marker('literal'));
+    }
+
+    for (const { kind, pattern, replace } of PATTERNS) {
+      result = result.replace(pattern, (match: string, ...groups: string[]) => {
+        found.push(kind);
+        return replace ? replace(match, ...groups) : `[REDACTED:${kind}]`;
+      });
+    }
+
+    if (mode.counted) {
+      for (const kind of found) {
+        this.counts.set(kind, (this.counts.get(kind) ?? 0) + 1);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Replace whole private key blocks. In stream mode a block may span
+   * several chunks: everything after an unmatched BEGIN is dropped until
+   * the END line arrives.
+   */
+  private redactPrivateKeys(text: string, stream: boolean, marker: (kind: string) => string): string {
+    let rest = text;
+    let result = '';
+
+    if (this.inPrivateKey && stream) {
+      const end = PRIVATE_KEY_END.exec(rest);
+      if (!end) return '';
+      rest = rest.slice(end.index + end[0].length);
+      this.inPrivateKey = false;
+    }
+
+    for (;;) {
+      const begin = PRIVATE_KEY_BEGIN.exec(rest);
+      if (!begin) break;
+
+      result += rest.slice(0, begin.index) + marker('private_key');
+      rest = rest.slice(begin.index + begin[0].length);
+
+      const end = PRIVATE_KEY_END.exec(rest);
+      if (!end) {
+        if (stream) this.inPrivateKey = true;
+        return result;
+      }
+      rest = rest.slice(end.index + end[0].length);
+    }
+
+    return result + rest;
+  }
+}
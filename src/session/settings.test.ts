@@ -0,0 +1,106 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { config } from '../config/index.js';
+import { InvalidSessionSettingsError } from '../utils/errors.js';
+import type { ClaudeSessionSettings } from '../claude/types.js';
+import { resolveSessionSettings } from './settings.js';
+
+describe('resolveSessionSettings', () => {
+  let userProjectDir: string;
+  let sharedRoot: string;
+  let projectPath: string;
+
+  const resolve = (requested: ClaudeSessionSettings) =>
+    resolveSessionSettings(requested, { projectPath, userProjectDir });
+
+  const rejectedSetting = (requested: ClaudeSessionSettings): string | undefined => {
+    try {
+      resolve(requested);
+    } catch (error) {
+      expect(error).toBeInstanceOf(InvalidSessionSettingsError);
+      return (error as InvalidSessionSettingsError).context?.setting as string;
+    }
+    return undefined;
+  };
+
+  beforeAll(() => {
+    const base = fs.mkdtempSync(path.join(os.tmpdir(), 'claudewire-settings-'));
+    userProjectDir = path.join(base, 'U123');
+    projectPath = path.join(userProjectDir, 'web');
+    sharedRoot = path.join(base, 'shared');
+    fs.mkdirSync(path.join(userProjectDir, 'lib'), { recursive: true });
+    fs.mkdirSync(projectPath);
+    fs.mkdirSync(path.join(sharedRoot, 'docs'), { recursive: true });
+    fs.symlinkSync('/etc', path.join(userProjectDir, 'etc-link'));
+    fs.symlinkSync(path.join(sharedRoot, 'docs'), path.join(userProjectDir, 'docs-link'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(path.dirname(userProjectDir), { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    Object.assign(config.claude.sessionOptions, {
+      allowedModels: ['sonnet'],
+      allowedPermissionModes: ['default', 'plan'],
+      allowedTools: ['Read', 'Bash'],
+      maxSystemPromptChars: 20,
+      addDirRoots: [sharedRoot],
+    });
+  });
+
+  it('passes through settings on the allowlist', () => {
+    expect(resolve({
+      model: 'sonnet',
+      permissionMode: 'plan',
+      allowedTools: ['Read', 'Bash(git:*)'],
+      disallowedTools: ['WebFetch'],
+      appendSystemPrompt: 'Be brief.',
+      addDirs: ['../lib', path.join(sharedRoot, 'docs')],
+    })).toEqual({
+      model: 'sonnet',
+      permissionMode: 'plan',
+      allowedTools: ['Read', 'Bash(git:*)'],
+      disallowedTools: ['WebFetch'],
+      appendSystemPrompt: 'Be brief.',
+      addDirs: [path.join(userProjectDir, 'lib'), path.join(sharedRoot, 'docs')],
+    });
+  });
+
+  it('rejects a model that is not allowed', () => {
+    expect(rejectedSetting({ model: 'opus' })).toBe('model');
+  });
+
+  it('rejects a permission mode that is not allowed', () => {
+    expect(rejectedSetting({ permissionMode: 'acceptEdits' })).toBe('permissionMode');
+  });
+
+  it('rejects pre-approving a tool that is not allowed, whatever its rule', () => {
+    expect(rejectedSetting({ allowedTools: ['Read', 'Write'] })).toBe('allowedTools');
+    expect(rejectedSetting({ allowedTools: ['Write(src/**)'] })).toBe('allowedTools');
+  });
+
+  it('rejects system prompts over the limit, or any when they are disabled', () => {
+    expect(rejectedSetting({ appendSystemPrompt: 'x'.repeat(21) })).toBe('appendSystemPrompt');
+
+    config.claude.sessionOptions.maxSystemPromptChars = 0;
+    expect(rejectedSetting({ appendSystemPrompt: 'Be brief.' })).toBe('appendSystemPrompt');
+  });
+
+  it('rejects directories outside the user directory and configured roots', () => {
+    expect(rejectedSetting({ addDirs: ['../..'] })).toBe('addDirs');
+    expect(rejectedSetting({ addDirs: ['/etc'] })).toBe('addDirs');
+    expect(rejectedSetting({ addDirs: [`${sharedRoot}-other`] })).toBe('addDirs');
+  });
+
+  it('follows symlinks and rejects those that lead outside', () => {
+    expect(rejectedSetting({ addDirs: ['../etc-link'] })).toBe('addDirs');
+    expect(resolve({ addDirs: ['../docs-link'] })).toEqual({ addDirs: [path.join(sharedRoot, 'docs')] });
+  });
+
+  it('rejects directories that do not exist', () => {
+    expect(rejectedSetting({ addDirs: ['../missing'] })).toBe('addDirs');
+  });
+});
@@ -0,0 +1,119 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config/index.js';
+import { InvalidSessionSettingsError } from '../utils/errors.js';
+import { CLAUDE_PERMISSION_MODES } from '../claude/types.js';
+import type { ClaudePermissionMode, ClaudeSessionSettings } from '../claude/types.js';
+
+/**
+ * Tool name of a CLI tool rule: `Bash(git:*)` → `Bash`
+ */
+function toolName(rule: string): string {
+  const paren = rule.indexOf('(');
+  return (paren === -1 ? rule : rule.slice(0, paren)).trim();
+}
+
+/**
+ * Path with symlinks resolved, or as given when it does not exist
+ */
+function realPath(dir: string): string {
+  try {
+    return fs.realpathSync(dir);
+  } catch {
+    return dir;
+  }
+}
+
+function isWithin(dir: string, root: string): boolean {
+  const relative = path.relative(root, dir);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/**
+ * Check requested session settings against the admin allowlist in config and
+ * normalise them. Additional directories are resolved against the project
+ * directory and, following symlinks, must lie inside the user's own
+ * directory or a configured root.
+ */
+export function resolveSessionSettings(
+  requested: ClaudeSessionSettings,
+  paths: { projectPath: string; userProjectDir: string }
+): ClaudeSessionSettings {
+  const allow = config.claude.sessionOptions;
+  const settings: ClaudeSessionSettings = {};
+
+  if (requested.model) {
+    if (!allow.allowedModels.includes(requested.model)) {
+      throw new InvalidSessionSettingsError(
+        `Model \`${requested.model}\` is not allowed. Allowed models: ${allow.allowedModels.map(m => `\`${m}\``).join(', ') || 'none'}`,
+        'model'
+      );
+    }
+    settings.model = requested.model;
+  }
+
+  if (requested.permissionMode) {
+    if (!allow.allowedPermissionModes.includes(requested.permissionMode)) {
+      throw new InvalidSessionSettingsError(
+        `Permission mode \`${requested.permissionMode}\` is not allowed. Allowed modes: ${allow.allowedPermissionModes.map(m => `\`${m}\``).join(', ') || 'none'}`,
+        'permissionMode'
+      );
+    }
+    settings.permissionMode = requested.permissionMode;
+  }
+
+  if (requested.allowedTools?.length) {
+    const rejected = requested.allowedTools.filter(rule => !allow.allowedTools.includes(toolName(rule)));
+    if (rejected.length > 0) {
+      throw new InvalidSessionSettingsError(
+        `These tools cannot be pre-approved: ${rejected.map(t => `\`${t}\``).join(', ')}. Allowed tools: ${allow.allowedTools.map(t => `\`${t}\``).join(', ') || 'none'}`,
+        'allowedTools'
+      );
+    }
+    settings.allowedTools = requested.allowedTools;
+  }
+
+  if (requested.disallowedTools?.length) {
+    settings.disallowedTools = requested.disallowedTools;
+  }
+
+  if (requested.appendSystemPrompt) {
+    if (allow.maxSystemPromptChars === 0) {
+      throw new InvalidSessionSettingsError('Custom system prompts are disabled.', 'appendSystemPrompt');
+    }
+    if (requested.appendSystemPrompt.length > allow.maxSystemPromptChars) {
+      throw new InvalidSessionSettingsError(
+        `The system prompt is too long (${requested.appendSystemPrompt.length} characters, limit ${allow.maxSystemPromptChars}).`,
+        'appendSystemPrompt'
+      );
+    }
+    settings.appendSystemPrompt = requested.appendSystemPrompt;
+  }
+
+  if (requested.addDirs?.length) {
+    const roots = [paths.userProjectDir, ...allow.addDirRoots].map(root => path.resolve(root));
+    const realRoots = roots.map(realPath);
+    settings.addDirs = requested.addDirs.map((dir) => {
+      const resolved = path.resolve(paths.projectPath, dir);
+      const outside = () => new InvalidSessionSettingsError(`Directory \`${dir}\` is outside the directories you may add.`, 'addDirs');
+      if (!roots.some(root => isWithin(resolved, root))) {
+        throw outside();
+      }
+      if (!fs.existsSync(resolved) || !fs.statSync(resolved).isDirectory()) {
+        throw new InvalidSessionSettingsError(`Directory \`${dir}\` does not exist.`, 'addDirs');
+      }
+      // A symlink inside a root may point anywhere; check where it leads
+      const real = fs.realpathSync(resolved);
+      if (!realRoots.some(root => isWithin(real, root))) {
+        throw outside();
+      }
+      return real;
+    });
+  }
+
+  return settings;
+}
+
+export function isPermissionMode(value: string): value is ClaudePermissionMode {
+  return (CLAUDE_PERMISSION_MODES as readonly string[]).includes(value);
+}
@@ -1,21 +1,67 @@
-export type SessionStatus = 'starting' | 'active' | 'waiting_input' | 'terminated';
+import type {
+  ClaudeBackend,
+  ClaudeResult,
+  ClaudeSessionSettings,
+  ClaudeToolResult,
+  ClaudeToolUse,
+  SandboxOptions,
+  SelectionMenu,
+  ToolPermissionRequest,
+  TurnSummary,
+} from '../claude/types.js';
+import type { SessionEndReason, SessionLogEntry } from '../storage/sqlite.js';
+
+// idle: waiting for the next prompt; working: Claude is in the middle of a turn;
+// hibernated: stopped for inactivity, resumed by the next message in its thread
+export type SessionStatus = 'starting' | 'idle' | 'working' | 'waiting_input' | 'hibernated' | 'terminated';
+
+// driver: may send input and answer prompts; observer: may only watch
+export const SESSION_ROLES = ['driver', 'observer'] as const;
+export type SessionRole = typeof SESSION_ROLES[number];
+
+export interface SessionMember {
+  userId: string;
+  role: SessionRole;
+  invitedBy: string;
+  invitedAt: string;
+}
 
 export interface Session {
   id: string;
 
-  // User binding (private per user)
+  // Owner binding: the owner always drives and alone may invite or stop
   userId: string;
   userName: string;
+  // Teammates the owner invited
+  members?: SessionMember[];
 
   // Context
   channelId: string;
   threadTs: string;
   projectPath: string;
+  backend: ClaudeBackend;
+  // Claude Code's own conversation ID, used to resume the conversation later.
+  // Only set once the conversation exists; until then a new session's ID is pending.
+  claudeSessionId?: string;
+  pendingClaudeSessionId?: string;
+  // Validated CLI options the session was started with
+  settings: ClaudeSessionSettings;
+  // Set when the session runs in a bubblewrap jail
+  sandbox?: SandboxOptions;
+  // Runs inside tmux, so it survives a ClaudeWire restart
+  detachable?: boolean;
+  // ClaudeWire worker that last ran the session
+  workerId?: string;
+  // Inactivity timeout picked when the session started, including admin overrides
+  idleTimeoutMinutes?: number;
 
   // State
   status: SessionStatus;
   createdAt: string;
   lastActivityAt: string;
+  // When the session last went to sleep and last woke up again
+  hibernatedAt?: string;
+  resumedAt?: string;
 }
 
 export interface CreateSessionOptions {
@@ -24,8 +70,49 @@ export interface CreateSessionOptions {
   channelId: string;
   messageTs: string;
   projectPath?: string;
+  backend?: ClaudeBackend;
+  // ID of an earlier ClaudeWire session whose conversation should be resumed
+  resumeFrom?: string;
+  // Checked against the admin allowlist before the CLI is started
+  settings?: ClaudeSessionSettings;
 }
 
+// A createSession request waiting for a free slot
+export interface QueuedSessionRequest {
+  // ID the session will have once it starts
+  sessionId: string;
+  userId: string;
+  channelId: string;
+  threadTs: string;
+}
+
+/**
+ * A top-level message held until its author picks the session it is for
+ */
+export interface HeldMessage {
+  userId: string;
+  userName: string;
+  text: string;
+}
+
+export interface QueuedInput {
+  text: string;
+  // Slack user the input came from
+  senderId: string;
+  queuedAt: string;
+  urgent: boolean;
+}
+
+export interface SendInputResult {
+  // False when the input went straight to Claude
+  queued: boolean;
+  // 1-based position in the queue when queued
+  position: number;
+}
+
+// session_time: the session ran too long; turn_time: a single turn did
+export type SessionTimeLimit = 'session_time' | 'turn_time';
+
 export interface SessionOutput {
   session: Session;
   text: string;
@@ -34,6 +121,28 @@ export interface SessionOutput {
 export interface SessionManagerEvents {
   output: [data: SessionOutput];
   sessionCreated: [session: Session];
-  sessionTerminated: [sessionId: string, exitCode: number];
-  toolUsePrompt: [session: Session, text: string];
+  // The host or the user's team is at capacity; repeated whenever the place in line changes
+  sessionQueued: [request: QueuedSessionRequest, position: number];
+  // A queued request got a slot and is starting
+  sessionDequeued: [request: QueuedSessionRequest];
+  // A queued request was withdrawn before it got a slot
+  sessionRequestCancelled: [request: QueuedSessionRequest];
+  // A session left running by the previous ClaudeWire process was picked up again
+  sessionReattached: [session: Session];
+  // A session found at startup whose process did not survive the previous ClaudeWire process
+  sessionOrphaned: [entry: SessionLogEntry, reason: SessionEndReason];
+  sessionTerminated: [sessionId: string, exitCode: number, reason?: SessionEndReason];
+  // An idle session's process was stopped; its record and thread are kept for waking it
+  sessionHibernated: [session: Session];
+  // The session will end for inactivity at `expiresAt` unless someone uses or extends it
+  idleWarning: [session: Session, expiresAt: Date];
+  toolUsePrompt: [session: Session, request: ToolPermissionRequest, promptId: string];
+  toolUse: [session: Session, toolUse: ClaudeToolUse];
+  toolResult: [session: Session, toolResult: ClaudeToolResult];
+  result: [session: Session, result: ClaudeResult];
+  menu: [session: Session, menu: SelectionMenu];
+  turnComplete: [session: Session, summary: TurnSummary];
+  queuedInputSent: [session: Session, input: QueuedInput, remaining: number];
+  limitExceeded: [session: Session, limit: SessionTimeLimit, minutes: number];
+  memberInvited: [session: Session, member: SessionMember];
 }
@@ -0,0 +1,424 @@
+import type { KnownBlock } from '@slack/web-api';
+import { findPermissionOption } from '../claude/parser.js';
+import type { SelectionMenu, ToolPermissionRequest } from '../claude/types.js';
+import type { SessionLogEntry } from '../storage/sqlite.js';
+import type { Session } from '../session/types.js';
+import path from 'path';
+
+export const PERMISSION_ACTIONS = {
+  approve: 'tool_approve',
+  deny: 'tool_deny',
+  always: 'tool_always',
+  cancel: 'tool_cancel',
+} as const;
+
+export type PermissionDecision = keyof typeof PERMISSION_ACTIONS;
+
+export const MENU_ACTION_PREFIX = 'menu_select_';
+
+export const RESUME_ACTION_PREFIX = 'resume_session_';
+
+export const ROUTE_ACTION_PREFIX = 'route_message_';
+
+// Value of the session picker button that starts a new session instead
+export const NEW_SESSION_CHOICE = 'new';
+
+export const IDLE_ACTIONS = {
+  extend: 'idle_extend',
+  end: 'idle_end',
+} as const;
+
+export type IdleAction = keyof typeof IDLE_ACTIONS;
+
+// Slack allows at most this many elements in one actions block
+const MAX_ACTION_ELEMENTS = 25;
+
+// Slack rejects section text longer than this
+const MAX_SECTION_TEXT = 3000;
+
+/**
+ * Render a tool permission request as Slack mrkdwn
+ */
+export function formatPermissionRequest(request: ToolPermissionRequest): string {
+  // Nothing recognisable: fall back to what the screen shows
+  if (!request.toolName && !request.target && !request.question) {
+    return '```\n' + request.rawText.slice(-2500) + '\n```';
+  }
+
+  const lines: string[] = [
+    `:lock: *${request.toolName ?? 'Tool'}* wants permission`,
+  ];
+
+  if (request.target) {
+    lines.push(`*Target:* \`${request.target}\``);
+  }
+  if (request.description) {
+    lines.push(`_${request.description}_`);
+  }
+  if (request.diffPreview) {
+    lines.push('```\n' + request.diffPreview.slice(0, 2000) + '\n```');
+  }
+  if (request.question) {
+    lines.push(request.question);
+  }
+  if (request.options.length > 0) {
+    lines.push(...request.options.map(option => `\`${option.key}\` ${option.label}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Permission prompt with Approve / Deny / Cancel buttons, plus Always allow
+ * when the prompt offers "don't ask again". Each button carries the session and prompt IDs, as `<session>:<prompt>`,
+ * so the click can be routed back and matched to the prompt it answers.
+ */
+export function buildPermissionBlocks(
+  sessionId: string,
+  promptId: string,
+  request: ToolPermissionRequest
+): KnownBlock[] {
+  const toolLabel = request.toolName ?? 'this tool';
+  const value = `${sessionId}:${promptId}`;
+
+  return [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: formatPermissionRequest(request).slice(0, MAX_SECTION_TEXT),
+      },
+    },
+    {
+      type: 'actions',
+      block_id: 'tool_permission',
+      elements: [
+        {
+          type: 'button',
+          action_id: PERMISSION_ACTIONS.approve,
+          text: { type: 'plain_text', text: 'Approve' },
+          style: 'primary',
+          value,
+        },
+        {
+          type: 'button',
+          action_id: PERMISSION_ACTIONS.deny,
+          text: { type: 'plain_text', text: 'Deny' },
+          style: 'danger',
+          value,
+        },
+        ...(findPermissionOption(request, 'always') ? [{
+          type: 'button' as const,
+          action_id: PERMISSION_ACTIONS.always,
+          text: { type: 'plain_text' as const, text: `Always allow ${toolLabel}`.slice(0, 75) },
+          value,
+        }] : []),
+        {
+          type: 'button',
+          action_id: PERMISSION_ACTIONS.cancel,
+          text: { type: 'plain_text', text: 'Cancel' },
+          value,
+        },
+      ],
+    },
+  ];
+}
+
+const DECISION_LABELS: Record<PermissionDecision, string> = {
+  approve: ':white_check_mark: Approved',
+  deny: ':no_entry_sign: Denied',
+  always: ':white_check_mark: Always allowed',
+  cancel: ':octagonal_sign: Cancelled',
+};
+
+/**
+ * Replace the buttons with a record of who decided what, and when
+ */
+export function buildDecisionBlocks(
+  promptText: string,
+  decision: PermissionDecision,
+  userId: string,
+  decidedAt: Date = new Date()
+): KnownBlock[] {
+  const epoch = Math.floor(decidedAt.getTime() / 1000);
+  const fallbackTime = decidedAt.toISOString();
+
+  return [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: promptText.slice(0, MAX_SECTION_TEXT),
+      },
+    },
+    {
+      type: 'context',
+      elements: [
+        {
+          type: 'mrkdwn',
+          text: `${DECISION_LABELS[decision]} by <@${userId}> at <!date^${epoch}^{date_short_pretty} {time}|${fallbackTime}>`,
+        },
+      ],
+    },
+  ];
+}
+
+export function decisionSummary(decision: PermissionDecision, userId: string): string {
+  return `${DECISION_LABELS[decision]} by <@${userId}>`;
+}
+
+export const PROMPT_GONE_TEXT = ':hourglass: This prompt is no longer on screen';
+
+/**
+ * Replace the buttons of a prompt that was answered, dismissed or replaced
+ * before the click arrived
+ */
+export function buildPromptGoneBlocks(promptText: string): KnownBlock[] {
+  return [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: promptText.slice(0, MAX_SECTION_TEXT),
+      },
+    },
+    {
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: PROMPT_GONE_TEXT }],
+    },
+  ];
+}
+
+/**
+ * Render a TUI selection menu as Slack mrkdwn
+ */
+export function formatMenu(menu: SelectionMenu): string {
+  const lines = menu.title ? [`*${menu.title}*`] : ['*Claude is asking you to choose:*'];
+  for (const option of menu.options) {
+    const marker = option.index === menu.selectedIndex ? ':arrow_forward:' : '•';
+    lines.push(`${marker} \`${option.index + 1}\` ${option.label}`);
+  }
+  lines.push('', '_Pick with a button or `/pick <number>`_');
+  return lines.join('\n');
+}
+
+/**
+ * Menu with one button per option. Button values are `<sessionId>:<index>`.
+ */
+export function buildMenuBlocks(sessionId: string, menu: SelectionMenu): KnownBlock[] {
+  return [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: formatMenu(menu).slice(0, MAX_SECTION_TEXT),
+      },
+    },
+    {
+      type: 'actions',
+      block_id: 'menu_select',
+      elements: menu.options.slice(0, MAX_ACTION_ELEMENTS).map(option => ({
+        type: 'button' as const,
+        action_id: `${MENU_ACTION_PREFIX}${option.index}`,
+        text: { type: 'plain_text' as const, text: `${option.index + 1}. ${option.label}`.slice(0, 75) },
+        value: `${sessionId}:${option.index}`,
+      })),
+    },
+  ];
+}
+
+/**
+ * Replace the menu buttons with the choice that was made
+ */
+export function buildMenuChoiceBlocks(
+  menuText: string,
+  choiceLabel: string,
+  userId: string,
+  decidedAt: Date = new Date()
+): KnownBlock[] {
+  const epoch = Math.floor(decidedAt.getTime() / 1000);
+
+  return [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: menuText.slice(0, MAX_SECTION_TEXT),
+      },
+    },
+    {
+      type: 'context',
+      elements: [
+        {
+          type: 'mrkdwn',
+          text: `:ballot_box_with_check: *${choiceLabel}* chosen by <@${userId}> at <!date^${epoch}^{time}|${decidedAt.toISOString()}>`,
+        },
+      ],
+    },
+  ];
+}
+
+/**
+ * `hibernates` says whether the session goes to sleep rather than ending
+ */
+export function formatIdleWarning(expiresAt: Date, hibernates = false): string {
+  const epoch = Math.floor(expiresAt.getTime() / 1000);
+  const outcome = hibernates ? 'hibernate' : 'end';
+  return `:hourglass_flowing_sand: This session has been inactive and will ${outcome} at <!date^${epoch}^{time}|${expiresAt.toISOString()}>. Send a message or extend it to keep it running.`;
+}
+
+/**
+ * Inactivity warning with Extend / End now buttons. Each button carries the
+ * session ID so the click can be routed back.
+ */
+export function buildIdleWarningBlocks(
+  sessionId: string,
+  expiresAt: Date,
+  extendMinutes: number,
+  hibernates = false
+): KnownBlock[] {
+  return [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: formatIdleWarning(expiresAt, hibernates),
+      },
+    },
+    {
+      type: 'actions',
+      block_id: 'idle_warning',
+      elements: [
+        {
+          type: 'button',
+          action_id: IDLE_ACTIONS.extend,
+          text: { type: 'plain_text', text: `Extend ${extendMinutes}m` },
+          style: 'primary',
+          value: sessionId,
+        },
+        {
+          type: 'button',
+          action_id: IDLE_ACTIONS.end,
+          text: { type: 'plain_text', text: 'End now' },
+          style: 'danger',
+          value: sessionId,
+        },
+      ],
+    },
+  ];
+}
+
+/**
+ * Replace the warning's buttons with what was done about it
+ */
+export function buildIdleDecisionBlocks(warningText: string, outcome: string): KnownBlock[] {
+  return [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: warningText.slice(0, MAX_SECTION_TEXT),
+      },
+    },
+    {
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: outcome }],
+    },
+  ];
+}
+
+/**
+ * List earlier conversations as Slack mrkdwn, newest first
+ */
+export function formatResumeList(entries: SessionLogEntry[]): string {
+  const lines = ['*Resume a conversation*', ''];
+  for (const entry of entries) {
+    const epoch = Math.floor(new Date(entry.createdAt).getTime() / 1000);
+    lines.push(
+      `• *${path.basename(entry.projectPath)}* <!date^${epoch}^{date_short_pretty} {time}|${entry.createdAt}> \`${entry.id}\``
+    );
+  }
+  lines.push('', '_Pick with a button or `/resume <session-id>`_');
+  return lines.join('\n');
+}
+
+/**
+ * Picker with one button per earlier conversation. Button values are the
+ * ClaudeWire session IDs the conversations were recorded under.
+ */
+export function buildResumePickerBlocks(entries: SessionLogEntry[]): KnownBlock[] {
+  return [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: formatResumeList(entries).slice(0, MAX_SECTION_TEXT),
+      },
+    },
+    {
+      type: 'actions',
+      block_id: 'resume_session',
+      elements: entries.slice(0, MAX_ACTION_ELEMENTS).map((entry, index) => ({
+        type: 'button' as const,
+        action_id: `${RESUME_ACTION_PREFIX}${index}`,
+        text: { type: 'plain_text' as const, text: `${index + 1}. ${path.basename(entry.projectPath)}`.slice(0, 75) },
+        value: entry.id,
+      })),
+    },
+  ];
+}
+
+/**
+ * Ask which running session a top-level message should go to
+ */
+export function formatSessionPicker(sessions: Session[], canStartNew: boolean): string {
+  const lines = ['*Which session should this message go to?*', ''];
+  for (const session of sessions) {
+    lines.push(`• *${path.basename(session.projectPath)}* \`${session.id}\` (${session.status})`);
+  }
+  lines.push('', canStartNew
+    ? '_Pick a session, or start a new one. Replies in a session\'s thread always go to that session._'
+    : '_Pick a session. Replies in a session\'s thread always go to that session._');
+  return lines.join('\n');
+}
+
+/**
+ * Session picker with one button per running session, the active one
+ * highlighted. Button values are session IDs, or `NEW_SESSION_CHOICE`.
+ */
+export function buildSessionPickerBlocks(
+  sessions: Session[],
+  opts: { activeSessionId?: string; canStartNew: boolean }
+): KnownBlock[] {
+  const buttons = sessions.slice(0, MAX_ACTION_ELEMENTS - 1).map((session, index) => ({
+    type: 'button' as const,
+    action_id: `${ROUTE_ACTION_PREFIX}${index}`,
+    text: { type: 'plain_text' as const, text: path.basename(session.projectPath).slice(0, 75) },
+    value: session.id,
+    ...(session.id === opts.activeSessionId ? { style: 'primary' as const } : {}),
+  }));
+
+  if (opts.canStartNew) {
+    buttons.push({
+      type: 'button' as const,
+      action_id: `${ROUTE_ACTION_PREFIX}${buttons.length}`,
+      text: { type: 'plain_text' as const, text: 'New session' },
+      value: NEW_SESSION_CHOICE,
+    });
+  }
+
+  return [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: formatSessionPicker(sessions, opts.canStartNew).slice(0, MAX_SECTION_TEXT),
+      },
+    },
+    {
+      type: 'actions',
+      block_id: 'route_message',
+      elements: buttons,
+    },
+  ];
+}
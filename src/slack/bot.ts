@@ -1,5 +1,5 @@
 import pkg from '@slack/bolt';
-import type { App as AppType, GenericMessageEvent } from '@slack/bolt';
+import type { App as AppType, BlockAction, ButtonAction, GenericMessageEvent } from '@slack/bolt';
 
 const { App, LogLevel } = pkg;
 import { config } from '../config/index.js';
@@ -10,8 +10,21 @@ import type { ProjectManager } from '../storage/projects.js';
 import {
   handleUserMessage,
   handleSlashCommand,
+  handlePermissionAction,
+  handleMenuAction,
+  handleResumeAction,
+  handleRouteAction,
+  handleIdleAction,
   setupSessionOutputHandler,
 } from './handlers.js';
+import {
+  IDLE_ACTIONS,
+  MENU_ACTION_PREFIX,
+  PERMISSION_ACTIONS,
+  RESUME_ACTION_PREFIX,
+  ROUTE_ACTION_PREFIX,
+} from './blocks.js';
+import type { IdleAction, PermissionDecision } from './blocks.js';
 
 const log = logger.child({ component: 'slack-bot' });
 
@@ -147,6 +160,143 @@ export function createSlackBot(
     });
   });
 
+  // Handle permission prompt buttons
+  for (const [decision, actionId] of Object.entries(PERMISSION_ACTIONS)) {
+    app.action<BlockAction<ButtonAction>>(actionId, async ({ ack, body, action, client }) => {
+      await ack();
+
+      const channelId = body.channel?.id;
+      const messageTs = body.message?.ts;
+      if (!channelId || !messageTs || !action.value) return;
+
+      // A value without a prompt ID matches no prompt, so the click is refused
+      const [sessionId, promptId = ''] = action.value.split(':');
+      const promptBlock = body.message?.blocks?.[0] as { text?: { text?: string } } | undefined;
+
+      log.debug({
+        userId: body.user.id,
+        sessionId,
+        decision,
+      }, 'Received permission action');
+
+      await handlePermissionAction(
+        decision as PermissionDecision,
+        sessionId,
+        promptId,
+        {
+          userId: body.user.id,
+          channelId,
+          messageTs,
+          promptText: promptBlock?.text?.text ?? body.message?.text ?? '',
+        },
+        client,
+        sessionManager
+      );
+    });
+  }
+
+  // Handle menu option buttons
+  const menuActionPattern = new RegExp(`^${MENU_ACTION_PREFIX}\\d+$`);
+  app.action<BlockAction<ButtonAction>>(menuActionPattern, async ({ ack, body, action, client }) => {
+    await ack();
+
+    const channelId = body.channel?.id;
+    const messageTs = body.message?.ts;
+    if (!channelId || !messageTs || !action.value) return;
+
+    const separator = action.value.lastIndexOf(':');
+    const sessionId = action.value.slice(0, separator);
+    const optionIndex = parseInt(action.value.slice(separator + 1), 10);
+    const menuBlock = body.message?.blocks?.[0] as { text?: { text?: string } } | undefined;
+
+    await handleMenuAction(
+      sessionId,
+      optionIndex,
+      {
+        userId: body.user.id,
+        channelId,
+        messageTs,
+        menuText: menuBlock?.text?.text ?? body.message?.text ?? '',
+        optionLabel: action.text.text,
+      },
+      client,
+      sessionManager
+    );
+  });
+
+  // Handle /resume picker buttons
+  const resumeActionPattern = new RegExp(`^${RESUME_ACTION_PREFIX}\\d+$`);
+  app.action<BlockAction<ButtonAction>>(resumeActionPattern, async ({ ack, body, action, client }) => {
+    await ack();
+
+    const channelId = body.channel?.id;
+    const messageTs = body.message?.ts;
+    if (!channelId || !messageTs || !action.value) return;
+
+    await handleResumeAction(
+      action.value,
+      {
+        userId: body.user.id,
+        userName: body.user.name ?? body.user.id,
+        channelId,
+        messageTs,
+        threadTs: body.message?.thread_ts ?? messageTs,
+        label: action.text.text,
+      },
+      client,
+      sessionManager
+    );
+  });
+
+  // Handle session picker buttons for top-level messages
+  const routeActionPattern = new RegExp(`^${ROUTE_ACTION_PREFIX}\\d+$`);
+  app.action<BlockAction<ButtonAction>>(routeActionPattern, async ({ ack, body, action, client }) => {
+    await ack();
+
+    const channelId = body.channel?.id;
+    const messageTs = body.message?.ts;
+    const threadTs = body.message?.thread_ts;
+    if (!channelId || !messageTs || !threadTs || !action.value) return;
+
+    await handleRouteAction(
+      action.value,
+      {
+        userId: body.user.id,
+        channelId,
+        messageTs,
+        threadTs,
+      },
+      client,
+      sessionManager
+    );
+  });
+
+  // Handle Extend / End now buttons of inactivity warnings
+  for (const [idleAction, actionId] of Object.entries(IDLE_ACTIONS)) {
+    app.action<BlockAction<ButtonAction>>(actionId, async ({ ack, body, action, client }) => {
+      await ack();
+
+      const channelId = body.channel?.id;
+      const messageTs = body.message?.ts;
+      if (!channelId || !messageTs || !action.value) return;
+
+      const warningBlock = body.message?.blocks?.[0] as { text?: { text?: string } } | undefined;
+
+      await handleIdleAction(
+        idleAction as IdleAction,
+        action.value,
+        {
+          userId: body.user.id,
+          channelId,
+          messageTs,
+          warningText: warningBlock?.text?.text ?? body.message?.text ?? '',
+        },
+        client,
+        sessionManager
+      );
+    });
+  }
+
   // Error handler
   app.error(async (error) => {
     log.error({ err: error }, 'Slack app error');
@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { config } from '../config/index.js';
+import { parseCommandArgs, parseInlineCommand, splitCommandLine } from './commands.js';
+
+describe('splitCommandLine', () => {
+  it('splits on whitespace', () => {
+    expect(splitCommandLine('/new  web\t--model sonnet')).toEqual(['/new', 'web', '--model', 'sonnet']);
+  });
+
+  it('keeps straight and curly quoted text together', () => {
+    expect(splitCommandLine('/new web --prompt "Be brief." --note “ship it today”'))
+      .toEqual(['/new', 'web', '--prompt', 'Be brief.', '--note', 'ship it today']);
+    expect(splitCommandLine('--prompt ""')).toEqual(['--prompt', '']);
+  });
+});
+
+describe('parseCommandArgs', () => {
+  it('separates positional values from flags in both forms', () => {
+    expect(parseCommandArgs(['web', '--Model', 'sonnet', '--mode=plan', '--readonly'])).toEqual({
+      positional: ['web'],
+      flags: { model: 'sonnet', mode: 'plan', readonly: 'true' },
+    });
+  });
+});
+
+describe('parseInlineCommand', () => {
+  beforeEach(() => {
+    config.claude.nativeCommands = ['compact', 'clear', 'cost'];
+  });
+
+  it('ignores messages that are not commands', () => {
+    expect(parseInlineCommand('fix the build')).toBeNull();
+    expect(parseInlineCommand('  see /status')).toBeNull();
+  });
+
+  it('reads ClaudeWire commands and their aliases', () => {
+    expect(parseInlineCommand('/status')).toEqual({ type: 'status' });
+    expect(parseInlineCommand('/END web')).toEqual({ type: 'stop', target: 'web' });
+    expect(parseInlineCommand('/pick 2')).toEqual({ type: 'pick', option: 2 });
+    expect(parseInlineCommand('/pick two')).toEqual({ type: 'pick', option: undefined });
+    expect(parseInlineCommand('/q clear')).toEqual({ type: 'queue', clear: true });
+  });
+
+  it('passes quoted arguments of /new through as one value', () => {
+    expect(parseInlineCommand('/new web --prompt "Answer in French." --model=sonnet')).toEqual({
+      type: 'new',
+      projectPath: 'web',
+      flags: { prompt: 'Answer in French.', model: 'sonnet' },
+    });
+  });
+
+  it('keeps an urgent message as typed', () => {
+    expect(parseInlineCommand('/urgent stop\n  and revert'))
+      .toEqual({ type: 'urgent', text: 'stop\n  and revert' });
+  });
+
+  it('forwards configured native commands as-is', () => {
+    expect(parseInlineCommand('/compact keep the test plan')).toEqual({
+      type: 'passthrough',
+      command: '/compact keep the test plan',
+    });
+    expect(parseInlineCommand('/review')).toEqual({ type: 'unknown', command: 'review' });
+  });
+
+  it('does not forward ClaudeWire commands that share a name with native ones', () => {
+    config.claude.nativeCommands.push('status', 'help');
+
+    expect(parseInlineCommand('/status')).toEqual({ type: 'status' });
+    expect(parseInlineCommand('/help')).toEqual({ type: 'help' });
+  });
+
+  it('forwards anything after a double slash', () => {
+    expect(parseInlineCommand('//status')).toEqual({ type: 'passthrough', command: '/status' });
+    expect(parseInlineCommand('//review src/app')).toEqual({ type: 'passthrough', command: '/review src/app' });
+  });
+
+  it('forwards the rest of /cc, adding the slash when it is missing', () => {
+    expect(parseInlineCommand('/cc status')).toEqual({ type: 'passthrough', command: '/status' });
+    expect(parseInlineCommand('/cc /model opus')).toEqual({ type: 'passthrough', command: '/model opus' });
+    expect(parseInlineCommand('/cc')).toEqual({ type: 'passthrough', command: '' });
+  });
+});
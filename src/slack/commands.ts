@@ -1,12 +1,110 @@
 import type { InlineCommand, CommandResult } from './types.js';
 import type { SessionManager } from '../session/manager.js';
 import { ProjectManager } from '../storage/projects.js';
+import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
-import { SessionExistsError, ClaudeCodeNotInstalledError } from '../utils/errors.js';
+import {
+  SessionExistsError,
+  SessionLimitError,
+  ClaudeCodeNotInstalledError,
+  ClaudeSpawnError,
+  ConversationNotFoundError,
+  InputQueueFullError,
+  InvalidSessionSettingsError,
+  SessionRequestCancelledError,
+} from '../utils/errors.js';
+import { buildResumePickerBlocks, formatResumeList } from './blocks.js';
+import { CLAUDE_BACKENDS, isClaudeBackend } from '../claude/backend.js';
+import { CLAUDE_PERMISSION_MODES } from '../claude/types.js';
+import type { ClaudeBackend, ClaudeSessionSettings, ResourceUsage } from '../claude/types.js';
+import { isPermissionMode } from '../session/settings.js';
+import { isSessionRole } from '../session/members.js';
+import { SESSION_ROLES } from '../session/types.js';
+import type { Session } from '../session/types.js';
 import path from 'path';
 
 const log = logger.child({ component: 'commands' });
 
+/**
+ * Explain to the user why Claude Code did not start
+ */
+export function spawnFailureMessage(err: ClaudeSpawnError): string {
+  switch (err.reason) {
+    case 'trust_dialog':
+      return '*Claude Code did not start:* it is asking whether to trust this project folder.\nAn admin needs to run `claude` once in this directory on the server and accept the trust dialog.';
+    case 'login_required':
+      return '*Claude Code did not start:* it is not logged in on the server.\nAn admin needs to run `claude` on the server and complete `/login`.';
+    case 'update_required':
+      return '*Claude Code did not start:* the CLI needs to be updated.\nAn admin needs to run `claude update` on the server.';
+    case 'startup_timeout':
+      return '*Claude Code did not start in time.* Please try again; if this keeps happening, ask an admin to check the server logs.';
+    case 'exited_during_startup':
+      return '*Claude Code exited while starting.* Please try again or contact your administrator.';
+    case 'spawn_failed':
+      return 'Failed to start Claude Code. Please try again.';
+    case 'detached_session_gone':
+    case 'exited_while_detached':
+      return '*Claude Code stopped while ClaudeWire was restarting.* Use `/resume` to continue the conversation in a new session.';
+  }
+}
+
+/**
+ * Split a command line on whitespace, keeping "quoted text" (including
+ * Slack's curly quotes) together as one argument
+ */
+export function splitCommandLine(text: string): string[] {
+  const args: string[] = [];
+  const pattern = /["\u201c]([^"\u201d]*)["\u201d]|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    args.push(match[1] ?? match[2] ?? '');
+  }
+  return args;
+}
+
+/**
+ * Split command arguments into positional values and `--flag value` /
+ * `--flag=value` options
+ */
+export function parseCommandArgs(args: string[]): {
+  positional: string[];
+  flags: Record<string, string>;
+} {
+  const positional: string[] = [];
+  const flags: Record<string, string> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg) continue;
+
+    if (arg.startsWith('--')) {
+      const eq = arg.indexOf('=');
+      if (eq !== -1) {
+        flags[arg.slice(2, eq).toLowerCase()] = arg.slice(eq + 1);
+      } else {
+        const next = args[i + 1];
+        if (next !== undefined && !next.startsWith('--')) {
+          flags[arg.slice(2).toLowerCase()] = next;
+          i++;
+        } else {
+          flags[arg.slice(2).toLowerCase()] = 'true';
+        }
+      }
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  return { positional, flags };
+}
+
+/**
+ * The user ID in a Slack mention (`<@U123>` or `<@U123|name>`)
+ */
+export function parseUserMention(text: string | undefined): string | undefined {
+  return text?.match(/^<@([UW][A-Z0-9]+)(?:\|[^>]*)?>$/)?.[1];
+}
+
 export function parseInlineCommand(text: string): InlineCommand | null {
   const trimmed = text.trim();
 
@@ -14,24 +112,34 @@ export function parseInlineCommand(text: string): InlineCommand | null {
     return null;
   }
 
+  // "//compact" escapes a Claude Code command past ClaudeWire's own
+  if (trimmed.startsWith('//')) {
+    return { type: 'passthrough', command: trimmed.slice(1) };
+  }
+
   const parts = trimmed.slice(1).split(/\s+/);
   const cmd = parts[0]?.toLowerCase();
 
   switch (cmd) {
     case 'new':
-    case 'start':
-      return { type: 'new', projectPath: parts[1] };
+    case 'start': {
+      const { positional, flags } = parseCommandArgs(splitCommandLine(trimmed).slice(1));
+      return { type: 'new', projectPath: positional[0], flags };
+    }
 
     case 'stop':
     case 'end':
     case 'exit':
     case 'quit':
-      return { type: 'stop' };
+      return { type: 'stop', target: parts[1] };
 
     case 'status':
     case 'info':
       return { type: 'status' };
 
+    case 'screen':
+      return { type: 'screen' };
+
     case 'y':
     case 'yes':
     case 'accept':
@@ -47,6 +155,22 @@ export function parseInlineCommand(text: string): InlineCommand | null {
     case 'ctrl-c':
       return { type: 'cancel' };
 
+    case 'pick':
+    case 'select':
+    case 'choose': {
+      const option = parseInt(parts[1] ?? '', 10);
+      return { type: 'pick', option: Number.isNaN(option) ? undefined : option };
+    }
+
+    case 'queue':
+    case 'q':
+      return { type: 'queue', clear: parts[1]?.toLowerCase() === 'clear' };
+
+    case 'urgent':
+    case 'now':
+      // Keep the message as typed, including line breaks
+      return { type: 'urgent', text: trimmed.slice(1 + (parts[0]?.length ?? 0)).trim() };
+
     case 'help':
     case 'commands':
       return { type: 'help' };
@@ -60,15 +184,36 @@ export function parseInlineCommand(text: string): InlineCommand | null {
     case 'active':
       return { type: 'sessions' };
 
+    case 'switch':
+    case 'use':
+      return { type: 'switch', target: parts[1] };
+
+    case 'invite':
+    case 'share':
+      return { type: 'invite', memberId: parseUserMention(parts[1]), role: parts[2]?.toLowerCase() };
+
     case 'resume':
     case 'open':
-      return { type: 'resume', projectName: parts[1] };
+      return { type: 'resume', target: parts[1] };
+
+    case 'cc': {
+      const rest = trimmed.slice(1 + (parts[0]?.length ?? 0)).trim();
+      return { type: 'passthrough', command: !rest || rest.startsWith('/') ? rest : `/${rest}` };
+    }
 
     default:
+      if (cmd && config.claude.nativeCommands.includes(cmd)) {
+        return { type: 'passthrough', command: trimmed };
+      }
       return { type: 'unknown', command: cmd ?? '' };
   }
 }
 
+/**
+ * Run a ClaudeWire command. Commands that act on a session use `sessionId`
+ * (the session whose thread the command was sent in) or else the user's
+ * active session.
+ */
 export async function executeCommand(
   command: InlineCommand,
   userId: string,
@@ -76,28 +221,41 @@ export async function executeCommand(
   channelId: string,
   messageTs: string,
   sessionManager: SessionManager,
-  projectManager?: ProjectManager
+  projectManager?: ProjectManager,
+  sessionId?: string
 ): Promise<CommandResult> {
   log.debug({ command, userId }, 'Executing command');
 
   switch (command.type) {
     case 'new':
-      return handleNewCommand(command.projectPath, userId, userName, channelId, messageTs, sessionManager);
+      return handleNewCommand(command.projectPath, command.flags, userId, userName, channelId, messageTs, sessionManager);
 
     case 'stop':
-      return handleStopCommand(userId, sessionManager);
+      return handleStopCommand(command.target ?? sessionId, userId, sessionManager);
 
     case 'status':
-      return handleStatusCommand(userId, sessionManager);
+      return handleStatusCommand(userId, sessionManager, sessionId);
+
+    case 'screen':
+      return handleScreenCommand(userId, sessionManager, sessionId);
 
     case 'accept':
-      return handleAcceptCommand(userId, sessionManager);
+      return handleAcceptCommand(userId, sessionManager, sessionId);
 
     case 'reject':
-      return handleRejectCommand(userId, sessionManager);
+      return handleRejectCommand(userId, sessionManager, sessionId);
 
     case 'cancel':
-      return handleCancelCommand(userId, sessionManager);
+      return handleCancelCommand(userId, sessionManager, sessionId);
+
+    case 'pick':
+      return handlePickCommand(command.option, userId, sessionManager, sessionId);
+
+    case 'queue':
+      return handleQueueCommand(command.clear, userId, sessionManager, sessionId);
+
+    case 'urgent':
+      return handleUrgentCommand(command.text, userId, sessionManager, sessionId);
 
     case 'help':
       return handleHelpCommand();
@@ -108,25 +266,178 @@ export async function executeCommand(
     case 'sessions':
       return handleSessionsCommand(userId, sessionManager);
 
+    case 'switch':
+      return handleSwitchCommand(command.target, userId, sessionManager);
+
+    case 'invite':
+      return handleInviteCommand(command.memberId, command.role, userId, sessionManager, sessionId);
+
     case 'resume':
-      return handleResumeCommand(command.projectName, userId, userName, channelId, messageTs, sessionManager, projectManager);
+      return handleResumeCommand(command.target, userId, userName, channelId, messageTs, sessionManager, projectManager);
+
+    case 'passthrough':
+      return handlePassthroughCommand(command.command, userId, sessionManager, sessionId);
 
     case 'unknown':
       return {
-        text: `Unknown command: \`/${command.command}\`. Use \`/help\` to see available commands.`,
+        text: `Unknown command: \`/${command.command}\`. Use \`/help\` to see available commands.\nTo send it to Claude Code instead, use \`//${command.command}\` or \`/cc ${command.command}\`.`,
         ephemeral: true,
       };
   }
 }
 
+const NEW_SESSION_FLAGS = ['backend', 'model', 'mode', 'permission-mode', 'allow', 'deny', 'system', 'add-dir'];
+
+function splitList(value: string | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  const items = value.split(',').map(item => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Turn `/new` flags into session options. Returns an error message for
+ * flags that are unknown or malformed; the allowlist is checked later.
+ */
+function parseNewSessionFlags(
+  flags: Record<string, string>
+): { backend?: ClaudeBackend; settings: ClaudeSessionSettings } | string {
+  const unknown = Object.keys(flags).filter(flag => !NEW_SESSION_FLAGS.includes(flag));
+  if (unknown.length > 0) {
+    return `Unknown option ${unknown.map(f => `\`--${f}\``).join(', ')}. Use \`/help\` to see the options of \`/new\`.`;
+  }
+
+  const backend = flags.backend;
+  if (backend !== undefined && !isClaudeBackend(backend)) {
+    return `Unknown backend \`${backend}\`. Available backends: ${CLAUDE_BACKENDS.map(b => `\`${b}\``).join(', ')}`;
+  }
+
+  const permissionMode = flags.mode ?? flags['permission-mode'];
+  if (permissionMode !== undefined && !isPermissionMode(permissionMode)) {
+    return `Unknown permission mode \`${permissionMode}\`. Available modes: ${CLAUDE_PERMISSION_MODES.map(m => `\`${m}\``).join(', ')}`;
+  }
+
+  return {
+    backend,
+    settings: {
+      model: flags.model,
+      permissionMode,
+      allowedTools: splitList(flags.allow),
+      disallowedTools: splitList(flags.deny),
+      appendSystemPrompt: flags.system,
+      addDirs: splitList(flags['add-dir']),
+    },
+  };
+}
+
+/**
+ * Effective session settings as Slack mrkdwn bullet lines
+ */
+export function formatSessionSettings(settings: ClaudeSessionSettings): string[] {
+  const list = (items: string[] | undefined) =>
+    items?.length ? items.map(item => `\`${item}\``).join(', ') : '_none_';
+
+  const lines = [
+    `• Model: ${settings.model ? `\`${settings.model}\`` : '_CLI default_'}`,
+    `• Permission mode: \`${settings.permissionMode ?? 'default'}\``,
+    `• Pre-approved tools: ${list(settings.allowedTools)}`,
+    `• Disallowed tools: ${list(settings.disallowedTools)}`,
+  ];
+  if (settings.addDirs?.length) {
+    lines.push(`• Additional dirs: ${list(settings.addDirs)}`);
+  }
+  if (settings.appendSystemPrompt) {
+    const preview = settings.appendSystemPrompt.length > 100
+      ? `${settings.appendSystemPrompt.slice(0, 100)}…`
+      : settings.appendSystemPrompt;
+    lines.push(`• Extra system prompt: _${preview}_`);
+  }
+  return lines;
+}
+
+/**
+ * Who may drive or watch the session as Slack mrkdwn bullet lines
+ */
+function formatSessionMembers(session: Session): string[] {
+  const members = session.members ?? [];
+  const byRole = (role: string) => members.filter(m => m.role === role).map(m => `<@${m.userId}>`);
+
+  return [
+    `• Owner: <@${session.userId}>`,
+    `• Drivers: ${byRole('driver').join(', ') || '_none_'}`,
+    `• Observers: ${byRole('observer').join(', ') || '_none_'}`,
+  ];
+}
+
+/**
+ * Resource usage against the configured limits as Slack mrkdwn bullet lines
+ */
+function formatResourceUsage(usage: ResourceUsage | null, uptimeMinutes: number): string[] {
+  const limits = config.claude.limits;
+  const of = (limit: number, unit = '') => (limit ? ` / ${limit}${unit}` : '');
+  const lines: string[] = [];
+
+  if (usage) {
+    lines.push(
+      `• Memory: ${Math.round(usage.memoryBytes / 1024 / 1024)} MB${of(limits.memoryMb, ' MB')}`,
+      `• CPU time: ${usage.cpuSeconds.toFixed(1)}s${limits.cpuPercent ? ` (capped at ${limits.cpuPercent}% of a core)` : ''}`,
+      `• Processes: ${usage.processes}${of(limits.maxProcesses)}`
+    );
+  }
+  if (limits.maxSessionMinutes) {
+    lines.push(`• Session time: ${uptimeMinutes}${of(limits.maxSessionMinutes)} minutes`);
+  }
+  if (limits.maxTurnMinutes) {
+    lines.push(`• Turn limit: ${limits.maxTurnMinutes} minutes`);
+  }
+  if (usage && usage.enforcement !== 'none') {
+    lines.push(`• Limits enforced by: ${usage.enforcement === 'cgroup' ? 'cgroup v2' : 'rlimits'}`);
+  }
+
+  return lines;
+}
+
+/**
+ * Explain why no further session can be started: either the project already
+ * has one, or the user is at their session limit
+ */
+async function sessionConflictMessage(
+  err: SessionExistsError | SessionLimitError,
+  sessionManager: SessionManager,
+  userId: string
+): Promise<string> {
+  if (err instanceof SessionExistsError) {
+    const existing = await sessionManager.findSessionForUser(userId, String(err.context?.existingSessionId));
+    const name = existing ? path.basename(existing.projectPath) : 'this project';
+    return `You already have a session in \`${name}\`.\nSession ID: \`${existing?.id ?? err.context?.existingSessionId}\`\n\nUse \`/switch ${name}\` to send your messages to it, or \`/stop ${name}\` to end it first.`;
+  }
+
+  const sessions = await sessionManager.listSessionsForUser(userId);
+  return [
+    `You already have ${sessions.length} active session${sessions.length === 1 ? '' : 's'}, the maximum allowed.`,
+    '',
+    ...sessions.map(session => `• \`${session.id}\` in \`${path.basename(session.projectPath)}\``),
+    '',
+    'Use `/stop <id>` to end one first.',
+  ].join('\n');
+}
+
 async function handleNewCommand(
   projectPath: string | undefined,
+  flags: Record<string, string>,
   userId: string,
   userName: string,
   channelId: string,
   messageTs: string,
   sessionManager: SessionManager
 ): Promise<CommandResult> {
+  const options = parseNewSessionFlags(flags);
+  if (typeof options === 'string') {
+    return {
+      text: options,
+      ephemeral: true,
+    };
+  }
+
   try {
     const session = await sessionManager.createSession({
       userId,
@@ -134,16 +445,34 @@ async function handleNewCommand(
       channelId,
       messageTs,
       projectPath,
+      backend: options.backend,
+      settings: options.settings,
     });
 
     return {
-      text: `Started new Claude Code session in \`${session.projectPath}\`\nSession ID: \`${session.id}\``,
+      text: [
+        `Started new Claude Code session in \`${session.projectPath}\``,
+        `Session ID: \`${session.id}\``,
+        `Backend: \`${session.backend}\``,
+        ...formatSessionSettings(session.settings),
+      ].join('\n'),
     };
   } catch (err) {
-    if (err instanceof SessionExistsError) {
-      const status = await sessionManager.getSessionStatus(userId);
+    if (err instanceof InvalidSessionSettingsError) {
+      return {
+        text: err.message,
+        ephemeral: true,
+      };
+    }
+    if (err instanceof SessionExistsError || err instanceof SessionLimitError) {
+      return {
+        text: await sessionConflictMessage(err, sessionManager, userId),
+        ephemeral: true,
+      };
+    }
+    if (err instanceof SessionRequestCancelledError) {
       return {
-        text: `You already have an active session.\nSession ID: \`${status.session?.id}\`\nProject: \`${status.session?.projectPath}\`\n\nUse \`/stop\` to end it first.`,
+        text: 'Cancelled while waiting for a slot.',
         ephemeral: true,
       };
     }
@@ -153,6 +482,12 @@ async function handleNewCommand(
         ephemeral: true,
       };
     }
+    if (err instanceof ClaudeSpawnError) {
+      return {
+        text: spawnFailureMessage(err),
+        ephemeral: true,
+      };
+    }
     log.error({ err, userId }, 'Failed to create session');
     return {
       text: 'Failed to start session. Please try again.',
@@ -162,15 +497,23 @@ async function handleNewCommand(
 }
 
 async function handleStopCommand(
+  target: string | undefined,
   userId: string,
   sessionManager: SessionManager
 ): Promise<CommandResult> {
-  const terminated = await sessionManager.terminateSession(userId);
+  const terminated = await sessionManager.terminateSession(userId, target);
 
   if (terminated) {
     return { text: 'Session terminated.' };
   }
 
+  if (target) {
+    return {
+      text: `No active session \`${target}\`. Use \`/sessions\` to list your sessions.`,
+      ephemeral: true,
+    };
+  }
+
   return {
     text: 'No active session to stop.',
     ephemeral: true,
@@ -179,9 +522,10 @@ async function handleStopCommand(
 
 async function handleStatusCommand(
   userId: string,
-  sessionManager: SessionManager
+  sessionManager: SessionManager,
+  sessionId?: string
 ): Promise<CommandResult> {
-  const status = await sessionManager.getSessionStatus(userId);
+  const status = await sessionManager.getSessionStatus(userId, sessionId);
 
   if (!status.hasSession) {
     return {
@@ -192,25 +536,68 @@ async function handleStatusCommand(
 
   const session = status.session!;
   const uptime = Math.round((Date.now() - new Date(session.createdAt).getTime()) / 1000 / 60);
+  const redactions = Object.entries(await sessionManager.getRedactionCounts(userId, session.id));
 
   return {
     text: [
       '*Session Status*',
       `• ID: \`${session.id}\``,
       `• Project: \`${session.projectPath}\``,
+      `• Backend: \`${session.backend}\``,
+      `• Sandbox: ${session.sandbox ? `on, network ${session.sandbox.network ? 'on' : 'off (Claude API only)'}` : 'off'}`,
       `• Status: ${session.status}`,
       `• Process: ${status.processStatus}`,
       `• Uptime: ${uptime} minutes`,
+      ...(status.idleExpiresAt
+        ? [`• Idle timeout: ends at <!date^${Math.floor(status.idleExpiresAt.getTime() / 1000)}^{time}|${status.idleExpiresAt.toISOString()}> without activity`]
+        : []),
+      ...formatSessionMembers(session),
+      ...formatSessionSettings(session.settings ?? {}),
+      ...formatResourceUsage(status.usage ?? null, uptime),
+      ...(redactions.length > 0
+        ? [`• Secrets hidden: ${redactions.map(([kind, count]) => `${count} × \`${kind}\``).join(', ')}`]
+        : []),
     ].join('\n'),
     ephemeral: true,
   };
 }
 
+async function handleScreenCommand(
+  userId: string,
+  sessionManager: SessionManager,
+  sessionId?: string
+): Promise<CommandResult> {
+  const screen = await sessionManager.getScreen(userId, sessionId);
+
+  if (screen === null) {
+    return {
+      text: 'No active session.',
+      ephemeral: true,
+    };
+  }
+
+  if (!screen.trim()) {
+    return {
+      text: 'The screen is empty, or this session has no terminal (stream-json backend).',
+      ephemeral: true,
+    };
+  }
+
+  // Keep the most recent lines if the screen does not fit in one message
+  const maxLength = 3800;
+  const visible = screen.length > maxLength ? screen.slice(screen.length - maxLength) : screen;
+
+  return {
+    text: '```\n' + visible + '\n```',
+  };
+}
+
 async function handleAcceptCommand(
   userId: string,
-  sessionManager: SessionManager
+  sessionManager: SessionManager,
+  sessionId?: string
 ): Promise<CommandResult> {
-  const sent = await sessionManager.sendControl(userId, 'y');
+  const sent = await sessionManager.sendControl(userId, 'y', sessionId);
 
   if (sent) {
     return { text: 'Accepted (y)' };
@@ -224,9 +611,10 @@ async function handleAcceptCommand(
 
 async function handleRejectCommand(
   userId: string,
-  sessionManager: SessionManager
+  sessionManager: SessionManager,
+  sessionId?: string
 ): Promise<CommandResult> {
-  const sent = await sessionManager.sendControl(userId, 'n');
+  const sent = await sessionManager.sendControl(userId, 'n', sessionId);
 
   if (sent) {
     return { text: 'Rejected (n)' };
@@ -240,9 +628,10 @@ async function handleRejectCommand(
 
 async function handleCancelCommand(
   userId: string,
-  sessionManager: SessionManager
+  sessionManager: SessionManager,
+  sessionId?: string
 ): Promise<CommandResult> {
-  const sent = await sessionManager.sendControl(userId, 'ctrl-c');
+  const sent = await sessionManager.sendControl(userId, 'ctrl-c', sessionId);
 
   if (sent) {
     return { text: 'Sent Ctrl+C' };
@@ -254,25 +643,171 @@ async function handleCancelCommand(
   };
 }
 
+async function handlePickCommand(
+  option: number | undefined,
+  userId: string,
+  sessionManager: SessionManager,
+  sessionId?: string
+): Promise<CommandResult> {
+  if (option === undefined || option < 1) {
+    return {
+      text: 'Please specify an option number: `/pick <number>`',
+      ephemeral: true,
+    };
+  }
+
+  const selected = await sessionManager.selectMenuOption(userId, option - 1, sessionId);
+
+  if (selected) {
+    return { text: `Picked option ${option}` };
+  }
+
+  return {
+    text: 'No menu with that option is on screen. Use `/screen` to see what Claude is showing.',
+    ephemeral: true,
+  };
+}
+
+async function handleQueueCommand(
+  clear: boolean,
+  userId: string,
+  sessionManager: SessionManager,
+  sessionId?: string
+): Promise<CommandResult> {
+  if (clear) {
+    const dropped = await sessionManager.clearInputQueue(userId, sessionId);
+    if (dropped === null) {
+      return { text: 'No active session.', ephemeral: true };
+    }
+    return { text: `Cleared ${dropped} queued message${dropped === 1 ? '' : 's'}.` };
+  }
+
+  const queue = await sessionManager.getInputQueue(userId, sessionId);
+  if (queue === null) {
+    return { text: 'No active session.', ephemeral: true };
+  }
+
+  if (queue.length === 0) {
+    return { text: '*Input Queue*\n\nNo messages waiting.', ephemeral: true };
+  }
+
+  const items = queue.map((item, i) => {
+    const preview = item.text.length > 80 ? `${item.text.slice(0, 80)}…` : item.text;
+    return `${i + 1}. ${item.urgent ? ':rotating_light: ' : ''}${preview.replace(/\n/g, ' ')}`;
+  });
+
+  return {
+    text: [
+      '*Input Queue*',
+      '',
+      ...items,
+      '',
+      'Use `/queue clear` to drop them, or `/urgent <message>` to interrupt Claude.',
+    ].join('\n'),
+    ephemeral: true,
+  };
+}
+
+async function handleUrgentCommand(
+  text: string,
+  userId: string,
+  sessionManager: SessionManager,
+  sessionId?: string
+): Promise<CommandResult> {
+  if (!text) {
+    return {
+      text: 'Please include a message: `/urgent <message>`',
+      ephemeral: true,
+    };
+  }
+
+  try {
+    const result = await sessionManager.sendInput(userId, text, { urgent: true, sessionId });
+    return {
+      text: result.queued
+        ? 'Interrupting Claude; your message goes next.'
+        : 'Sent.',
+    };
+  } catch (err) {
+    if (err instanceof InputQueueFullError) {
+      return { text: 'The input queue is full. Use `/queue clear` to make room.', ephemeral: true };
+    }
+    return {
+      text: 'No active session.',
+      ephemeral: true,
+    };
+  }
+}
+
+async function handlePassthroughCommand(
+  command: string,
+  userId: string,
+  sessionManager: SessionManager,
+  sessionId?: string
+): Promise<CommandResult> {
+  if (!command || command === '/') {
+    return {
+      text: 'Please specify a Claude Code command: `/cc <command>` or `//<command>`',
+      ephemeral: true,
+    };
+  }
+
+  const name = command.split(/\s+/)[0];
+
+  try {
+    const result = await sessionManager.sendInput(userId, command, { sessionId });
+    return {
+      text: result.queued
+        ? `Queued \`${name}\` for Claude Code (position ${result.position}).`
+        : `Sent \`${name}\` to Claude Code.`,
+    };
+  } catch (err) {
+    if (err instanceof InputQueueFullError) {
+      return { text: 'The input queue is full.', ephemeral: true };
+    }
+    return {
+      text: 'No active session. Start one with `/new` first.',
+      ephemeral: true,
+    };
+  }
+}
+
 function handleHelpCommand(): CommandResult {
   return {
     text: [
       '*ClaudeWire Commands*',
       '',
       '*Session Management:*',
-      '`/new [name]` - Start a new session (optionally with project name)',
-      '`/stop` - End your current session',
+      '`/new [name] [--backend pty|stream-json]` - Start a new session (optionally with project name)',
+      '    Options: `--model <name>` `--mode plan|default|acceptEdits` `--allow Read,Edit` `--deny Bash`',
+      '    `--system "extra instructions"` `--add-dir <path,...>`',
+      '`/stop [id|project]` - End your active session, or the given one',
+      '`/sessions` - List your running sessions',
+      '`/switch <id|project>` - Send your messages to another running session',
+      '`/invite @user [driver|observer]` - Share the session: drivers can send input and answer prompts, observers only watch',
       '`/status` - Show session status',
+      '`/screen` - Show the current terminal screen',
       '',
       '*Project Management:*',
       '`/projects` - List your available projects',
-      '`/resume <name>` - Resume session in an existing project',
-      '`/sessions` - Show your active sessions',
+      '`/resume` - Pick an earlier conversation to continue',
+      '`/resume <session-id>` - Continue a specific earlier conversation',
+      '`/resume <name>` - Continue the latest conversation in a project',
       '',
       '*During Tool Prompts:*',
       '`/y` or `/accept` - Accept tool use',
       '`/n` or `/reject` - Reject tool use',
       '`/cancel` - Send Ctrl+C to cancel',
+      '`/pick <number>` - Choose an option from a menu',
+      '',
+      '*While Claude Is Busy:*',
+      '`/queue` - Show messages waiting to be sent',
+      '`/queue clear` - Drop all queued messages',
+      '`/urgent <message>` - Interrupt Claude and send this next',
+      '',
+      '*Claude Code Commands:*',
+      `Forwarded as-is: ${config.claude.nativeCommands.map(name => `\`/${name}\``).join(' ')}`,
+      '`/cc <command>` or `//<command>` - Send any other Claude Code command, including custom project commands',
       '',
       '*Or just send a message* - It goes directly to Claude Code',
     ].join('\n'),
@@ -323,85 +858,231 @@ async function handleSessionsCommand(
   userId: string,
   sessionManager: SessionManager
 ): Promise<CommandResult> {
-  const status = await sessionManager.getSessionStatus(userId);
+  const sessions = await sessionManager.listSessionsForUser(userId);
+  const hibernated = await sessionManager.listHibernatedSessionsForUser(userId);
 
-  if (!status.hasSession) {
+  const hibernatedList = hibernated.flatMap((session) => {
+    const since = Math.round((Date.now() - new Date(session.hibernatedAt ?? session.lastActivityAt).getTime()) / 1000 / 60);
+    return [
+      `• *${path.basename(session.projectPath)}*`,
+      `  - Session ID: \`${session.id}\``,
+      `  - Hibernating for: ${since} minutes`,
+      `  - Path: \`${session.projectPath}\``,
+    ];
+  });
+  const hibernatedSection = hibernated.length > 0
+    ? [
+      '',
+      `*Hibernated Sessions* (${hibernated.length})`,
+      '',
+      ...hibernatedList,
+      '',
+      'Send a message in a hibernated session\'s thread to wake it up.',
+    ]
+    : [];
+
+  if (sessions.length === 0) {
     return {
-      text: '*Active Sessions*\n\nNo active sessions. Use `/new` to start one.',
+      text: ['*Active Sessions*\n\nNo active sessions. Use `/new` to start one.', ...hibernatedSection].join('\n'),
       ephemeral: true,
     };
   }
 
-  const session = status.session!;
-  const projectName = path.basename(session.projectPath);
-  const uptime = Math.round((Date.now() - new Date(session.createdAt).getTime()) / 1000 / 60);
-
-  return {
-    text: [
-      '*Active Sessions*',
-      '',
-      `• *${projectName}*`,
+  const active = await sessionManager.getSessionForUser(userId);
+  const sessionList = sessions.flatMap((session) => {
+    const projectName = path.basename(session.projectPath);
+    const uptime = Math.round((Date.now() - new Date(session.createdAt).getTime()) / 1000 / 60);
+    return [
+      `• *${projectName}*${session.id === active?.id ? ' _(active)_' : ''}`,
       `  - Session ID: \`${session.id}\``,
       `  - Status: ${session.status}`,
       `  - Uptime: ${uptime} minutes`,
       `  - Path: \`${session.projectPath}\``,
+    ];
+  });
+
+  return {
+    text: [
+      `*Active Sessions* (${sessions.length} of ${config.claude.maxSessionsPerUser})`,
+      '',
+      ...sessionList,
+      '',
+      'Plain messages go to the active session. Use `/switch <id|project>` to change it.',
+      ...hibernatedSection,
     ].join('\n'),
     ephemeral: true,
   };
 }
 
-async function handleResumeCommand(
-  projectName: string | undefined,
+async function handleSwitchCommand(
+  target: string | undefined,
+  userId: string,
+  sessionManager: SessionManager
+): Promise<CommandResult> {
+  if (!target) {
+    return {
+      text: 'Please specify a session: `/switch <id|project>`. Use `/sessions` to list them.',
+      ephemeral: true,
+    };
+  }
+
+  const session = await sessionManager.switchSession(userId, target);
+
+  if (!session) {
+    return {
+      text: `No active session \`${target}\`. Use \`/sessions\` to list your sessions.`,
+      ephemeral: true,
+    };
+  }
+
+  return {
+    text: `Your messages now go to the session in \`${path.basename(session.projectPath)}\` (\`${session.id}\`).`,
+    ephemeral: true,
+  };
+}
+
+async function handleInviteCommand(
+  memberId: string | undefined,
+  role: string | undefined,
   userId: string,
-  userName: string,
-  channelId: string,
-  messageTs: string,
   sessionManager: SessionManager,
-  projectManager?: ProjectManager
+  sessionId?: string
 ): Promise<CommandResult> {
-  if (!projectName) {
+  if (!memberId) {
     return {
-      text: 'Please specify a project name: `/resume <project-name>`\n\nUse `/projects` to see available projects.',
+      text: `Please mention who to invite: \`/invite @user [${SESSION_ROLES.join('|')}]\``,
       ephemeral: true,
     };
   }
 
-  if (!projectManager) {
+  // Observers are the safe default: they cannot send input or approve anything
+  const memberRole = role ?? 'observer';
+  if (!isSessionRole(memberRole)) {
     return {
-      text: 'Project manager not available.',
+      text: `Unknown role \`${memberRole}\`. Available roles: ${SESSION_ROLES.map(r => `\`${r}\``).join(', ')}`,
       ephemeral: true,
     };
   }
 
-  // Find the project by name
-  const projects = projectManager.listUserProjects(userId);
-  const matchingProject = projects.find((p) => path.basename(p) === projectName);
+  if (memberId === userId) {
+    return { text: 'You already own this session.', ephemeral: true };
+  }
 
-  if (!matchingProject) {
+  const session = await sessionManager.findSessionForUser(userId, sessionId);
+  if (!session) {
     return {
-      text: `Project \`${projectName}\` not found.\n\nUse \`/projects\` to see available projects or \`/new ${projectName}\` to create it.`,
+      text: 'No active session of yours to share. Only the owner of a session can invite others.',
       ephemeral: true,
     };
   }
 
-  // Start session in the existing project
+  // Nobody else can see a direct message conversation with the bot
+  if (session.channelId.startsWith('D')) {
+    return {
+      text: 'Sessions in direct messages cannot be shared. Start the session in a channel your teammates can see.',
+      ephemeral: true,
+    };
+  }
+
+  await sessionManager.inviteMember(userId, memberId, memberRole, session.id);
+  return {
+    text: `Invited <@${memberId}> to the session in \`${path.basename(session.projectPath)}\` as ${memberRole === 'driver' ? 'a driver' : 'an observer'}.`,
+    ephemeral: true,
+  };
+}
+
+async function handleResumeCommand(
+  target: string | undefined,
+  userId: string,
+  userName: string,
+  channelId: string,
+  messageTs: string,
+  sessionManager: SessionManager,
+  projectManager?: ProjectManager
+): Promise<CommandResult> {
+  const resumable = sessionManager.getResumableSessions(userId);
+
+  if (!target) {
+    if (resumable.length === 0) {
+      return {
+        text: 'No earlier conversations to resume. Use `/new` to start one, or `/resume <project-name>` to open a project.',
+        ephemeral: true,
+      };
+    }
+    return {
+      text: formatResumeList(resumable),
+      blocks: buildResumePickerBlocks(resumable),
+    };
+  }
+
+  // An explicit session ID picks that conversation; a project name picks the latest one there
+  let resumeFrom = resumable.find((entry) => entry.id === target)?.id;
+  let projectPath: string | undefined;
+
+  if (!resumeFrom) {
+    if (!projectManager) {
+      return {
+        text: 'Project manager not available.',
+        ephemeral: true,
+      };
+    }
+
+    const projects = projectManager.listUserProjects(userId);
+    projectPath = projects.find((p) => path.basename(p) === target);
+
+    if (!projectPath) {
+      return {
+        text: `No conversation or project named \`${target}\` found.\n\nUse \`/resume\` to list earlier conversations, \`/projects\` to see available projects or \`/new ${target}\` to create it.`,
+        ephemeral: true,
+      };
+    }
+
+    resumeFrom = resumable.find((entry) => entry.projectPath === projectPath)?.id;
+  }
+
+  return resumeSession({ userId, userName, channelId, messageTs, resumeFrom, projectPath }, sessionManager);
+}
+
+/**
+ * Start a session that continues an earlier conversation, or opens the
+ * project fresh when there is none to continue
+ */
+export async function resumeSession(
+  opts: {
+    userId: string;
+    userName: string;
+    channelId: string;
+    messageTs: string;
+    resumeFrom?: string;
+    projectPath?: string;
+  },
+  sessionManager: SessionManager
+): Promise<CommandResult> {
   try {
-    const session = await sessionManager.createSession({
-      userId,
-      userName,
-      channelId,
-      messageTs,
-      projectPath: matchingProject,
-    });
+    const session = await sessionManager.createSession(opts);
+    const projectName = path.basename(session.projectPath);
 
     return {
-      text: `Resumed session in \`${projectName}\`\nSession ID: \`${session.id}\`\nPath: \`${session.projectPath}\``,
+      text: opts.resumeFrom
+        ? `Resumed conversation in \`${projectName}\`\nSession ID: \`${session.id}\`\nPath: \`${session.projectPath}\``
+        : `Started new conversation in \`${projectName}\` (no earlier conversation recorded)\nSession ID: \`${session.id}\`\nPath: \`${session.projectPath}\``,
     };
   } catch (err) {
-    if (err instanceof SessionExistsError) {
-      const status = await sessionManager.getSessionStatus(userId);
+    if (err instanceof SessionExistsError || err instanceof SessionLimitError) {
       return {
-        text: `You already have an active session in \`${path.basename(status.session?.projectPath ?? '')}\`.\n\nUse \`/stop\` to end it first.`,
+        text: await sessionConflictMessage(err, sessionManager, opts.userId),
+        ephemeral: true,
+      };
+    }
+    if (err instanceof SessionRequestCancelledError) {
+      return {
+        text: 'Cancelled while waiting for a slot.',
+        ephemeral: true,
+      };
+    }
+    if (err instanceof ConversationNotFoundError) {
+      return {
+        text: 'That conversation cannot be resumed. Use `/resume` to list the ones that can.',
         ephemeral: true,
       };
     }
@@ -411,7 +1092,13 @@ async function handleResumeCommand(
         ephemeral: true,
       };
     }
-    log.error({ err, userId, projectName }, 'Failed to resume session');
+    if (err instanceof ClaudeSpawnError) {
+      return {
+        text: spawnFailureMessage(err),
+        ephemeral: true,
+      };
+    }
+    log.error({ err, userId: opts.userId, resumeFrom: opts.resumeFrom }, 'Failed to resume session');
     return {
       text: 'Failed to resume session. Please try again.',
       ephemeral: true,
@@ -1,18 +1,60 @@
-import type { WebClient } from '@slack/web-api';
-import type { SlackContext } from './types.js';
+import type { KnownBlock, WebClient } from '@slack/web-api';
+import type { InlineCommand, SlackContext } from './types.js';
 import type { SessionManager } from '../session/manager.js';
 import type { AuthService } from '../gateway/auth.js';
 import type { ProjectManager } from '../storage/projects.js';
-import { parseInlineCommand, executeCommand } from './commands.js';
+import type { QueuedSessionRequest, Session, SessionRole } from '../session/types.js';
+import { canDrive, sessionRole } from '../session/members.js';
+import {
+  parseInlineCommand,
+  parseCommandArgs,
+  parseUserMention,
+  splitCommandLine,
+  executeCommand,
+  resumeSession,
+  spawnFailureMessage,
+} from './commands.js';
+import { normalizeSlackText } from './text.js';
 import { ThreadStreamer } from '../streaming/thread-streamer.js';
-import { ClaudeCodeNotInstalledError } from '../utils/errors.js';
+import { formatToolUse } from '../claude/stream-parser.js';
+import {
+  buildDecisionBlocks,
+  buildIdleDecisionBlocks,
+  buildIdleWarningBlocks,
+  buildMenuBlocks,
+  buildMenuChoiceBlocks,
+  buildPermissionBlocks,
+  buildPromptGoneBlocks,
+  buildSessionPickerBlocks,
+  decisionSummary,
+  formatIdleWarning,
+  formatMenu,
+  formatPermissionRequest,
+  formatSessionPicker,
+  NEW_SESSION_CHOICE,
+  PROMPT_GONE_TEXT,
+} from './blocks.js';
+import type { IdleAction, PermissionDecision } from './blocks.js';
+import {
+  ClaudeCodeNotInstalledError,
+  ClaudeSpawnError,
+  InputQueueFullError,
+  SessionExistsError,
+  SessionLimitError,
+  SessionRequestCancelledError,
+} from '../utils/errors.js';
+import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
+import path from 'path';
 
 const log = logger.child({ component: 'slack-handlers' });
 
 // Map of session IDs to their thread streamers
 const activeStreamers = new Map<string, ThreadStreamer>();
 
+// How long a top-level message waits for the user to pick a session
+const PENDING_MESSAGE_TTL_SECONDS = 15 * 60;
+
 export async function handleUserMessage(
   ctx: SlackContext,
   text: string,
@@ -31,83 +73,315 @@ export async function handleUserMessage(
     return;
   }
 
+  // Undo Slack's entity and link encoding before anything reaches the CLI
+  text = normalizeSlackText(text);
+
+  // A reply in a session's thread belongs to that session, even while it
+  // hibernates: the next plain message wakes it, and commands address it
+  // without waking it, so `/stop` discards it
+  const threadSession = ctx.threadTs
+    ? await sessionManager.getSessionForThread(ctx.channelId, ctx.threadTs)
+      ?? await sessionManager.getHibernatedSessionForThread(ctx.channelId, ctx.threadTs)
+    : null;
+
+  const role = threadSession ? sessionRole(threadSession, ctx.userId) : 'owner';
+  if (threadSession && !role) {
+    await client.chat.postEphemeral({
+      channel: ctx.channelId,
+      user: ctx.userId,
+      thread_ts: threadSession.threadTs,
+      text: `This thread belongs to <@${threadSession.userId}>'s session. Ask them to \`/invite\` you, or send a top-level message to start your own.`,
+    });
+    return;
+  }
+
   // Check for inline commands
   const command = parseInlineCommand(text);
   if (command) {
+    const denied = threadSession && role ? commandDeniedReason(command, role) : null;
+    if (denied) {
+      await client.chat.postEphemeral({
+        channel: ctx.channelId,
+        user: ctx.userId,
+        thread_ts: threadSession!.threadTs,
+        text: denied,
+      });
+      return;
+    }
+
+    // Stopping a thread whose session is still waiting in line withdraws the
+    // request; the place-in-line message says so
+    if (!threadSession && ctx.threadTs && command.type === 'stop' && !command.target
+      && await sessionManager.cancelQueuedSession(ctx.userId, ctx.channelId, ctx.threadTs)) {
+      return;
+    }
+
+    if (threadSession && (command.type === 'new' || command.type === 'resume')) {
+      await client.chat.postMessage({
+        channel: ctx.channelId,
+        thread_ts: ctx.messageTs,
+        text: `This thread already belongs to your session in \`${path.basename(threadSession.projectPath)}\`. Start other sessions from a top-level message.`,
+      });
+      return;
+    }
+
     const result = await executeCommand(
       command,
       ctx.userId,
       ctx.userName,
       ctx.channelId,
-      ctx.messageTs,
+      // A session started here takes over the thread the command was sent in
+      ctx.threadTs ?? ctx.messageTs,
       sessionManager,
-      projectManager
+      projectManager,
+      threadSession?.id
     );
 
     await client.chat.postMessage({
       channel: ctx.channelId,
       thread_ts: ctx.messageTs,
       text: result.text,
+      blocks: result.blocks as KnownBlock[] | undefined,
     });
     return;
   }
 
-  // Get or create session
-  let session = await sessionManager.getSessionForUser(ctx.userId);
+  if (role === 'observer') {
+    await client.chat.postEphemeral({
+      channel: ctx.channelId,
+      user: ctx.userId,
+      thread_ts: threadSession!.threadTs,
+      text: 'You are observing this session. Only its owner and drivers can send it messages.',
+    });
+    return;
+  }
+
+  if (threadSession?.status === 'hibernated') {
+    const woken = await wakeSessionForMessage(threadSession, ctx.userId, client, sessionManager);
+    if (!woken) return;
+    await deliverMessage(woken, text, ctx.userId, client, sessionManager);
+    return;
+  }
+
+  let session = threadSession;
+
+  // The thread's session has not started yet, and a message now would queue a second one
+  if (!session && ctx.threadTs && await sessionManager.isThreadQueued(ctx.channelId, ctx.threadTs)) {
+    await client.chat.postEphemeral({
+      channel: ctx.channelId,
+      user: ctx.userId,
+      thread_ts: ctx.threadTs,
+      text: 'This thread\'s session is still waiting for a free slot. Send your message again once it has started, or `/stop` to cancel it.',
+    });
+    return;
+  }
 
   if (!session) {
-    // Auto-create session on first message
-    try {
-      session = await sessionManager.createSession({
-        userId: ctx.userId,
-        userName: ctx.userName,
-        channelId: ctx.channelId,
-        messageTs: ctx.messageTs,
-      });
+    // Outside a session thread: only ask when there is a choice to make
+    const sessions = await sessionManager.listSessionsForUser(ctx.userId);
+    const canStartNew = await sessionManager.canStartDefaultSession(ctx.userId);
 
-      await client.chat.postMessage({
-        channel: ctx.channelId,
-        thread_ts: ctx.messageTs,
-        text: `Started new Claude Code session in \`${session.projectPath}\``,
-      });
-    } catch (err) {
-      log.error({ err, userId: ctx.userId }, 'Failed to create session');
+    if (sessions.length === 1 && !canStartNew) {
+      session = sessions[0]!;
+    } else if (sessions.length > 0) {
+      await askForSession(ctx, text, sessions, canStartNew, client, sessionManager);
+      return;
+    } else {
+      // Auto-create session on first message
+      session = await startSessionForMessage(
+        { userId: ctx.userId, userName: ctx.userName, channelId: ctx.channelId, threadTs: ctx.threadTs ?? ctx.messageTs },
+        client,
+        sessionManager
+      );
+      if (!session) return;
+    }
+  }
 
-      let errorMessage = 'Failed to start session. Please try again.';
-      if (err instanceof ClaudeCodeNotInstalledError) {
-        errorMessage = '*Error: Claude Code CLI is not installed*\n\nClaudeWire requires Claude Code to be installed on the server. Please contact your administrator.';
-      }
+  await deliverMessage(session, text, ctx.userId, client, sessionManager);
+}
+
+// Commands only the session owner may run, and commands that act on the session
+const OWNER_COMMANDS = new Set<InlineCommand['type']>(['stop', 'invite']);
+const DRIVER_COMMANDS = new Set<InlineCommand['type']>(['accept', 'reject', 'cancel', 'pick', 'urgent', 'passthrough']);
+
+/**
+ * Why a member of a session may not run a command in its thread, or null
+ * when they may. Commands about the user's own sessions are always allowed.
+ */
+function commandDeniedReason(command: InlineCommand, role: 'owner' | SessionRole): string | null {
+  if (role === 'owner') return null;
+
+  if (OWNER_COMMANDS.has(command.type)) {
+    return 'Only the owner of this session can do that.';
+  }
+  const drives = DRIVER_COMMANDS.has(command.type) || (command.type === 'queue' && command.clear);
+  if (drives && role === 'observer') {
+    return 'You are observing this session. Only its owner and drivers can send it input or answer its prompts.';
+  }
+  return null;
+}
+
+/**
+ * Start a session in the user's default project, bound to the given thread.
+ * Posts the outcome there; returns null when the session could not start.
+ */
+async function startSessionForMessage(
+  ctx: { userId: string; userName: string; channelId: string; threadTs: string },
+  client: WebClient,
+  sessionManager: SessionManager
+): Promise<Session | null> {
+  try {
+    const session = await sessionManager.createSession({
+      userId: ctx.userId,
+      userName: ctx.userName,
+      channelId: ctx.channelId,
+      messageTs: ctx.threadTs,
+    });
+
+    await client.chat.postMessage({
+      channel: ctx.channelId,
+      thread_ts: ctx.threadTs,
+      text: `Started new Claude Code session in \`${session.projectPath}\``,
+    });
+    return session;
+  } catch (err) {
+    // Withdrawn while waiting in line, which the thread has already been told
+    if (err instanceof SessionRequestCancelledError) return null;
+    log.error({ err, userId: ctx.userId }, 'Failed to create session');
+
+    await client.chat.postMessage({
+      channel: ctx.channelId,
+      thread_ts: ctx.threadTs,
+      text: sessionStartErrorMessage(err),
+    });
+    return null;
+  }
+}
 
+/**
+ * Respawn a hibernated session for a message in its thread. Posts the
+ * outcome there; returns null when the session was not woken.
+ */
+async function wakeSessionForMessage(
+  hibernated: Session,
+  userId: string,
+  client: WebClient,
+  sessionManager: SessionManager
+): Promise<Session | null> {
+  await client.chat.postMessage({
+    channel: hibernated.channelId,
+    thread_ts: hibernated.threadTs,
+    text: ':sunrise: Waking this session up and resuming the conversation…',
+  });
+
+  try {
+    const session = await sessionManager.wakeSession(userId, hibernated.id);
+    if (!session) {
       await client.chat.postMessage({
-        channel: ctx.channelId,
-        thread_ts: ctx.messageTs,
-        text: errorMessage,
+        channel: hibernated.channelId,
+        thread_ts: hibernated.threadTs,
+        text: 'This session can no longer be woken up. Use `/resume` to continue the conversation in a new session.',
       });
-      return;
     }
+    return session;
+  } catch (err) {
+    if (err instanceof SessionRequestCancelledError) return null;
+    log.error({ err, userId, sessionId: hibernated.id }, 'Failed to wake session');
+
+    await client.chat.postMessage({
+      channel: hibernated.channelId,
+      thread_ts: hibernated.threadTs,
+      text: sessionStartErrorMessage(err),
+    });
+    return null;
   }
+}
 
-  // Create or get streamer for this session
-  let streamer = activeStreamers.get(session.id);
-  if (!streamer || ctx.threadTs !== session.threadTs) {
-    // Create new streamer for the correct thread
-    streamer = new ThreadStreamer(client, ctx.channelId, session.threadTs);
-    activeStreamers.set(session.id, streamer);
+/**
+ * What to tell the user when a session could not be started or woken
+ */
+function sessionStartErrorMessage(err: unknown): string {
+  if (err instanceof ClaudeCodeNotInstalledError) {
+    return '*Error: Claude Code CLI is not installed*\n\nClaudeWire requires Claude Code to be installed on the server. Please contact your administrator.';
+  }
+  if (err instanceof ClaudeSpawnError) {
+    return spawnFailureMessage(err);
+  }
+  if (err instanceof SessionExistsError || err instanceof SessionLimitError) {
+    return 'You cannot start another session right now. Use `/sessions` to see the ones running.';
   }
+  return 'Failed to start session. Please try again.';
+}
 
+/**
+ * Send a message to a session; its output streams to the session's thread
+ * from whichever worker runs it
+ */
+async function deliverMessage(
+  session: Session,
+  text: string,
+  userId: string,
+  client: WebClient,
+  sessionManager: SessionManager
+): Promise<void> {
   // Send input to Claude Code
   try {
-    await sessionManager.sendInput(ctx.userId, text);
+    const result = await sessionManager.sendInput(userId, text, { sessionId: session.id });
+    if (result.queued) {
+      await client.chat.postMessage({
+        channel: session.channelId,
+        thread_ts: session.threadTs,
+        text: `:hourglass_flowing_sand: Claude is busy. Your message is queued (position ${result.position}) and will be sent when the current turn finishes. Use \`/queue\` to see or clear the queue.`,
+      });
+    }
   } catch (err) {
-    log.error({ err, userId: ctx.userId }, 'Failed to send input');
+    if (err instanceof InputQueueFullError) {
+      await client.chat.postMessage({
+        channel: session.channelId,
+        thread_ts: session.threadTs,
+        text: 'The input queue is full. Wait for Claude to finish, or use `/queue clear` or `/urgent <message>`.',
+      });
+      return;
+    }
+
+    log.error({ err, userId }, 'Failed to send input');
     await client.chat.postMessage({
-      channel: ctx.channelId,
-      thread_ts: ctx.messageTs,
+      channel: session.channelId,
+      thread_ts: session.threadTs,
       text: 'Failed to send message to Claude Code. Your session may have ended.',
     });
   }
 }
 
+/**
+ * Hold a top-level message and post a picker asking which session it is for
+ */
+async function askForSession(
+  ctx: SlackContext,
+  text: string,
+  sessions: Session[],
+  canStartNew: boolean,
+  client: WebClient,
+  sessionManager: SessionManager
+): Promise<void> {
+  // The picker's clicks report the thread root, so the message is held under it
+  const threadTs = ctx.threadTs ?? ctx.messageTs;
+  await sessionManager.holdMessage(
+    ctx.channelId,
+    threadTs,
+    { userId: ctx.userId, userName: ctx.userName, text },
+    PENDING_MESSAGE_TTL_SECONDS
+  );
+
+  const active = await sessionManager.getSessionForUser(ctx.userId);
+  await client.chat.postMessage({
+    channel: ctx.channelId,
+    thread_ts: threadTs,
+    text: formatSessionPicker(sessions, canStartNew),
+    blocks: buildSessionPickerBlocks(sessions, { activeSessionId: active?.id, canStartNew }),
+  });
+}
+
 export async function handleSlashCommand(
   commandText: string,
   userId: string,
@@ -129,9 +403,9 @@ export async function handleSlashCommand(
   switch (subcommand) {
     case 'new':
     case 'start': {
-      const projectPath = parts[1];
+      const { positional, flags } = parseCommandArgs(splitCommandLine(commandText).slice(1));
       const result = await executeCommand(
-        { type: 'new', projectPath },
+        { type: 'new', projectPath: positional[0], flags },
         userId,
         userName,
         channelId,
@@ -145,7 +419,7 @@ export async function handleSlashCommand(
     case 'stop':
     case 'end': {
       const result = await executeCommand(
-        { type: 'stop' },
+        { type: 'stop', target: parts[1] },
         userId,
         userName,
         channelId,
@@ -170,6 +444,46 @@ export async function handleSlashCommand(
       return result.text;
     }
 
+    case 'screen': {
+      const result = await executeCommand(
+        { type: 'screen' },
+        userId,
+        userName,
+        channelId,
+        '',
+        sessionManager,
+        projectManager
+      );
+      return result.text;
+    }
+
+    case 'queue': {
+      const result = await executeCommand(
+        { type: 'queue', clear: parts[1]?.toLowerCase() === 'clear' },
+        userId,
+        userName,
+        channelId,
+        '',
+        sessionManager,
+        projectManager
+      );
+      return result.text;
+    }
+
+    case 'cc': {
+      const rest = parts.slice(1).join(' ');
+      const result = await executeCommand(
+        { type: 'passthrough', command: !rest || rest.startsWith('/') ? rest : `/${rest}` },
+        userId,
+        userName,
+        channelId,
+        '',
+        sessionManager,
+        projectManager
+      );
+      return result.text;
+    }
+
     case 'projects':
     case 'list':
     case 'ls': {
@@ -199,11 +513,38 @@ export async function handleSlashCommand(
       return result.text;
     }
 
+    case 'switch':
+    case 'use': {
+      const result = await executeCommand(
+        { type: 'switch', target: parts[1] },
+        userId,
+        userName,
+        channelId,
+        '',
+        sessionManager,
+        projectManager
+      );
+      return result.text;
+    }
+
+    case 'invite':
+    case 'share': {
+      const result = await executeCommand(
+        { type: 'invite', memberId: parseUserMention(parts[1]), role: parts[2]?.toLowerCase() },
+        userId,
+        userName,
+        channelId,
+        '',
+        sessionManager,
+        projectManager
+      );
+      return result.text;
+    }
+
     case 'resume':
     case 'open': {
-      const projectName = parts[1];
       const result = await executeCommand(
-        { type: 'resume', projectName },
+        { type: 'resume', target: parts[1] },
         userId,
         userName,
         channelId,
@@ -245,24 +586,492 @@ export function setupSessionOutputHandler(
     await streamer.append(text);
   });
 
-  sessionManager.on('toolUsePrompt', async (session, text) => {
+  sessionManager.on('toolUsePrompt', async (session, request, promptId) => {
+    let streamer = activeStreamers.get(session.id);
+    if (!streamer) {
+      // The message that started the turn may have reached another worker
+      streamer = new ThreadStreamer(client, session.channelId, session.threadTs);
+      activeStreamers.set(session.id, streamer);
+    }
+
+    await streamer.sendImmediate(
+      formatPermissionRequest(request),
+      buildPermissionBlocks(session.id, promptId, request)
+    );
+  });
+
+  sessionManager.on('menu', async (session, menu) => {
+    let streamer = activeStreamers.get(session.id);
+    if (!streamer) {
+      streamer = new ThreadStreamer(client, session.channelId, session.threadTs);
+      activeStreamers.set(session.id, streamer);
+    }
+
+    await streamer.sendImmediate(formatMenu(menu), buildMenuBlocks(session.id, menu));
+  });
+
+  sessionManager.on('queuedInputSent', async (session, input, remaining) => {
+    const streamer = activeStreamers.get(session.id);
+    if (!streamer) return;
+
+    const preview = input.text.length > 80 ? `${input.text.slice(0, 80)}…` : input.text;
+    const suffix = remaining > 0 ? ` (${remaining} more queued)` : '';
+    await streamer.sendImmediate(`:arrow_forward: Sending queued message: _${preview}_${suffix}`);
+  });
+
+  sessionManager.on('memberInvited', async (session, member) => {
+    let streamer = activeStreamers.get(session.id);
+    if (!streamer) {
+      streamer = new ThreadStreamer(client, session.channelId, session.threadTs);
+      activeStreamers.set(session.id, streamer);
+    }
+
+    await streamer.sendImmediate(member.role === 'driver'
+      ? `:busts_in_silhouette: <@${member.userId}> can now drive this session: send messages in this thread and answer its prompts.`
+      : `:eyes: <@${member.userId}> is now observing this session.`);
+  });
+
+  // Place-in-line messages of queued session requests, by session ID. Each
+  // holds the pending post, so updates wait for the message to exist.
+  const queueMessages = new Map<string, Promise<string | undefined>>();
+
+  const postQueueMessage = (request: QueuedSessionRequest, text: string): void => {
+    const previous = queueMessages.get(request.sessionId) ?? Promise.resolve(undefined);
+    queueMessages.set(request.sessionId, previous.then(async (ts) => {
+      try {
+        if (ts) {
+          await client.chat.update({ channel: request.channelId, ts, text });
+          return ts;
+        }
+        const result = await client.chat.postMessage({
+          channel: request.channelId,
+          thread_ts: request.threadTs,
+          text,
+        });
+        return result.ts;
+      } catch (err) {
+        log.warn({ err, sessionId: request.sessionId }, 'Failed to post queue position');
+        return ts;
+      }
+    }));
+  };
+
+  sessionManager.on('sessionQueued', (request, position) => {
+    postQueueMessage(
+      request,
+      `:hourglass_flowing_sand: ClaudeWire is running as many sessions as it can. Your session is *#${position}* in line and will start as soon as a slot frees up.`
+    );
+  });
+
+  sessionManager.on('sessionDequeued', (request) => {
+    postQueueMessage(request, ':arrow_forward: A slot freed up. Starting your session…');
+    void queueMessages.get(request.sessionId)?.finally(() => queueMessages.delete(request.sessionId));
+  });
+
+  sessionManager.on('sessionRequestCancelled', (request) => {
+    postQueueMessage(request, ':no_entry_sign: Cancelled while waiting for a slot. No session was started.');
+    void queueMessages.get(request.sessionId)?.finally(() => queueMessages.delete(request.sessionId));
+  });
+
+  sessionManager.on('sessionReattached', async (session) => {
+    let streamer = activeStreamers.get(session.id);
+    if (!streamer) {
+      streamer = new ThreadStreamer(client, session.channelId, session.threadTs);
+      activeStreamers.set(session.id, streamer);
+    }
+
+    await streamer.sendImmediate(
+      ':electric_plug: ClaudeWire restarted and reconnected to this session. Output produced while it was offline is not posted here; use `/screen` to see where Claude is.'
+    );
+  });
+
+  sessionManager.on('idleWarning', async (session, expiresAt) => {
+    let streamer = activeStreamers.get(session.id);
+    if (!streamer) {
+      streamer = new ThreadStreamer(client, session.channelId, session.threadTs);
+      activeStreamers.set(session.id, streamer);
+    }
+
+    // Matches the idle timer: only a confirmed conversation can be woken
+    const hibernates = config.claude.hibernation.enabled && Boolean(session.claudeSessionId);
+    await streamer.sendImmediate(
+      formatIdleWarning(expiresAt, hibernates),
+      buildIdleWarningBlocks(session.id, expiresAt, config.claude.sessionTimeoutExtendMinutes, hibernates)
+    );
+  });
+
+  sessionManager.on('sessionHibernated', async (session) => {
+    let streamer = activeStreamers.get(session.id);
+    if (!streamer) {
+      streamer = new ThreadStreamer(client, session.channelId, session.threadTs);
+    }
+    activeStreamers.delete(session.id);
+
+    await streamer.finalize(
+      ':zzz: This session was inactive and is now hibernating. Send a message in this thread to wake it up; the conversation picks up where it left off.'
+    );
+  });
+
+  sessionManager.on('sessionOrphaned', async (entry, reason) => {
+    const cause = reason === 'crash'
+      ? ':warning: ClaudeWire stopped unexpectedly and this session was lost.'
+      : ':information_source: ClaudeWire was restarted and this session was ended.';
+
+    try {
+      await client.chat.postMessage({
+        channel: entry.channelId,
+        thread_ts: entry.threadTs,
+        text: `${cause} Use \`/resume\` to continue the conversation in a new session.`,
+      });
+    } catch (err) {
+      // The thread or channel may be gone by now
+      log.warn({ err, sessionId: entry.id }, 'Failed to post session-ended notice');
+    }
+  });
+
+  sessionManager.on('limitExceeded', async (session, limit, minutes) => {
+    let streamer = activeStreamers.get(session.id);
+    if (!streamer) {
+      streamer = new ThreadStreamer(client, session.channelId, session.threadTs);
+      activeStreamers.set(session.id, streamer);
+    }
+
+    await streamer.sendImmediate(limit === 'session_time'
+      ? `:alarm_clock: This session reached its ${minutes}-minute limit and is being ended. Use \`/resume\` to continue the conversation in a new session.`
+      : `:alarm_clock: This turn ran longer than ${minutes} minutes and was interrupted. If Claude does not stop, the session will be ended.`);
+  });
+
+  sessionManager.on('toolUse', async (session, toolUse) => {
     const streamer = activeStreamers.get(session.id);
     if (streamer) {
-      await streamer.sendImmediate(
-        `${text}\n\n_Reply with \`/y\` to accept or \`/n\` to reject_`
-      );
+      await streamer.append(`\n${formatToolUse(toolUse)}\n`);
+    }
+  });
+
+  sessionManager.on('toolResult', async (session, toolResult) => {
+    if (!toolResult.isError) return;
+
+    const streamer = activeStreamers.get(session.id);
+    if (streamer) {
+      const detail = toolResult.content.split('\n')[0]?.slice(0, 200) ?? '';
+      await streamer.append(`\n:warning: Tool failed: ${detail}\n`);
+    }
+  });
+
+  sessionManager.on('result', async (session, result) => {
+    if (!result.isError) return;
+
+    const streamer = activeStreamers.get(session.id);
+    if (streamer) {
+      await streamer.append(`\n:x: Claude stopped: ${result.subtype}\n`);
     }
   });
 
-  sessionManager.on('sessionTerminated', async (sessionId, exitCode) => {
+  sessionManager.on('turnComplete', async (session, summary) => {
+    const streamer = activeStreamers.get(session.id);
+    if (!streamer) return;
+
+    const parts = [`${(summary.durationMs / 1000).toFixed(1)}s`];
+    if (summary.outputChars > 0) parts.push(`${summary.outputChars.toLocaleString('en-US')} chars`);
+    if (summary.totalCostUsd !== undefined) parts.push(`$${summary.totalCostUsd.toFixed(4)}`);
+
+    await streamer.endTurn(`:white_check_mark: *Done* _(${parts.join(' · ')})_`);
+  });
+
+  sessionManager.on('sessionTerminated', async (sessionId, exitCode, reason) => {
     const streamer = activeStreamers.get(sessionId);
     if (streamer) {
-      await streamer.finalize(`Session ended (exit code: ${exitCode})`);
+      await streamer.finalize(reason === 'idle'
+        ? ':zzz: Session ended because it was inactive. Use `/resume` to continue the conversation in a new session.'
+        : `Session ended (exit code: ${exitCode})`);
       activeStreamers.delete(sessionId);
     }
   });
 }
 
+/**
+ * Handle a click on one of the permission prompt buttons
+ */
+export async function handlePermissionAction(
+  decision: PermissionDecision,
+  sessionId: string,
+  promptId: string,
+  ctx: { userId: string; channelId: string; messageTs: string; promptText: string },
+  client: WebClient,
+  sessionManager: SessionManager
+): Promise<void> {
+  const session = await sessionManager.getSession(sessionId);
+
+  if (!session) {
+    await client.chat.update({
+      channel: ctx.channelId,
+      ts: ctx.messageTs,
+      text: 'This session has ended.',
+      blocks: [],
+    });
+    return;
+  }
+
+  if (!canDrive(session, ctx.userId)) {
+    await client.chat.postEphemeral({
+      channel: ctx.channelId,
+      user: ctx.userId,
+      thread_ts: session.threadTs,
+      text: 'Only the owner and drivers of this session can answer its prompts.',
+    });
+    return;
+  }
+
+  const answered = await sessionManager.answerPrompt(ctx.userId, decision, promptId, session.id);
+  if (!answered) {
+    log.info({ sessionId, decision }, 'Permission prompt no longer on screen');
+    await client.chat.update({
+      channel: ctx.channelId,
+      ts: ctx.messageTs,
+      text: PROMPT_GONE_TEXT,
+      blocks: buildPromptGoneBlocks(ctx.promptText),
+    });
+    return;
+  }
+
+  log.info({ sessionId, decision, userId: ctx.userId }, 'Permission decision');
+
+  await client.chat.update({
+    channel: ctx.channelId,
+    ts: ctx.messageTs,
+    text: decisionSummary(decision, ctx.userId),
+    blocks: buildDecisionBlocks(ctx.promptText, decision, ctx.userId),
+  });
+}
+
+/**
+ * Handle a click on the Extend / End now buttons of an inactivity warning
+ */
+export async function handleIdleAction(
+  action: IdleAction,
+  sessionId: string,
+  ctx: { userId: string; channelId: string; messageTs: string; warningText: string },
+  client: WebClient,
+  sessionManager: SessionManager
+): Promise<void> {
+  const session = await sessionManager.getSession(sessionId);
+
+  if (!session) {
+    await client.chat.update({
+      channel: ctx.channelId,
+      ts: ctx.messageTs,
+      text: 'This session has ended.',
+      blocks: [],
+    });
+    return;
+  }
+
+  if (action === 'end' ? session.userId !== ctx.userId : !canDrive(session, ctx.userId)) {
+    await client.chat.postEphemeral({
+      channel: ctx.channelId,
+      user: ctx.userId,
+      thread_ts: session.threadTs,
+      text: action === 'end'
+        ? 'Only the owner of this session can end it.'
+        : 'Only the owner and drivers of this session can extend it.',
+    });
+    return;
+  }
+
+  let outcome: string;
+  if (action === 'extend') {
+    const expiresAt = await sessionManager.extendSession(ctx.userId, session.id);
+    if (!expiresAt) return;
+
+    const epoch = Math.floor(expiresAt.getTime() / 1000);
+    outcome = `:arrows_counterclockwise: Extended by <@${ctx.userId}>, now ends at <!date^${epoch}^{time}|${expiresAt.toISOString()}> without activity`;
+  } else {
+    outcome = `:octagonal_sign: Ended by <@${ctx.userId}>`;
+  }
+
+  log.info({ sessionId, action, userId: ctx.userId }, 'Inactivity warning answered');
+
+  await client.chat.update({
+    channel: ctx.channelId,
+    ts: ctx.messageTs,
+    text: outcome,
+    blocks: buildIdleDecisionBlocks(ctx.warningText, outcome),
+  });
+
+  // Only now, so the warning is updated before the thread is told the session ended
+  if (action === 'end') {
+    await sessionManager.terminateSession(ctx.userId, session.id);
+  }
+}
+
+/**
+ * Handle a click on one of the menu option buttons
+ */
+export async function handleMenuAction(
+  sessionId: string,
+  optionIndex: number,
+  ctx: { userId: string; channelId: string; messageTs: string; menuText: string; optionLabel: string },
+  client: WebClient,
+  sessionManager: SessionManager
+): Promise<void> {
+  const session = await sessionManager.getSession(sessionId);
+
+  if (!session) {
+    await client.chat.update({
+      channel: ctx.channelId,
+      ts: ctx.messageTs,
+      text: 'This session has ended.',
+      blocks: [],
+    });
+    return;
+  }
+
+  if (!canDrive(session, ctx.userId)) {
+    await client.chat.postEphemeral({
+      channel: ctx.channelId,
+      user: ctx.userId,
+      thread_ts: session.threadTs,
+      text: 'Only the owner and drivers of this session can answer its prompts.',
+    });
+    return;
+  }
+
+  const selected = await sessionManager.selectMenuOption(ctx.userId, optionIndex, session.id);
+  if (!selected) {
+    await client.chat.postEphemeral({
+      channel: ctx.channelId,
+      user: ctx.userId,
+      thread_ts: session.threadTs,
+      text: 'That menu is no longer on screen. Use `/screen` to see what Claude is showing.',
+    });
+    return;
+  }
+
+  await client.chat.update({
+    channel: ctx.channelId,
+    ts: ctx.messageTs,
+    text: `${ctx.optionLabel} chosen by <@${ctx.userId}>`,
+    blocks: buildMenuChoiceBlocks(ctx.menuText, ctx.optionLabel, ctx.userId),
+  });
+}
+
+/**
+ * Handle a click on one of the /resume picker buttons. The new session takes
+ * over the thread the picker was posted in.
+ */
+export async function handleResumeAction(
+  resumeFrom: string,
+  ctx: { userId: string; userName: string; channelId: string; messageTs: string; threadTs: string; label: string },
+  client: WebClient,
+  sessionManager: SessionManager
+): Promise<void> {
+  const previous = sessionManager.getResumableSessions(ctx.userId).find(entry => entry.id === resumeFrom);
+
+  if (!previous) {
+    await client.chat.postEphemeral({
+      channel: ctx.channelId,
+      user: ctx.userId,
+      thread_ts: ctx.threadTs,
+      text: 'Only the owner of a conversation can resume it, and it must not be running already.',
+    });
+    return;
+  }
+
+  await client.chat.update({
+    channel: ctx.channelId,
+    ts: ctx.messageTs,
+    text: `Resuming ${ctx.label}…`,
+    blocks: [],
+  });
+
+  const result = await resumeSession(
+    {
+      userId: ctx.userId,
+      userName: ctx.userName,
+      channelId: ctx.channelId,
+      messageTs: ctx.threadTs,
+      resumeFrom,
+    },
+    sessionManager
+  );
+
+  await client.chat.postMessage({
+    channel: ctx.channelId,
+    thread_ts: ctx.threadTs,
+    text: result.text,
+  });
+}
+
+/**
+ * Handle a click on one of the session picker buttons: send the held
+ * message to the chosen session, or start a new session for it in the
+ * message's own thread
+ */
+export async function handleRouteAction(
+  choice: string,
+  ctx: { userId: string; channelId: string; messageTs: string; threadTs: string },
+  client: WebClient,
+  sessionManager: SessionManager
+): Promise<void> {
+  const pending = await sessionManager.getHeldMessage(ctx.channelId, ctx.threadTs);
+
+  if (!pending) {
+    await client.chat.update({
+      channel: ctx.channelId,
+      ts: ctx.messageTs,
+      text: 'This message is no longer waiting. Please send it again.',
+      blocks: [],
+    });
+    return;
+  }
+
+  if (pending.userId !== ctx.userId) {
+    await client.chat.postEphemeral({
+      channel: ctx.channelId,
+      user: ctx.userId,
+      thread_ts: ctx.threadTs,
+      text: 'Only the author of the message can choose where it goes.',
+    });
+    return;
+  }
+
+  let session: Session | null;
+  if (choice === NEW_SESSION_CHOICE) {
+    session = await startSessionForMessage(
+      { userId: pending.userId, userName: pending.userName, channelId: ctx.channelId, threadTs: ctx.threadTs },
+      client,
+      sessionManager
+    );
+  } else {
+    // The chosen session also becomes the target of later top-level commands
+    session = await sessionManager.switchSession(ctx.userId, choice);
+    if (!session) {
+      await client.chat.postEphemeral({
+        channel: ctx.channelId,
+        user: ctx.userId,
+        thread_ts: ctx.threadTs,
+        text: 'That session has ended. Pick another one or start a new session.',
+      });
+      return;
+    }
+  }
+
+  await sessionManager.releaseHeldMessage(ctx.channelId, ctx.threadTs);
+
+  await client.chat.update({
+    channel: ctx.channelId,
+    ts: ctx.messageTs,
+    text: session
+      ? `Sent to the session in \`${path.basename(session.projectPath)}\`. Reply in its thread to keep talking to it.`
+      : 'No session was started for this message.',
+    blocks: [],
+  });
+
+  if (session) {
+    await deliverMessage(session, pending.text, ctx.userId, client, sessionManager);
+  }
+}
+
 export function cleanupStreamer(sessionId: string): void {
   const streamer = activeStreamers.get(sessionId);
   if (streamer) {
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeSlackText } from './text.js';
+
+describe('normalizeSlackText', () => {
+  it('unwraps links with and without a label', () => {
+    expect(normalizeSlackText('see <https://example.com/docs|the docs> and <http://localhost:3000>'))
+      .toBe('see https://example.com/docs and http://localhost:3000');
+    expect(normalizeSlackText('mail <mailto:dev@example.com|dev@example.com>')).toBe('mail mailto:dev@example.com');
+  });
+
+  it('leaves user and channel mentions alone', () => {
+    expect(normalizeSlackText('ask <@U123> in <#C456|general>')).toBe('ask <@U123> in <#C456|general>');
+  });
+
+  it('decodes entities without turning escaped text into links', () => {
+    expect(normalizeSlackText('if a &lt; b &amp;&amp; c &gt; d')).toBe('if a < b && c > d');
+    expect(normalizeSlackText('&lt;https://example.com|x&gt;')).toBe('<https://example.com|x>');
+  });
+
+  it('puts inline code fences on their own lines and keeps the language', () => {
+    expect(normalizeSlackText('run this ```npm test``` please'))
+      .toBe('run this\n```\nnpm test\n```\n please');
+    expect(normalizeSlackText('```ts\nconst a = 1;\n```')).toBe('```ts\nconst a = 1;\n```');
+  });
+
+  it('keeps the contents of a fence as typed', () => {
+    expect(normalizeSlackText('```\nif (a &amp;&amp; b) {\n  run();\n}\n```'))
+      .toBe('```\nif (a && b) {\n  run();\n}\n```');
+  });
+
+  it('trims trailing spaces and collapses runs of blank lines', () => {
+    expect(normalizeSlackText('  first   \n\n\n\nsecond\t\n')).toBe('first\n\nsecond');
+  });
+
+  it('turns non-breaking spaces into plain ones', () => {
+    expect(normalizeSlackText('a\u00a0\u00a0b')).toBe('a  b');
+  });
+});
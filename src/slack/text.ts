@@ -0,0 +1,28 @@
+/**
+ * Undo Slack's message encoding so text reaches Claude the way the user typed it
+ */
+export function normalizeSlackText(text: string): string {
+  let normalized = text;
+
+  // Links arrive as <url|label> or <url>; user and channel mentions are left alone
+  normalized = normalized.replace(/<((?:https?|mailto):[^|>]+)(?:\|[^>]*)?>/g, '$1');
+
+  // Slack sends ```code``` inline; give each fence its own line
+  normalized = normalized.replace(/```([\s\S]*?)```/g, (_match, body: string) => {
+    const language = body.match(/^([\w+-]+)\n/);
+    const code = (language ? body.slice(language[0].length) : body).replace(/^\n+|\n+$/g, '');
+    return `\n\`\`\`${language ? language[1] : ''}\n${code}\n\`\`\`\n`;
+  });
+  normalized = normalized.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+
+  // Entities last, so an escaped "&lt;http://...&gt;" is not taken for a link
+  normalized = normalized
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+
+  // Slack sends non-breaking spaces for some pasted indentation
+  normalized = normalized.replace(/ /g, ' ');
+
+  return normalized;
+}
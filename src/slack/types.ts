@@ -19,14 +19,26 @@ export interface CommandResult {
 }
 
 export type InlineCommand =
-  | { type: 'new'; projectPath?: string }
-  | { type: 'stop' }
+  // flags: raw `--name value` options, validated when the command runs
+  | { type: 'new'; projectPath?: string; flags: Record<string, string> }
+  // A session ID or project name; the active session when omitted
+  | { type: 'stop'; target?: string }
   | { type: 'status' }
+  | { type: 'screen' }
   | { type: 'accept' }
   | { type: 'reject' }
   | { type: 'cancel' }
+  | { type: 'pick'; option?: number }
+  | { type: 'queue'; clear: boolean }
+  | { type: 'urgent'; text: string }
+  // A Claude Code slash command to forward to the CLI, including its leading slash
+  | { type: 'passthrough'; command: string }
   | { type: 'help' }
   | { type: 'projects' }
   | { type: 'sessions' }
-  | { type: 'resume'; projectName?: string }
+  | { type: 'switch'; target?: string }
+  // A Slack user ID and the raw role argument, validated when the command runs
+  | { type: 'invite'; memberId?: string; role?: string }
+  // A previous session ID or a project name
+  | { type: 'resume'; target?: string }
   | { type: 'unknown'; command: string };
@@ -5,7 +5,27 @@ import { StorageError } from '../utils/errors.js';
 
 const log = logger.child({ component: 'redis' });
 
+const CLEAN_SHUTDOWN_KEY = 'claudewire:clean-shutdown';
+
+// How long a reaped session is remembered, so its worker does not announce it again
+const REAPED_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Take the lease if it is free or already ours, and (re)set its expiry
+const ACQUIRE_LEASE_SCRIPT = `
+  local owner = redis.call('GET', KEYS[1])
+  if owner and owner ~= ARGV[1] then return 0 end
+  redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+  return 1
+`;
+
+// Delete the lease only if it is ours
+const RELEASE_LEASE_SCRIPT = `
+  if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('DEL', KEYS[1]) end
+  return 0
+`;
+
 let redisClient: Redis | null = null;
+let subscriberClient: Redis | null = null;
 
 export async function getRedisClient(): Promise<Redis> {
   if (redisClient) return redisClient;
@@ -31,7 +51,27 @@ export async function getRedisClient(): Promise<Redis> {
   return redisClient;
 }
 
+/**
+ * A second connection for pub/sub, which a subscribed connection cannot
+ * share with ordinary commands
+ */
+export async function getRedisSubscriber(): Promise<Redis> {
+  if (subscriberClient) return subscriberClient;
+
+  subscriberClient = (await getRedisClient()).duplicate();
+  subscriberClient.on('error', (err: Error) => {
+    log.error({ err }, 'Redis subscriber connection error');
+  });
+
+  await subscriberClient.connect();
+  return subscriberClient;
+}
+
 export async function closeRedis(): Promise<void> {
+  if (subscriberClient) {
+    await subscriberClient.quit();
+    subscriberClient = null;
+  }
   if (redisClient) {
     await redisClient.quit();
     redisClient = null;
@@ -46,10 +86,66 @@ export class RedisSessionStore {
     return `session:${sessionId}`;
   }
 
-  private userSessionKey(userId: string): string {
-    return `session:user:${userId}`;
+  // Set of all session IDs a user has running
+  private userSessionsKey(userId: string): string {
+    return `session:user:${userId}:sessions`;
+  }
+
+  // Set of the user's hibernated sessions, kept apart from the running ones
+  private userHibernatedKey(userId: string): string {
+    return `session:user:${userId}:hibernated`;
+  }
+
+  // The session plain messages from the user go to
+  private activeSessionKey(userId: string): string {
+    return `session:user:${userId}:active`;
+  }
+
+  // The worker running the session, for as long as it keeps renewing the lease
+  private leaseKey(sessionId: string): string {
+    return `session:${sessionId}:owner`;
+  }
+
+  // Left by a worker that announced a session as lost on behalf of its dead owner
+  private reapedKey(sessionId: string): string {
+    return `session:${sessionId}:reaped`;
+  }
+
+  // The running process that goes by a worker ID
+  private workerKey(workerId: string): string {
+    return `claudewire:worker:${workerId}:process`;
+  }
+
+  // The session a Slack thread belongs to
+  private threadKey(channelId: string, threadTs: string): string {
+    return `session:thread:${channelId}:${threadTs}`;
+  }
+
+  // A session request waiting in line on a worker, for as long as the worker renews it
+  private queuedRequestKey(sessionId: string): string {
+    return `session:${sessionId}:queued`;
+  }
+
+  // The request waiting in line for a thread's session
+  private queuedThreadKey(channelId: string, threadTs: string): string {
+    return `session:queued-thread:${channelId}:${threadTs}`;
+  }
+
+  // Set of the IDs of the user's requests waiting in line
+  private userQueuedKey(userId: string): string {
+    return `session:user:${userId}:queued`;
   }
 
+  // A message waiting for its author to pick a session
+  private heldMessageKey(channelId: string, threadTs: string): string {
+    return `session:held:${channelId}:${threadTs}`;
+  }
+
+  /**
+   * Store the session and add it to the user's sessions. Only the data
+   * expires: sessions of one user can have different timeouts, so the set
+   * keeps its members until they are deleted or pruned.
+   */
   async setSession<T extends object>(
     sessionId: string,
     userId: string,
@@ -60,12 +156,11 @@ export class RedisSessionStore {
       const serialized = JSON.stringify(data);
       const pipeline = this.redis.pipeline();
 
+      pipeline.sadd(this.userSessionsKey(userId), sessionId);
       if (ttlSeconds) {
         pipeline.setex(this.sessionKey(sessionId), ttlSeconds, serialized);
-        pipeline.setex(this.userSessionKey(userId), ttlSeconds, sessionId);
       } else {
         pipeline.set(this.sessionKey(sessionId), serialized);
-        pipeline.set(this.userSessionKey(userId), sessionId);
       }
 
       await pipeline.exec();
@@ -84,25 +179,240 @@ export class RedisSessionStore {
     }
   }
 
-  async getSessionIdForUser(userId: string): Promise<string | null> {
+  /**
+   * IDs of all the user's sessions. May include sessions whose data has
+   * already expired; callers drop those.
+   */
+  async getSessionIdsForUser(userId: string): Promise<string[]> {
     try {
-      return await this.redis.get(this.userSessionKey(userId));
+      return await this.redis.smembers(this.userSessionsKey(userId));
     } catch (err) {
-      throw new StorageError('getSessionIdForUser', err as Error);
+      throw new StorageError('getSessionIdsForUser', err as Error);
+    }
+  }
+
+  async getActiveSessionId(userId: string): Promise<string | null> {
+    try {
+      return await this.redis.get(this.activeSessionKey(userId));
+    } catch (err) {
+      throw new StorageError('getActiveSessionId', err as Error);
+    }
+  }
+
+  async setActiveSessionId(userId: string, sessionId: string): Promise<void> {
+    try {
+      await this.redis.set(this.activeSessionKey(userId), sessionId);
+    } catch (err) {
+      throw new StorageError('setActiveSessionId', err as Error);
     }
   }
 
   async deleteSession(sessionId: string, userId: string): Promise<void> {
     try {
-      await this.redis.pipeline()
+      const active = await this.redis.get(this.activeSessionKey(userId));
+      const pipeline = this.redis.pipeline()
         .del(this.sessionKey(sessionId))
-        .del(this.userSessionKey(userId))
-        .exec();
+        .srem(this.userSessionsKey(userId), sessionId)
+        .srem(this.userHibernatedKey(userId), sessionId);
+      if (active === sessionId) {
+        pipeline.del(this.activeSessionKey(userId));
+      }
+      await pipeline.exec();
     } catch (err) {
       throw new StorageError('deleteSession', err as Error);
     }
   }
 
+  /**
+   * Move a session from the user's running sessions to their hibernated
+   * ones. Its data and thread binding stay, the data for `ttlSeconds`.
+   */
+  async hibernateSession<T extends object>(
+    sessionId: string,
+    userId: string,
+    data: T,
+    ttlSeconds: number
+  ): Promise<void> {
+    try {
+      const active = await this.redis.get(this.activeSessionKey(userId));
+      const pipeline = this.redis.pipeline()
+        .setex(this.sessionKey(sessionId), ttlSeconds, JSON.stringify(data))
+        .srem(this.userSessionsKey(userId), sessionId)
+        .sadd(this.userHibernatedKey(userId), sessionId)
+        .expire(this.userHibernatedKey(userId), ttlSeconds);
+      if (active === sessionId) {
+        pipeline.del(this.activeSessionKey(userId));
+      }
+      await pipeline.exec();
+    } catch (err) {
+      throw new StorageError('hibernateSession', err as Error);
+    }
+  }
+
+  /**
+   * Take a session off the user's hibernated ones. Store it again with
+   * setSession to make it a running session.
+   */
+  async wakeSession(sessionId: string, userId: string): Promise<void> {
+    try {
+      await this.redis.srem(this.userHibernatedKey(userId), sessionId);
+    } catch (err) {
+      throw new StorageError('wakeSession', err as Error);
+    }
+  }
+
+  /**
+   * IDs of the user's hibernated sessions. May include sessions whose data
+   * has already expired; callers drop those.
+   */
+  async getHibernatedSessionIdsForUser(userId: string): Promise<string[]> {
+    try {
+      return await this.redis.smembers(this.userHibernatedKey(userId));
+    } catch (err) {
+      throw new StorageError('getHibernatedSessionIdsForUser', err as Error);
+    }
+  }
+
+  async getAllHibernatedSessionIds(): Promise<string[]> {
+    try {
+      const sessionIds: string[] = [];
+      for (const key of await this.redis.keys(this.userHibernatedKey('*'))) {
+        sessionIds.push(...await this.redis.smembers(key));
+      }
+      return sessionIds;
+    } catch (err) {
+      throw new StorageError('getAllHibernatedSessionIds', err as Error);
+    }
+  }
+
+  async setThreadSession(channelId: string, threadTs: string, sessionId: string): Promise<void> {
+    try {
+      await this.redis.set(this.threadKey(channelId, threadTs), sessionId);
+    } catch (err) {
+      throw new StorageError('setThreadSession', err as Error);
+    }
+  }
+
+  async getThreadSession(channelId: string, threadTs: string): Promise<string | null> {
+    try {
+      return await this.redis.get(this.threadKey(channelId, threadTs));
+    } catch (err) {
+      throw new StorageError('getThreadSession', err as Error);
+    }
+  }
+
+  /**
+   * Unbind a thread, unless it has been taken over by another session meanwhile
+   */
+  async deleteThreadSession(channelId: string, threadTs: string, sessionId: string): Promise<void> {
+    try {
+      const key = this.threadKey(channelId, threadTs);
+      if (await this.redis.get(key) === sessionId) {
+        await this.redis.del(key);
+      }
+    } catch (err) {
+      throw new StorageError('deleteThreadSession', err as Error);
+    }
+  }
+
+  /**
+   * Record a session request waiting in line, or renew the record. It
+   * expires after `ttlMs` unless renewed, so a dead worker's requests go away.
+   */
+  async setQueuedRequest<T extends { sessionId: string; userId: string; channelId: string; threadTs: string }>(
+    request: T,
+    ttlMs: number
+  ): Promise<void> {
+    try {
+      await this.redis.pipeline()
+        .set(this.queuedRequestKey(request.sessionId), JSON.stringify(request), 'PX', ttlMs)
+        .set(this.queuedThreadKey(request.channelId, request.threadTs), request.sessionId, 'PX', ttlMs)
+        .sadd(this.userQueuedKey(request.userId), request.sessionId)
+        .exec();
+    } catch (err) {
+      throw new StorageError('setQueuedRequest', err as Error);
+    }
+  }
+
+  async getQueuedRequest<T>(sessionId: string): Promise<T | null> {
+    try {
+      const data = await this.redis.get(this.queuedRequestKey(sessionId));
+      return data ? JSON.parse(data) as T : null;
+    } catch (err) {
+      throw new StorageError('getQueuedRequest', err as Error);
+    }
+  }
+
+  async getQueuedRequestForThread<T>(channelId: string, threadTs: string): Promise<T | null> {
+    try {
+      const sessionId = await this.redis.get(this.queuedThreadKey(channelId, threadTs));
+      return sessionId ? await this.getQueuedRequest<T>(sessionId) : null;
+    } catch (err) {
+      throw new StorageError('getQueuedRequestForThread', err as Error);
+    }
+  }
+
+  /**
+   * The user's requests waiting in line on any worker. Drops the IDs of
+   * requests whose record has expired.
+   */
+  async getQueuedRequestsForUser<T>(userId: string): Promise<T[]> {
+    try {
+      const requests: T[] = [];
+      for (const sessionId of await this.redis.smembers(this.userQueuedKey(userId))) {
+        const request = await this.getQueuedRequest<T>(sessionId);
+        if (request) {
+          requests.push(request);
+        } else {
+          await this.redis.srem(this.userQueuedKey(userId), sessionId);
+        }
+      }
+      return requests;
+    } catch (err) {
+      throw new StorageError('getQueuedRequestsForUser', err as Error);
+    }
+  }
+
+  async deleteQueuedRequest(request: { sessionId: string; userId: string; channelId: string; threadTs: string }): Promise<void> {
+    try {
+      const threadKey = this.queuedThreadKey(request.channelId, request.threadTs);
+      const pipeline = this.redis.pipeline()
+        .del(this.queuedRequestKey(request.sessionId))
+        .srem(this.userQueuedKey(request.userId), request.sessionId);
+      if (await this.redis.get(threadKey) === request.sessionId) {
+        pipeline.del(threadKey);
+      }
+      await pipeline.exec();
+    } catch (err) {
+      throw new StorageError('deleteQueuedRequest', err as Error);
+    }
+  }
+
+  async setHeldMessage<T extends object>(channelId: string, threadTs: string, message: T, ttlSeconds: number): Promise<void> {
+    try {
+      await this.redis.setex(this.heldMessageKey(channelId, threadTs), ttlSeconds, JSON.stringify(message));
+    } catch (err) {
+      throw new StorageError('setHeldMessage', err as Error);
+    }
+  }
+
+  async getHeldMessage<T>(channelId: string, threadTs: string): Promise<T | null> {
+    try {
+      const data = await this.redis.get(this.heldMessageKey(channelId, threadTs));
+      return data ? JSON.parse(data) as T : null;
+    } catch (err) {
+      throw new StorageError('getHeldMessage', err as Error);
+    }
+  }
+
+  async deleteHeldMessage(channelId: string, threadTs: string): Promise<void> {
+    try {
+      await this.redis.del(this.heldMessageKey(channelId, threadTs));
+    } catch (err) {
+      throw new StorageError('deleteHeldMessage', err as Error);
+    }
+  }
+
   async updateSessionActivity(sessionId: string, ttlSeconds?: number): Promise<void> {
     try {
       if (ttlSeconds) {
@@ -113,13 +423,156 @@ export class RedisSessionStore {
     }
   }
 
+  /**
+   * Take the lease on a session for a worker, or renew it if the worker
+   * already holds it. Returns false when another worker holds it.
+   */
+  async acquireLease(sessionId: string, workerId: string, ttlMs: number): Promise<boolean> {
+    try {
+      const result = await this.redis.eval(ACQUIRE_LEASE_SCRIPT, 1, this.leaseKey(sessionId), workerId, ttlMs);
+      return result === 1;
+    } catch (err) {
+      throw new StorageError('acquireLease', err as Error);
+    }
+  }
+
+  async releaseLease(sessionId: string, workerId: string): Promise<void> {
+    try {
+      await this.redis.eval(RELEASE_LEASE_SCRIPT, 1, this.leaseKey(sessionId), workerId);
+    } catch (err) {
+      throw new StorageError('releaseLease', err as Error);
+    }
+  }
+
+  /**
+   * The worker holding the session's lease, or null once it has expired
+   */
+  async getLeaseOwner(sessionId: string): Promise<string | null> {
+    try {
+      return await this.redis.get(this.leaseKey(sessionId));
+    } catch (err) {
+      throw new StorageError('getLeaseOwner', err as Error);
+    }
+  }
+
+  async markReaped(sessionId: string): Promise<void> {
+    try {
+      await this.redis.setex(this.reapedKey(sessionId), REAPED_TTL_SECONDS, new Date().toISOString());
+    } catch (err) {
+      throw new StorageError('markReaped', err as Error);
+    }
+  }
+
+  async wasReaped(sessionId: string): Promise<boolean> {
+    try {
+      return await this.redis.exists(this.reapedKey(sessionId)) === 1;
+    } catch (err) {
+      throw new StorageError('wasReaped', err as Error);
+    }
+  }
+
+  /**
+   * Register the process `token` under a worker ID, or renew its
+   * registration. False while another process holds the ID.
+   */
+  async claimWorkerId(workerId: string, token: string, ttlMs: number): Promise<boolean> {
+    try {
+      const result = await this.redis.eval(ACQUIRE_LEASE_SCRIPT, 1, this.workerKey(workerId), token, ttlMs);
+      return result === 1;
+    } catch (err) {
+      throw new StorageError('claimWorkerId', err as Error);
+    }
+  }
+
+  async releaseWorkerId(workerId: string, token: string): Promise<void> {
+    try {
+      await this.redis.eval(RELEASE_LEASE_SCRIPT, 1, this.workerKey(workerId), token);
+    } catch (err) {
+      throw new StorageError('releaseWorkerId', err as Error);
+    }
+  }
+
+  /**
+   * Record that a worker shut down cleanly, so its next start, and other
+   * workers meanwhile, can tell a restart from a crash
+   */
+  async markCleanShutdown(workerId: string): Promise<void> {
+    try {
+      await this.redis.set(`${CLEAN_SHUTDOWN_KEY}:${workerId}`, new Date().toISOString());
+    } catch (err) {
+      throw new StorageError('markCleanShutdown', err as Error);
+    }
+  }
+
+  /**
+   * Whether the worker's previous process shut down cleanly. Clears the
+   * record, so it only answers once per start.
+   */
+  async takeCleanShutdown(workerId: string): Promise<boolean> {
+    try {
+      const key = `${CLEAN_SHUTDOWN_KEY}:${workerId}`;
+      const results = await this.redis.multi().get(key).del(key).exec();
+      return Boolean(results?.[0]?.[1]);
+    } catch (err) {
+      throw new StorageError('takeCleanShutdown', err as Error);
+    }
+  }
+
+  /**
+   * Whether the worker shut down cleanly and has not started again since
+   */
+  async hasCleanShutdown(workerId: string): Promise<boolean> {
+    try {
+      return await this.redis.exists(`${CLEAN_SHUTDOWN_KEY}:${workerId}`) === 1;
+    } catch (err) {
+      throw new StorageError('hasCleanShutdown', err as Error);
+    }
+  }
+
+  /**
+   * Remove every trace of sessions other than the live ones: their data,
+   * their entries in users' session sets, active-session pointers and thread
+   * bindings. Hibernated sessions are not in those sets, and pointers to the
+   * ones in `keepSessionIds` stay. Returns the IDs of the sessions removed
+   * from users' sets.
+   */
+  async pruneSessions(liveSessionIds: Set<string>, keepSessionIds = new Set<string>()): Promise<string[]> {
+    try {
+      const pruned: string[] = [];
+      const pipeline = this.redis.pipeline();
+
+      for (const key of await this.redis.keys(this.userSessionsKey('*'))) {
+        for (const sessionId of await this.redis.smembers(key)) {
+          if (liveSessionIds.has(sessionId)) continue;
+          pipeline.srem(key, sessionId).del(this.sessionKey(sessionId));
+          pruned.push(sessionId);
+        }
+      }
+
+      const pointerKeys = [
+        ...await this.redis.keys(this.activeSessionKey('*')),
+        ...await this.redis.keys(this.threadKey('*', '*')),
+      ];
+      for (const key of pointerKeys) {
+        const sessionId = await this.redis.get(key);
+        if (sessionId && !liveSessionIds.has(sessionId) && !keepSessionIds.has(sessionId)) {
+          pipeline.del(key);
+        }
+      }
+
+      await pipeline.exec();
+      return pruned;
+    } catch (err) {
+      throw new StorageError('pruneSessions', err as Error);
+    }
+  }
+
   async getAllSessionIds(): Promise<string[]> {
     try {
-      const keys = await this.redis.keys('session:user:*');
+      const keys = await this.redis.keys('session:user:*:sessions');
       const sessionIds: string[] = [];
       for (const key of keys) {
-        const sessionId = await this.redis.get(key);
-        if (sessionId) sessionIds.push(sessionId);
+        sessionIds.push(...await this.redis.smembers(key));
       }
       return sessionIds;
     } catch (err) {
@@ -20,7 +20,9 @@ const SCHEMA = `
     status TEXT NOT NULL,
     created_at TEXT NOT NULL,
     ended_at TEXT,
-    exit_code INTEGER
+    exit_code INTEGER,
+    claude_session_id TEXT,
+    end_reason TEXT
   );
 
   CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
@@ -32,6 +34,7 @@ const SCHEMA = `
     role TEXT NOT NULL,
     content TEXT NOT NULL,
     timestamp TEXT NOT NULL,
+    sender_id TEXT,
     FOREIGN KEY (session_id) REFERENCES sessions(id)
   );
 
@@ -39,6 +42,23 @@ const SCHEMA = `
   CREATE INDEX IF NOT EXISTS idx_messages_timestamp ON messages(timestamp);
 `;
 
+// Columns added after the first release, for databases created before them
+const COLUMN_MIGRATIONS: Array<{ table: string; column: string; definition: string }> = [
+  { table: 'sessions', column: 'claude_session_id', definition: 'TEXT' },
+  { table: 'messages', column: 'sender_id', definition: 'TEXT' },
+  { table: 'sessions', column: 'end_reason', definition: 'TEXT' },
+];
+
+function migrate(database: Database.Database): void {
+  for (const { table, column, definition } of COLUMN_MIGRATIONS) {
+    const columns = database.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+    if (!columns.some(c => c.name === column)) {
+      database.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      log.info({ table, column }, 'Added column');
+    }
+  }
+}
+
 export function getDatabase(): Database.Database {
   if (db) return db;
 
@@ -51,6 +71,7 @@ export function getDatabase(): Database.Database {
   db = new Database(config.sqlite.path);
   db.pragma('journal_mode = WAL');
   db.exec(SCHEMA);
+  migrate(db);
 
   log.info({ path: config.sqlite.path }, 'SQLite database initialized');
   return db;
@@ -64,6 +85,11 @@ export function closeDatabase(): void {
   }
 }
 
+// Why a session ended, when not simply because Claude exited or was stopped:
+// idle: inactivity timeout; restart: its process did not survive a clean
+// ClaudeWire shutdown; crash: ClaudeWire went down without shutting down
+export type SessionEndReason = 'idle' | 'restart' | 'crash';
+
 export interface SessionLogEntry {
   id: string;
   userId: string;
@@ -75,6 +101,8 @@ export interface SessionLogEntry {
   createdAt: string;
   endedAt?: string;
   exitCode?: number;
+  claudeSessionId?: string;
+  endReason?: SessionEndReason;
 }
 
 export interface MessageLogEntry {
@@ -82,8 +110,17 @@ export interface MessageLogEntry {
   role: 'user' | 'claude' | 'system';
   content: string;
   timestamp: string;
+  // Slack user who sent a user message, which may be a member rather than the owner
+  senderId?: string;
 }
 
+const SESSION_COLUMNS = `
+  id, user_id as userId, user_name as userName, channel_id as channelId,
+  thread_ts as threadTs, project_path as projectPath, status,
+  created_at as createdAt, ended_at as endedAt, exit_code as exitCode,
+  claude_session_id as claudeSessionId, end_reason as endReason
+`;
+
 export class SQLiteLogger {
   constructor(private database: Database.Database) {}
 
@@ -94,11 +131,12 @@ export class SQLiteLogger {
     channelId: string;
     threadTs: string;
     projectPath: string;
+    claudeSessionId?: string;
   }): void {
     try {
       const stmt = this.database.prepare(`
-        INSERT INTO sessions (id, user_id, user_name, channel_id, thread_ts, project_path, status, created_at)
-        VALUES (?, ?, ?, ?, ?, ?, 'active', ?)
+        INSERT INTO sessions (id, user_id, user_name, channel_id, thread_ts, project_path, status, created_at, claude_session_id)
+        VALUES (?, ?, ?, ?, ?, ?, 'active', ?, ?)
       `);
       stmt.run(
         session.id,
@@ -107,7 +145,8 @@ export class SQLiteLogger {
         session.channelId,
         session.threadTs,
         session.projectPath,
-        new Date().toISOString()
+        new Date().toISOString(),
+        session.claudeSessionId ?? null
       );
       log.debug({ sessionId: session.id }, 'Session logged');
     } catch (err) {
@@ -116,27 +155,57 @@ export class SQLiteLogger {
     }
   }
 
-  logSessionEnd(sessionId: string, exitCode?: number): void {
+  logSessionEnd(sessionId: string, exitCode?: number, reason?: SessionEndReason): void {
     try {
       const stmt = this.database.prepare(`
-        UPDATE sessions SET status = 'terminated', ended_at = ?, exit_code = ?
+        UPDATE sessions SET status = 'terminated', ended_at = ?, exit_code = ?, end_reason = ?
         WHERE id = ?
       `);
-      stmt.run(new Date().toISOString(), exitCode ?? null, sessionId);
-      log.debug({ sessionId, exitCode }, 'Session end logged');
+      stmt.run(new Date().toISOString(), exitCode ?? null, reason ?? null, sessionId);
+      log.debug({ sessionId, exitCode, reason }, 'Session end logged');
     } catch (err) {
       log.error({ err, sessionId }, 'Failed to log session end');
       throw new StorageError('logSessionEnd', err as Error);
     }
   }
 
-  logMessage(sessionId: string, role: MessageLogEntry['role'], content: string): void {
+  /**
+   * Move a session between running and hibernated. A hibernated session has
+   * not ended, but has no process that could be left behind.
+   */
+  setSessionStatus(sessionId: string, status: 'active' | 'hibernated'): void {
+    try {
+      const stmt = this.database.prepare(`
+        UPDATE sessions SET status = ? WHERE id = ?
+      `);
+      stmt.run(status, sessionId);
+      log.debug({ sessionId, status }, 'Session status logged');
+    } catch (err) {
+      log.error({ err, sessionId }, 'Failed to log session status');
+      throw new StorageError('setSessionStatus', err as Error);
+    }
+  }
+
+  setClaudeSessionId(sessionId: string, claudeSessionId: string): void {
+    try {
+      const stmt = this.database.prepare(`
+        UPDATE sessions SET claude_session_id = ? WHERE id = ?
+      `);
+      stmt.run(claudeSessionId, sessionId);
+      log.debug({ sessionId, claudeSessionId }, 'Claude session ID recorded');
+    } catch (err) {
+      log.error({ err, sessionId }, 'Failed to record Claude session ID');
+      throw new StorageError('setClaudeSessionId', err as Error);
+    }
+  }
+
+  logMessage(sessionId: string, role: MessageLogEntry['role'], content: string, senderId?: string): void {
     try {
       const stmt = this.database.prepare(`
-        INSERT INTO messages (session_id, role, content, timestamp)
-        VALUES (?, ?, ?, ?)
+        INSERT INTO messages (session_id, role, content, timestamp, sender_id)
+        VALUES (?, ?, ?, ?, ?)
       `);
-      stmt.run(sessionId, role, content, new Date().toISOString());
+      stmt.run(sessionId, role, content, new Date().toISOString(), senderId ?? null);
     } catch (err) {
       log.error({ err, sessionId, role }, 'Failed to log message');
       // Don't throw - message logging is non-critical
@@ -145,9 +214,7 @@ export class SQLiteLogger {
 
   getSessionHistory(userId: string, limit = 10): SessionLogEntry[] {
     const stmt = this.database.prepare(`
-      SELECT id, user_id as userId, user_name as userName, channel_id as channelId,
-             thread_ts as threadTs, project_path as projectPath, status,
-             created_at as createdAt, ended_at as endedAt, exit_code as exitCode
+      SELECT ${SESSION_COLUMNS}
       FROM sessions
       WHERE user_id = ?
       ORDER BY created_at DESC
@@ -156,9 +223,31 @@ export class SQLiteLogger {
     return stmt.all(userId, limit) as SessionLogEntry[];
   }
 
+  /**
+   * Sessions that were started and have not been logged as ended
+   */
+  getActiveSessions(): SessionLogEntry[] {
+    const stmt = this.database.prepare(`
+      SELECT ${SESSION_COLUMNS}
+      FROM sessions
+      WHERE status = 'active'
+      ORDER BY created_at ASC
+    `);
+    return stmt.all() as SessionLogEntry[];
+  }
+
+  getSessionLog(sessionId: string): SessionLogEntry | null {
+    const stmt = this.database.prepare(`
+      SELECT ${SESSION_COLUMNS}
+      FROM sessions
+      WHERE id = ?
+    `);
+    return (stmt.get(sessionId) as SessionLogEntry | undefined) ?? null;
+  }
+
   getSessionMessages(sessionId: string, limit = 100): MessageLogEntry[] {
     const stmt = this.database.prepare(`
-      SELECT session_id as sessionId, role, content, timestamp
+      SELECT session_id as sessionId, role, content, timestamp, sender_id as senderId
       FROM messages
       WHERE session_id = ?
       ORDER BY timestamp ASC
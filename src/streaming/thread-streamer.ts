@@ -1,4 +1,4 @@
-import type { WebClient } from '@slack/web-api';
+import type { KnownBlock, WebClient } from '@slack/web-api';
 import { chunkText } from '../claude/parser.js';
 import { logger } from '../utils/logger.js';
 
@@ -111,12 +111,33 @@ export class ThreadStreamer {
     }
   }
 
-  async sendImmediate(text: string): Promise<void> {
+  /**
+   * Flush the turn's output, post a marker after it, and start the next
+   * turn's output in a fresh message
+   */
+  async endTurn(marker: string): Promise<void> {
+    if (this.isFinalized) return;
+
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+
+    await this.flush();
+    this.buffer = '';
+    this.lastMessageTs = null;
+    this.messageCount = 0;
+
+    await this.sendImmediate(marker);
+  }
+
+  async sendImmediate(text: string, blocks?: KnownBlock[]): Promise<void> {
     try {
       await this.client.chat.postMessage({
         channel: this.channelId,
         thread_ts: this.threadTs,
         text,
+        blocks,
         unfurl_links: false,
         unfurl_media: false,
       });
@@ -12,7 +12,7 @@ export class ClaudeWireError extends Error {
 export class SessionExistsError extends ClaudeWireError {
   constructor(existingSessionId: string) {
     super(
-      'User already has an active session',
+      'User already has an active session in this project',
       'SESSION_EXISTS',
       { existingSessionId }
     );
@@ -20,6 +20,17 @@ export class SessionExistsError extends ClaudeWireError {
   }
 }
 
+export class SessionLimitError extends ClaudeWireError {
+  constructor(limit: number) {
+    super(
+      `User already has the maximum of ${limit} active sessions`,
+      'SESSION_LIMIT',
+      { limit }
+    );
+    this.name = 'SessionLimitError';
+  }
+}
+
 export class NoSessionError extends ClaudeWireError {
   constructor(userId?: string) {
     super(
@@ -42,6 +53,46 @@ export class SessionTerminatedError extends ClaudeWireError {
   }
 }
 
+export class ConversationNotFoundError extends ClaudeWireError {
+  constructor(sessionId: string) {
+    super(
+      'No resumable conversation found for this session',
+      'CONVERSATION_NOT_FOUND',
+      { sessionId }
+    );
+    this.name = 'ConversationNotFoundError';
+  }
+}
+
+export class InvalidSessionSettingsError extends ClaudeWireError {
+  constructor(message: string, setting: string) {
+    super(message, 'INVALID_SESSION_SETTINGS', { setting });
+    this.name = 'InvalidSessionSettingsError';
+  }
+}
+
+export class InputQueueFullError extends ClaudeWireError {
+  constructor(sessionId: string, limit: number) {
+    super(
+      'Input queue is full',
+      'INPUT_QUEUE_FULL',
+      { sessionId, limit }
+    );
+    this.name = 'InputQueueFullError';
+  }
+}
+
+export class SessionRequestCancelledError extends ClaudeWireError {
+  constructor(sessionId: string) {
+    super(
+      'Session request was cancelled while waiting for a slot',
+      'SESSION_REQUEST_CANCELLED',
+      { sessionId }
+    );
+    this.name = 'SessionRequestCancelledError';
+  }
+}
+
 export class UnauthorizedError extends ClaudeWireError {
   constructor(userId: string) {
     super(
@@ -53,12 +104,38 @@ export class UnauthorizedError extends ClaudeWireError {
   }
 }
 
+export type ClaudeSpawnFailureReason =
+  | 'spawn_failed'
+  | 'startup_timeout'
+  | 'exited_during_startup'
+  | 'trust_dialog'
+  | 'login_required'
+  | 'update_required'
+  // Reattaching to a detachable session whose CLI is no longer there
+  | 'detached_session_gone'
+  | 'exited_while_detached';
+
+export class UnsafeEnvironmentError extends ClaudeWireError {
+  constructor(variables: string[]) {
+    super(
+      `Claude processes would inherit secret variables: ${variables.join(', ')}`,
+      'UNSAFE_ENVIRONMENT',
+      { variables }
+    );
+    this.name = 'UnsafeEnvironmentError';
+  }
+}
+
 export class ClaudeSpawnError extends ClaudeWireError {
-  constructor(message: string, cause?: Error) {
+  constructor(
+    message: string,
+    cause?: Error,
+    public readonly reason: ClaudeSpawnFailureReason = 'spawn_failed'
+  ) {
     super(
       `Failed to spawn Claude Code: ${message}`,
       'CLAUDE_SPAWN_ERROR',
-      { cause: cause?.message }
+      { cause: cause?.message, reason }
     );
     this.name = 'ClaudeSpawnError';
   }
@@ -75,6 +152,28 @@ export class ClaudeCodeNotInstalledError extends ClaudeWireError {
   }
 }
 
+export class WorkerUnavailableError extends ClaudeWireError {
+  constructor(workerId: string, method: string) {
+    super(
+      'The worker running this session did not respond',
+      'WORKER_UNAVAILABLE',
+      { workerId, method }
+    );
+    this.name = 'WorkerUnavailableError';
+  }
+}
+
+export class WorkerIdInUseError extends ClaudeWireError {
+  constructor(workerId: string) {
+    super(
+      `Another running worker uses the worker ID ${workerId}; give each worker its own WORKER_ID`,
+      'WORKER_ID_IN_USE',
+      { workerId }
+    );
+    this.name = 'WorkerIdInUseError';
+  }
+}
+
 export class StorageError extends ClaudeWireError {
   constructor(operation: string, cause?: Error) {
     super(
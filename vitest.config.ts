@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // Just enough for the config module to load; specs adjust `config` itself
+    env: {
+      SLACK_BOT_TOKEN: 'xoxb-test',
+      SLACK_APP_TOKEN: 'xapp-test',
+      SLACK_SIGNING_SECRET: 'test',
+      LOG_LEVEL: 'fatal',
+    },
+  },
+});